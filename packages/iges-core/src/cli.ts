@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+import { runValidator } from "./validate/runValidator.js";
+
+process.exitCode = runValidator(process.argv.slice(2), console.log);
@@ -0,0 +1,54 @@
+import { IGESParseError } from "./errors.js";
+import type {
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+  ParseMode,
+  RawEntity,
+} from "./types.js";
+
+/** A diagnostic about an entity's directory entry (D section, its first DE line). */
+export function directoryDiagnostic(
+  deSequence: number,
+  code: DiagnosticCode,
+  message: string,
+  severity: DiagnosticSeverity = "warning"
+): Diagnostic {
+  return { code, severity, message, deSequence, section: "D", line: deSequence };
+}
+
+/** A diagnostic about an entity's parameter data (P section, the first line of its record). */
+export function parameterDiagnostic(
+  entity: RawEntity,
+  code: DiagnosticCode,
+  message: string,
+  severity: DiagnosticSeverity = "warning"
+): Diagnostic {
+  return {
+    code,
+    severity,
+    message,
+    deSequence: entity.de.sequence,
+    section: "P",
+    line: entity.de.parameterDataPointer,
+  };
+}
+
+/**
+ * Record a spec violation found while parsing. Strict mode throws it as an `IGESParseError`
+ * with the same code and line; lenient mode adds it to `diagnostics`.
+ */
+export function reportViolation(
+  diagnostic: Diagnostic,
+  mode: ParseMode,
+  diagnostics: Diagnostic[]
+): void {
+  if (mode === "strict") {
+    throw new IGESParseError(diagnostic.message, {
+      code: diagnostic.code,
+      line: diagnostic.line,
+      context: diagnostic.deSequence === undefined ? undefined : `DE ${diagnostic.deSequence}`,
+    });
+  }
+  diagnostics.push(diagnostic);
+}
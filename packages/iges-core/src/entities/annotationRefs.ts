@@ -0,0 +1,114 @@
+import { baseGeometry, report } from "./decodeContext.js";
+import type { DecodeContext } from "./decodeContext.js";
+import type {
+  CurveGeometry,
+  DimensionGeometry,
+  DimensionType,
+  LeaderGeometry,
+  NoteGeometry,
+  PolylineGeometry,
+  Vec3,
+} from "../types.js";
+import { isCurveGeometry } from "../math/curves.js";
+
+/** Referenced parts of a dimension; omitted fields default to none. */
+export interface DimensionParts {
+  note: NoteGeometry | null;
+  leaders?: Array<LeaderGeometry | null>;
+  witnessLines?: Array<PolylineGeometry | null>;
+  value?: number | null;
+  center?: Vec3 | null;
+  arcRadius?: number | null;
+  outline?: CurveGeometry | null;
+}
+
+/**
+ * Decode an annotation part pointer, warning (with the caller's label) when it is
+ * missing or decodes to the wrong kind. A zero pointer means "none" and stays silent
+ * unless the part is required. Shared by the dimensions (Types 202–222).
+ */
+function annotationReference<K extends "note" | "leader" | "polyline">(
+  ctx: DecodeContext,
+  pointer: number,
+  label: string,
+  kind: K,
+  required: boolean
+): Extract<NoteGeometry | LeaderGeometry | PolylineGeometry, { kind: K }> | null {
+  const { entity } = ctx;
+  if (pointer <= 0 && !required) return null;
+  const child = pointer > 0 ? ctx.decodeReference(pointer) : null;
+  if (!child) {
+    report(
+      ctx,
+      "MISSING_REFERENCE",
+      `Type ${entity.type} DE ${entity.de.sequence}: missing ${label} (DE ${pointer})`
+    );
+    return null;
+  }
+  if (child.kind !== kind) {
+    report(
+      ctx,
+      "WRONG_REFERENCE_TYPE",
+      `Type ${entity.type} DE ${entity.de.sequence}: ${label} DE ${pointer} is not a ${kind} (${child.kind})`
+    );
+    return null;
+  }
+  return child as Extract<NoteGeometry | LeaderGeometry | PolylineGeometry, { kind: K }>;
+}
+
+export function noteReference(ctx: DecodeContext, pointer: number): NoteGeometry | null {
+  return annotationReference(ctx, pointer, "note", "note", true);
+}
+
+export function leaderReference(
+  ctx: DecodeContext,
+  pointer: number,
+  label = "leader",
+  required = true
+): LeaderGeometry | null {
+  return annotationReference(ctx, pointer, label, "leader", required);
+}
+
+/** Witness lines are optional everywhere (a zero pointer means none was drawn). */
+export function witnessReference(
+  ctx: DecodeContext,
+  pointer: number,
+  label = "witness line"
+): PolylineGeometry | null {
+  return annotationReference(ctx, pointer, label, "polyline", false);
+}
+
+/** Optional curve pointer (Type 220's enclosing circle or composite curve). */
+export function outlineReference(ctx: DecodeContext, pointer: number): CurveGeometry | null {
+  if (pointer <= 0) return null;
+  const { entity } = ctx;
+  const child = ctx.decodeReference(pointer);
+  if (!child || !isCurveGeometry(child)) {
+    report(
+      ctx,
+      "WRONG_REFERENCE_TYPE",
+      `Type ${entity.type} DE ${entity.de.sequence}: outline DE ${pointer} is not a curve`
+    );
+    return null;
+  }
+  return child;
+}
+
+export function dimensionGeometry(
+  ctx: DecodeContext,
+  dimensionType: DimensionType,
+  parts: DimensionParts
+): DimensionGeometry {
+  return {
+    kind: "dimension",
+    ...baseGeometry(ctx),
+    dimensionType,
+    note: parts.note,
+    leaders: (parts.leaders ?? []).filter((l): l is LeaderGeometry => l !== null),
+    witnessLines: (parts.witnessLines ?? []).filter((w): w is PolylineGeometry => w !== null),
+    value: parts.value ?? null,
+    center: parts.center ?? null,
+    arcRadius: parts.arcRadius ?? null,
+    outline: parts.outline ?? null,
+  };
+}
@@ -0,0 +1,63 @@
+import { report } from "./decodeContext.js";
+import type { DecodeContext } from "./decodeContext.js";
+import type { BrepEdge, BrepVertex, GeometryEntity } from "../types.js";
+
+/**
+ * Decode a pointer and check its kind, warning (with the caller's label) otherwise.
+ * Shared by the B-rep topology decoders (Types 504–514, 186).
+ */
+export function referenceOfKind<K extends GeometryEntity["kind"]>(
+  ctx: DecodeContext,
+  pointer: number,
+  kind: K,
+  label: string
+): Extract<GeometryEntity, { kind: K }> | null {
+  const { entity } = ctx;
+  const child = pointer > 0 ? ctx.decodeReference(pointer) : null;
+  if (!child) {
+    report(
+      ctx,
+      "MISSING_REFERENCE",
+      `Type ${entity.type} DE ${entity.de.sequence}: missing ${label} (DE ${pointer})`
+    );
+    return null;
+  }
+  if (child.kind !== kind) {
+    report(
+      ctx,
+      "WRONG_REFERENCE_TYPE",
+      `Type ${entity.type} DE ${entity.de.sequence}: ${label} DE ${pointer} is a ${child.kind}, expected ${kind}`
+    );
+    return null;
+  }
+  return child as Extract<GeometryEntity, { kind: K }>;
+}
+
+/** Entry `index` (1-based) of the Type 502 vertex list at `pointer`. */
+export function vertexAt(ctx: DecodeContext, pointer: number, index: number): BrepVertex | null {
+  const list = referenceOfKind(ctx, pointer, "vertexList", "vertex list");
+  const position = list?.vertices[index - 1];
+  if (!list) return null;
+  if (!position) {
+    outOfRange(ctx, `vertex ${index} is out of range for DE ${pointer}`);
+    return null;
+  }
+  return { key: `${pointer}:${index}`, position };
+}
+
+/** Entry `index` (1-based) of the Type 504 edge list at `pointer`. */
+export function edgeAt(ctx: DecodeContext, pointer: number, index: number): BrepEdge | null {
+  const list = referenceOfKind(ctx, pointer, "edgeList", "edge list");
+  const edge = list?.edges[index - 1];
+  if (!list) return null;
+  if (!edge) {
+    outOfRange(ctx, `edge ${index} is out of range for DE ${pointer}`);
+    return null;
+  }
+  return edge;
+}
+
+function outOfRange(ctx: DecodeContext, message: string): void {
+  const { entity } = ctx;
+  report(ctx, "INVALID_PARAMETERS", `Type ${entity.type} DE ${entity.de.sequence}: ${message}`);
+}
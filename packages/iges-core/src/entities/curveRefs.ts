@@ -0,0 +1,35 @@
+import { report } from "./decodeContext.js";
+import type { DecodeContext } from "./decodeContext.js";
+import type { CurveGeometry } from "../types.js";
+import { isCurveGeometry } from "../math/curves.js";
+
+/**
+ * Decode a pointer that must reference a curve, warning (with the caller's label)
+ * when it is missing or decodes to something else. Shared by the swept surfaces
+ * (Types 118, 120, 122).
+ */
+export function curveReference(
+  ctx: DecodeContext,
+  pointer: number,
+  label: string
+): CurveGeometry | null {
+  const { entity } = ctx;
+  const child = pointer > 0 ? ctx.decodeReference(pointer) : null;
+  if (!child) {
+    report(
+      ctx,
+      "MISSING_REFERENCE",
+      `Type ${entity.type} DE ${entity.de.sequence}: missing ${label} (DE ${pointer})`
+    );
+    return null;
+  }
+  if (!isCurveGeometry(child)) {
+    report(
+      ctx,
+      "WRONG_REFERENCE_TYPE",
+      `Type ${entity.type} DE ${entity.de.sequence}: ${label} DE ${pointer} is not a curve (${child.kind})`
+    );
+    return null;
+  }
+  return child;
+}
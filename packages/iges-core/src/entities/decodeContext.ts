@@ -1,11 +1,69 @@
-import type { ParamValue, RawEntity, Transform3D } from "../types.js";
+import { parameterDiagnostic } from "../diagnostics.js";
+import type {
+  BaseGeometry,
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+  GeometryEntity,
+  GlobalSection,
+  IGESColor,
+  IGESProperty,
+  LineFont,
+  ParamValue,
+  RawEntity,
+  Transform3D,
+} from "../types.js";
 import { isPointer } from "../types.js";
 
 export interface DecodeContext {
   entity: RawEntity;
   /** Resolved world transform for this entity (before local geometry). */
   transform: Transform3D;
-  warnings: string[];
+  /** Resolved DE color (standard number or Type 314), copied onto the decoded geometry. */
+  color: IGESColor | null;
+  /** Resolved DE line font (standard pattern or Type 304), copied onto the decoded geometry. */
+  lineFont: LineFont | null;
+  /** Resolved Type 406 properties, copied onto the decoded geometry. */
+  properties: IGESProperty[];
+  global: GlobalSection;
+  diagnostics: Diagnostic[];
+  /**
+   * Decode the entity at a DE pointer (e.g. a composite-curve constituent).
+   * The child's own DE transform is applied; the caller's is applied later by
+   * `resolveReferences()`. Referenced entities are not emitted as standalone geometry.
+   */
+  decodeReference(deSequence: number): GeometryEntity | null;
+}
+
+/**
+ * The fields every decoded geometry takes from its directory entry and the resolved context.
+ * Decoders spread this into their result, so a new DE attribute is added here only.
+ */
+export function baseGeometry(ctx: DecodeContext): Omit<BaseGeometry, "kind"> {
+  const { entity } = ctx;
+  return {
+    deSequence: entity.de.sequence,
+    entityType: entity.type,
+    form: entity.form,
+    transform: ctx.transform,
+    colorNumber: entity.de.colorNumber,
+    color: ctx.color,
+    lineFont: ctx.lineFont,
+    lineWeight: entity.de.lineWeight,
+    level: entity.de.level,
+    status: entity.de.status,
+    properties: ctx.properties,
+  };
+}
+
+/** Record a diagnostic about the entity being decoded (see `parameterDiagnostic()`). */
+export function report(
+  ctx: DecodeContext,
+  code: DiagnosticCode,
+  message: string,
+  severity?: DiagnosticSeverity
+): void {
+  ctx.diagnostics.push(parameterDiagnostic(ctx.entity, code, message, severity));
 }
 
 export function paramNumber(params: ParamValue[], index: number, fallback = 0): number {
@@ -19,6 +77,12 @@ export function paramNumber(params: ParamValue[], index: number, fallback = 0):
   return fallback;
 }
 
+/** Hollerith string field; `fallback` when the field is empty or not a string. */
+export function paramString(params: ParamValue[], index: number, fallback = ""): string {
+  const value = params[index];
+  return typeof value === "string" ? value : fallback;
+}
+
 export function paramInt(params: ParamValue[], index: number, fallback = 0): number {
   return Math.trunc(paramNumber(params, index, fallback));
 }
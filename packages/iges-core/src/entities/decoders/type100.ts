@@ -1,11 +1,11 @@
-import { paramNumber } from "../decodeContext.js";
+import { baseGeometry, paramNumber } from "../decodeContext.js";
 import type { DecodeContext } from "../decodeContext.js";
 import type { CircularArcGeometry } from "../../types.js";
 import { distance2D, vec3 } from "../../math/vec3.js";
 
 /** Circular Arc Entity (Type 100) */
 export function decodeType100(ctx: DecodeContext): CircularArcGeometry {
-  const { entity, transform } = ctx;
+  const { entity } = ctx;
   const p = entity.params;
 
   const zt = paramNumber(p, 0);
@@ -16,16 +16,13 @@ export function decodeType100(ctx: DecodeContext): CircularArcGeometry {
 
   return {
     kind: "circularArc",
-    deSequence: entity.de.sequence,
-    entityType: 100,
-    form: entity.form,
-    transform,
-    colorNumber: entity.de.colorNumber,
-    level: entity.de.level,
+    ...baseGeometry(ctx),
     zDisplacement: zt,
     center,
     start,
     end,
     radius,
+    xAxis: vec3(1, 0, 0),
+    yAxis: vec3(0, 1, 0),
   };
 }
@@ -0,0 +1,58 @@
+import { baseGeometry, paramInt, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import type { CompositeCurveGap, CompositeCurveGeometry, CurveGeometry } from "../../types.js";
+import { curveEndpoints, isCurveGeometry } from "../../math/curves.js";
+import { distance3D } from "../../math/vec3.js";
+
+/**
+ * Composite Curve (Type 102) — ordered chain of curves joined end to start.
+ * PD: N, then N constituent DE pointers.
+ */
+export function decodeType102(ctx: DecodeContext): CompositeCurveGeometry | null {
+  const { entity, global } = ctx;
+  const p = entity.params;
+  const n = paramInt(p, 0);
+
+  const segments: CurveGeometry[] = [];
+  for (let i = 0; i < n; i++) {
+    const pointer = paramInt(p, 1 + i);
+    const child = ctx.decodeReference(pointer);
+    if (!child) continue;
+    if (!isCurveGeometry(child)) {
+      report(
+        ctx,
+        "WRONG_REFERENCE_TYPE",
+        `Type 102 DE ${entity.de.sequence}: constituent DE ${pointer} is not a curve (${child.kind})`
+      );
+      continue;
+    }
+    segments.push(child);
+  }
+
+  if (segments.length === 0) {
+    report(ctx, "INVALID_GEOMETRY", `Type 102 DE ${entity.de.sequence}: no drawable constituents`);
+    return null;
+  }
+
+  const tolerance = global.minimumResolution > 0 ? global.minimumResolution : 1e-6;
+  const gaps: CompositeCurveGap[] = [];
+  for (let i = 0; i < segments.length - 1; i++) {
+    const from = curveEndpoints(segments[i]!).end;
+    const to = curveEndpoints(segments[i + 1]!).start;
+    const gap = distance3D(from, to);
+    if (gap > tolerance) {
+      gaps.push({ afterSegment: i, from, to, distance: gap });
+    }
+  }
+
+  const first = curveEndpoints(segments[0]!).start;
+  const last = curveEndpoints(segments[segments.length - 1]!).end;
+
+  return {
+    kind: "compositeCurve",
+    ...baseGeometry(ctx),
+    segments,
+    gaps,
+    closed: distance3D(first, last) <= tolerance,
+  };
+}
@@ -0,0 +1,75 @@
+import { baseGeometry, paramNumber, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import type { ConicArcGeometry, ConicType } from "../../types.js";
+import { conicBranchFrame, conicFrameFromCoefficients, conicParameter } from "../../math/conic.js";
+import { vec3 } from "../../math/vec3.js";
+
+const FORM_CONIC_TYPES: Record<number, ConicType> = {
+  1: "ellipse",
+  2: "hyperbola",
+  3: "parabola",
+};
+
+/**
+ * Conic Arc (Type 104).
+ * PD: A, B, C, D, E, F, ZT, X1, Y1 (start), X2, Y2 (end).
+ * Form 1 ellipse, 2 hyperbola, 3 parabola; form 0 is classified from the coefficients.
+ */
+export function decodeType104(ctx: DecodeContext): ConicArcGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+
+  const coefficients: ConicArcGeometry["coefficients"] = [
+    paramNumber(p, 0),
+    paramNumber(p, 1),
+    paramNumber(p, 2),
+    paramNumber(p, 3),
+    paramNumber(p, 4),
+    paramNumber(p, 5),
+  ];
+  const zt = paramNumber(p, 6);
+  const start = vec3(paramNumber(p, 7), paramNumber(p, 8), zt);
+  const end = vec3(paramNumber(p, 9), paramNumber(p, 10), zt);
+
+  const frame = conicFrameFromCoefficients(coefficients, zt);
+  if (!frame) {
+    report(
+      ctx,
+      "INVALID_GEOMETRY",
+      `Type 104 DE ${entity.de.sequence}: degenerate conic coefficients`
+    );
+    return null;
+  }
+
+  const expected = FORM_CONIC_TYPES[entity.form];
+  if (expected && expected !== frame.conicType) {
+    report(
+      ctx,
+      "INVALID_PARAMETERS",
+      `Type 104 DE ${entity.de.sequence}: form ${entity.form} (${expected}) but coefficients describe a ${frame.conicType}`
+    );
+  }
+
+  const branch = conicBranchFrame(frame, start);
+  const t0 = conicParameter(branch, start);
+  let t1 = conicParameter(branch, end);
+  if (branch.conicType === "ellipse") {
+    // Ellipse arcs run counter-clockwise; equal end points mean a full ellipse.
+    while (t1 <= t0) t1 += 2 * Math.PI;
+  }
+
+  return {
+    kind: "conicArc",
+    ...baseGeometry(ctx),
+    conicType: branch.conicType,
+    coefficients,
+    zDisplacement: zt,
+    start,
+    end,
+    center: branch.center,
+    axisU: branch.axisU,
+    axisV: branch.axisV,
+    t0,
+    t1,
+  };
+}
@@ -1,4 +1,4 @@
-import { paramInt, paramNumber } from "../decodeContext.js";
+import { baseGeometry, paramInt, paramNumber, report } from "../decodeContext.js";
 import type { DecodeContext } from "../decodeContext.js";
 import type { PolylineGeometry } from "../../types.js";
 import { vec3 } from "../../math/vec3.js";
@@ -10,7 +10,7 @@ import { vec3 } from "../../math/vec3.js";
  * Form 63: simple closed planar curve (xy + z=0).
  */
 export function decodeType106(ctx: DecodeContext): PolylineGeometry | null {
-  const { entity, transform, warnings } = ctx;
+  const { entity } = ctx;
   const p = entity.params;
   const form = entity.form;
   const ip = paramInt(p, 0);
@@ -33,7 +33,9 @@ export function decodeType106(ctx: DecodeContext): PolylineGeometry | null {
       points.push(vec3(paramNumber(p, 3 + 2 * i), paramNumber(p, 4 + 2 * i), 0));
     }
   } else {
-    warnings.push(
+    report(
+      ctx,
+      "UNSUPPORTED_FORM",
       `Type 106 form ${form} (IP=${ip}) not fully supported for DE ${entity.de.sequence}`
     );
     return null;
@@ -41,12 +43,7 @@ export function decodeType106(ctx: DecodeContext): PolylineGeometry | null {
 
   return {
     kind: "polyline",
-    deSequence: entity.de.sequence,
-    entityType: 106,
-    form,
-    transform,
-    colorNumber: entity.de.colorNumber,
-    level: entity.de.level,
+    ...baseGeometry(ctx),
     points,
     closed: form === 63,
   };
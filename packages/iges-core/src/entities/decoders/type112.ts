@@ -0,0 +1,49 @@
+import { baseGeometry, paramInt, paramNumber, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import type { ParametricSplineCurveGeometry, ParametricSplineSegment } from "../../types.js";
+import { vec3 } from "../../math/vec3.js";
+
+/**
+ * Parametric Spline Curve (Type 112).
+ * PD: CTYPE, H, NDIM, N, T(1)…T(N+1), then per segment
+ * AX,BX,CX,DX, AY,BY,CY,DY, AZ,BZ,CZ,DZ, then 12 terminal derivative values.
+ * @see IGES 5.3 Section 4.9
+ */
+export function decodeType112(ctx: DecodeContext): ParametricSplineCurveGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+
+  const ctype = paramInt(p, 0);
+  const continuity = paramInt(p, 1);
+  const ndim = paramInt(p, 2);
+  const n = paramInt(p, 3);
+  const coefficientStart = 4 + n + 1;
+
+  if (n < 1 || p.length < coefficientStart + 12 * n) {
+    report(ctx, "INVALID_PARAMETERS", `Type 112 DE ${entity.de.sequence}: insufficient parameters`);
+    return null;
+  }
+
+  const breakpoints: number[] = [];
+  for (let i = 0; i <= n; i++) {
+    breakpoints.push(paramNumber(p, 4 + i));
+  }
+
+  const segments: ParametricSplineSegment[] = [];
+  for (let i = 0; i < n; i++) {
+    const base = coefficientStart + 12 * i;
+    const coefficient = (k: number) =>
+      vec3(paramNumber(p, base + k), paramNumber(p, base + 4 + k), paramNumber(p, base + 8 + k));
+    segments.push({ a: coefficient(0), b: coefficient(1), c: coefficient(2), d: coefficient(3) });
+  }
+
+  return {
+    kind: "parametricSplineCurve",
+    ...baseGeometry(ctx),
+    ctype,
+    continuity,
+    ndim,
+    breakpoints,
+    segments,
+  };
+}
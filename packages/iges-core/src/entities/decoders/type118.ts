@@ -0,0 +1,28 @@
+import { baseGeometry, paramInt } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import { curveReference } from "../curveRefs.js";
+import type { RuledSurfaceGeometry } from "../../types.js";
+
+/**
+ * Ruled Surface (Type 118).
+ * PD: DE1 (first curve), DE2 (second curve), DIRFLG, DEVFLG.
+ * Form 0 rules by equal relative arc length, form 1 by equal relative parameter.
+ * @see IGES 5.3 Section 4.17
+ */
+export function decodeType118(ctx: DecodeContext): RuledSurfaceGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+
+  const curve1 = curveReference(ctx, paramInt(p, 0), "first curve");
+  const curve2 = curveReference(ctx, paramInt(p, 1), "second curve");
+  if (!curve1 || !curve2) return null;
+
+  return {
+    kind: "ruledSurface",
+    ...baseGeometry(ctx),
+    curve1,
+    curve2,
+    reversed: paramInt(p, 2) === 1,
+    developable: paramInt(p, 3) === 1,
+  };
+}
@@ -0,0 +1,42 @@
+import { baseGeometry, paramInt, paramNumber, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import { curveReference } from "../curveRefs.js";
+import type { SurfaceOfRevolutionGeometry } from "../../types.js";
+
+/**
+ * Surface of Revolution (Type 120).
+ * PD: L (axis, Type 110), C (generatrix), SA, TA (start / terminate angle in radians).
+ * @see IGES 5.3 Section 4.18
+ */
+export function decodeType120(ctx: DecodeContext): SurfaceOfRevolutionGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+  const seq = entity.de.sequence;
+
+  const axisPtr = paramInt(p, 0);
+  const axis = curveReference(ctx, axisPtr, "axis");
+  const generatrix = curveReference(ctx, paramInt(p, 1), "generatrix");
+  if (!axis || !generatrix) return null;
+  if (axis.kind !== "line") {
+    report(
+      ctx,
+      "WRONG_REFERENCE_TYPE",
+      `Type 120 DE ${seq}: axis DE ${axisPtr} is a ${axis.kind}, expected line`
+    );
+    return null;
+  }
+  const { start, end } = axis;
+  if (start.x === end.x && start.y === end.y && start.z === end.z) {
+    report(ctx, "INVALID_GEOMETRY", `Type 120 DE ${seq}: axis DE ${axisPtr} has zero length`);
+    return null;
+  }
+
+  return {
+    kind: "surfaceOfRevolution",
+    ...baseGeometry(ctx),
+    axis,
+    generatrix,
+    startAngle: paramNumber(p, 2),
+    endAngle: paramNumber(p, 3),
+  };
+}
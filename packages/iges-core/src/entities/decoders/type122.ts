@@ -0,0 +1,25 @@
+import { baseGeometry, paramInt, paramNumber } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import { curveReference } from "../curveRefs.js";
+import type { TabulatedCylinderGeometry } from "../../types.js";
+import { vec3 } from "../../math/vec3.js";
+
+/**
+ * Tabulated Cylinder (Type 122).
+ * PD: DE (directrix), LX, LY, LZ (terminate point of the generatrix line).
+ * @see IGES 5.3 Section 4.19
+ */
+export function decodeType122(ctx: DecodeContext): TabulatedCylinderGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+
+  const directrix = curveReference(ctx, paramInt(p, 0), "directrix");
+  if (!directrix) return null;
+
+  return {
+    kind: "tabulatedCylinder",
+    ...baseGeometry(ctx),
+    directrix,
+    generatrixEnd: vec3(paramNumber(p, 1), paramNumber(p, 2), paramNumber(p, 3)),
+  };
+}
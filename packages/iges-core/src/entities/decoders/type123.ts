@@ -0,0 +1,16 @@
+import { baseGeometry, paramNumber } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import type { DirectionGeometry } from "../../types.js";
+import { vec3 } from "../../math/vec3.js";
+
+/** Direction (Type 123) — PD: X, Y, Z. Only meaningful as a reference from another entity. */
+export function decodeType123(ctx: DecodeContext): DirectionGeometry {
+  const { entity } = ctx;
+  const p = entity.params;
+
+  return {
+    kind: "direction",
+    ...baseGeometry(ctx),
+    vector: vec3(paramNumber(p, 0), paramNumber(p, 1), paramNumber(p, 2)),
+  };
+}
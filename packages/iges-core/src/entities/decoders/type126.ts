@@ -1,4 +1,4 @@
-import { paramInt, paramNumber } from "../decodeContext.js";
+import { baseGeometry, paramInt, paramNumber, report } from "../decodeContext.js";
 import type { DecodeContext } from "../decodeContext.js";
 import type { NurbsCurveGeometry } from "../../types.js";
 import { vec3 } from "../../math/vec3.js";
@@ -8,7 +8,7 @@ import { vec3 } from "../../math/vec3.js";
  * @see IGES 5.3 Table 126
  */
 export function decodeType126(ctx: DecodeContext): NurbsCurveGeometry | null {
-  const { entity, transform, warnings } = ctx;
+  const { entity } = ctx;
   const p = entity.params;
 
   const K = paramInt(p, 0);
@@ -19,7 +19,7 @@ export function decodeType126(ctx: DecodeContext): NurbsCurveGeometry | null {
   const controlStart = weightStart + K + 1;
 
   if (p.length < controlStart + 3 * (K + 1)) {
-    warnings.push(`Type 126 DE ${entity.de.sequence}: insufficient parameters`);
+    report(ctx, "INVALID_PARAMETERS", `Type 126 DE ${entity.de.sequence}: insufficient parameters`);
     return null;
   }
 
@@ -47,12 +47,7 @@ export function decodeType126(ctx: DecodeContext): NurbsCurveGeometry | null {
 
   return {
     kind: "nurbsCurve",
-    deSequence: entity.de.sequence,
-    entityType: 126,
-    form: entity.form,
-    transform,
-    colorNumber: entity.de.colorNumber,
-    level: entity.de.level,
+    ...baseGeometry(ctx),
     degree: M,
     knots,
     weights,
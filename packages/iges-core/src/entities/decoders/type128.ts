@@ -0,0 +1,75 @@
+import { baseGeometry, paramInt, paramNumber, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import type { NurbsSurfaceGeometry, Vec3 } from "../../types.js";
+import { vec3 } from "../../math/vec3.js";
+
+/**
+ * Rational B-Spline Surface (Type 128).
+ * PD: K1, K2, M1, M2, PROP1–5, knots S, knots T, weights, control points, U0, U1, V0, V1.
+ * Weights and control points are listed with the first (U) index varying fastest.
+ * @see IGES 5.3 Section 4.24
+ */
+export function decodeType128(ctx: DecodeContext): NurbsSurfaceGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+
+  const K1 = paramInt(p, 0);
+  const K2 = paramInt(p, 1);
+  const M1 = paramInt(p, 2);
+  const M2 = paramInt(p, 3);
+  const knotCountU = K1 + M1 + 2;
+  const knotCountV = K2 + M2 + 2;
+  const pointCount = (K1 + 1) * (K2 + 1);
+  const knotStartU = 9;
+  const knotStartV = knotStartU + knotCountU;
+  const weightStart = knotStartV + knotCountV;
+  const controlStart = weightStart + pointCount;
+  const rangeStart = controlStart + 3 * pointCount;
+
+  if (K1 < M1 || K2 < M2 || p.length < rangeStart) {
+    report(ctx, "INVALID_PARAMETERS", `Type 128 DE ${entity.de.sequence}: insufficient parameters`);
+    return null;
+  }
+
+  const knotsU: number[] = [];
+  for (let i = 0; i < knotCountU; i++) knotsU.push(paramNumber(p, knotStartU + i));
+  const knotsV: number[] = [];
+  for (let i = 0; i < knotCountV; i++) knotsV.push(paramNumber(p, knotStartV + i));
+
+  const weights: number[][] = [];
+  const controlPoints: Vec3[][] = [];
+  for (let i = 0; i <= K1; i++) {
+    weights.push([]);
+    controlPoints.push([]);
+  }
+  for (let j = 0; j <= K2; j++) {
+    for (let i = 0; i <= K1; i++) {
+      const k = j * (K1 + 1) + i;
+      const base = controlStart + 3 * k;
+      weights[i]!.push(paramNumber(p, weightStart + k, 1));
+      controlPoints[i]!.push(
+        vec3(paramNumber(p, base), paramNumber(p, base + 1), paramNumber(p, base + 2))
+      );
+    }
+  }
+
+  return {
+    kind: "nurbsSurface",
+    ...baseGeometry(ctx),
+    degreeU: M1,
+    degreeV: M2,
+    knotsU,
+    knotsV,
+    weights,
+    controlPoints,
+    closedU: paramInt(p, 4) === 1,
+    closedV: paramInt(p, 5) === 1,
+    polynomial: paramInt(p, 6) === 1,
+    periodicU: paramInt(p, 7) === 1,
+    periodicV: paramInt(p, 8) === 1,
+    u0: paramNumber(p, rangeStart, knotsU[M1] ?? 0),
+    u1: paramNumber(p, rangeStart + 1, knotsU[K1 + 1] ?? 1),
+    v0: paramNumber(p, rangeStart + 2, knotsV[M2] ?? 0),
+    v1: paramNumber(p, rangeStart + 3, knotsV[K2 + 1] ?? 1),
+  };
+}
@@ -0,0 +1,68 @@
+import { baseGeometry, paramInt, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import type { CurveGeometry, CurveOnSurfaceGeometry, SurfaceGeometry } from "../../types.js";
+import { isCurveGeometry } from "../../math/curves.js";
+import { isSurfaceGeometry } from "../../math/surfaces.js";
+
+/**
+ * Curve on a Parametric Surface (Type 142).
+ * PD: CRTN, SPTR (surface), BPTR (curve in parameter space), CPTR (curve in model space), PREF.
+ * @see IGES 5.3 Section 4.34
+ */
+export function decodeType142(ctx: DecodeContext): CurveOnSurfaceGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+  const seq = entity.de.sequence;
+
+  const surfacePtr = paramInt(p, 1);
+  const surfaceEntity = surfacePtr > 0 ? ctx.decodeReference(surfacePtr) : null;
+  let surface: SurfaceGeometry | null = null;
+  if (surfaceEntity) {
+    if (isSurfaceGeometry(surfaceEntity)) {
+      surface = surfaceEntity;
+    } else {
+      report(
+        ctx,
+        "WRONG_REFERENCE_TYPE",
+        `Type 142 DE ${seq}: DE ${surfacePtr} is not a surface (${surfaceEntity.kind})`
+      );
+    }
+  }
+
+  const curveAt = (index: number): CurveGeometry | null => {
+    const pointer = paramInt(p, index);
+    if (pointer <= 0) return null;
+    const child = ctx.decodeReference(pointer);
+    if (!child) return null;
+    if (!isCurveGeometry(child)) {
+      report(
+        ctx,
+        "WRONG_REFERENCE_TYPE",
+        `Type 142 DE ${seq}: DE ${pointer} is not a curve (${child.kind})`
+      );
+      return null;
+    }
+    return child;
+  };
+  const parameterCurve = curveAt(2);
+  const modelCurve = curveAt(3);
+
+  if (!parameterCurve && !modelCurve) {
+    report(
+      ctx,
+      "INVALID_PARAMETERS",
+      `Type 142 DE ${seq}: neither a parameter-space nor a model-space curve`
+    );
+    return null;
+  }
+
+  return {
+    kind: "curveOnSurface",
+    ...baseGeometry(ctx),
+    creation: paramInt(p, 0),
+    preferred: paramInt(p, 4),
+    surface,
+    parameterCurve,
+    modelCurve,
+  };
+}
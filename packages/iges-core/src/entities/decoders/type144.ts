@@ -0,0 +1,73 @@
+import { baseGeometry, paramInt, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import type { CurveOnSurfaceGeometry, TrimmedSurfaceGeometry } from "../../types.js";
+import { isSurfaceGeometry } from "../../math/surfaces.js";
+
+/**
+ * Trimmed (Parametric) Surface (Type 144).
+ * PD: PTS, N1 (0 = outer boundary is the domain boundary), N2 (hole count), PTO, PTI(1…N2).
+ * Boundaries are Type 142 curves on `PTS`.
+ * @see IGES 5.3 Section 4.35
+ */
+export function decodeType144(ctx: DecodeContext): TrimmedSurfaceGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+  const seq = entity.de.sequence;
+
+  const surfacePtr = paramInt(p, 0);
+  const surface = surfacePtr > 0 ? ctx.decodeReference(surfacePtr) : null;
+  if (!surface) {
+    report(ctx, "MISSING_REFERENCE", `Type 144 DE ${seq}: missing base surface`);
+    return null;
+  }
+  if (!isSurfaceGeometry(surface)) {
+    report(
+      ctx,
+      "WRONG_REFERENCE_TYPE",
+      `Type 144 DE ${seq}: DE ${surfacePtr} is not a surface (${surface.kind})`
+    );
+    return null;
+  }
+
+  const boundaryAt = (index: number): CurveOnSurfaceGeometry | null => {
+    const pointer = paramInt(p, index);
+    if (pointer <= 0) return null;
+    const child = ctx.decodeReference(pointer);
+    if (!child) return null;
+    if (child.kind !== "curveOnSurface") {
+      report(
+        ctx,
+        "WRONG_REFERENCE_TYPE",
+        `Type 144 DE ${seq}: boundary DE ${pointer} is not a Type 142 curve`
+      );
+      return null;
+    }
+    return child;
+  };
+
+  const n1 = paramInt(p, 1);
+  const n2 = paramInt(p, 2);
+  const outer = n1 === 0 ? null : boundaryAt(3);
+  if (n1 !== 0 && !outer) {
+    report(
+      ctx,
+      "MISSING_REFERENCE",
+      `Type 144 DE ${seq}: outer boundary unavailable, using the surface domain`,
+      "info"
+    );
+  }
+
+  const inner: CurveOnSurfaceGeometry[] = [];
+  for (let i = 0; i < n2; i++) {
+    const hole = boundaryAt(4 + i);
+    if (hole) inner.push(hole);
+  }
+
+  return {
+    kind: "trimmedSurface",
+    ...baseGeometry(ctx),
+    surface,
+    outer,
+    inner,
+  };
+}
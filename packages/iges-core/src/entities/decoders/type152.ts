@@ -0,0 +1,44 @@
+import { baseGeometry, paramNumber, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import { decodeInlinePlacement } from "../placement.js";
+import type { WedgeSolidGeometry } from "../../types.js";
+import { vec3 } from "../../math/vec3.js";
+
+/**
+ * Right Angular Wedge (Type 152).
+ * PD: LX, LY, LZ, LTX (X length at y = LY), X1, Y1, Z1 (corner), I1, J1, K1 (local X),
+ * I2, J2, K2 (local Z).
+ */
+export function decodeType152(ctx: DecodeContext): WedgeSolidGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+  const seq = entity.de.sequence;
+  const size = vec3(paramNumber(p, 0), paramNumber(p, 1), paramNumber(p, 2));
+  const topLength = paramNumber(p, 3);
+  if (!(size.x > 0 && size.y > 0 && size.z > 0)) {
+    report(
+      ctx,
+      "INVALID_GEOMETRY",
+      `Type 152 DE ${seq}: LX, LY, LZ must be positive (got ${size.x}, ${size.y}, ${size.z})`
+    );
+    return null;
+  }
+  if (!(topLength >= 0 && topLength <= size.x)) {
+    report(
+      ctx,
+      "INVALID_GEOMETRY",
+      `Type 152 DE ${seq}: LTX must lie in [0, LX] (got ${topLength})`
+    );
+    return null;
+  }
+  const placement = decodeInlinePlacement(ctx, { location: 4, axis: 10, refDirection: 7 });
+  if (!placement) return null;
+
+  return {
+    kind: "wedgeSolid",
+    ...baseGeometry(ctx),
+    ...placement,
+    size,
+    topLength,
+  };
+}
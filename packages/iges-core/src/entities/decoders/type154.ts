@@ -0,0 +1,32 @@
+import { baseGeometry, paramNumber, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import { decodeInlinePlacement } from "../placement.js";
+import type { CylinderSolidGeometry } from "../../types.js";
+
+/**
+ * Right Circular Cylinder (Type 154).
+ * PD: H, R, X1, Y1, Z1 (centre of the first face), I1, J1, K1 (axis).
+ */
+export function decodeType154(ctx: DecodeContext): CylinderSolidGeometry | null {
+  const { entity } = ctx;
+  const height = paramNumber(entity.params, 0);
+  const radius = paramNumber(entity.params, 1);
+  if (!(height > 0 && radius > 0)) {
+    report(
+      ctx,
+      "INVALID_GEOMETRY",
+      `Type 154 DE ${entity.de.sequence}: H and R must be positive (got ${height}, ${radius})`
+    );
+    return null;
+  }
+  const placement = decodeInlinePlacement(ctx, { location: 2, axis: 5, refDirection: null });
+  if (!placement) return null;
+
+  return {
+    kind: "cylinderSolid",
+    ...baseGeometry(ctx),
+    ...placement,
+    height,
+    radius,
+  };
+}
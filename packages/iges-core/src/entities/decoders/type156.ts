@@ -0,0 +1,45 @@
+import { baseGeometry, paramNumber, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import { decodeInlinePlacement } from "../placement.js";
+import type { ConeSolidGeometry } from "../../types.js";
+
+/**
+ * Right Circular Cone Frustum (Type 156).
+ * PD: H, R1 (larger face), R2 (smaller face), X1, Y1, Z1 (centre of the larger face),
+ * I1, J1, K1 (axis, towards the smaller face).
+ */
+export function decodeType156(ctx: DecodeContext): ConeSolidGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+  const seq = entity.de.sequence;
+  const height = paramNumber(p, 0);
+  const radius = paramNumber(p, 1);
+  const topRadius = paramNumber(p, 2);
+  if (!(height > 0 && radius > 0)) {
+    report(
+      ctx,
+      "INVALID_GEOMETRY",
+      `Type 156 DE ${seq}: H and R1 must be positive (got ${height}, ${radius})`
+    );
+    return null;
+  }
+  if (!(topRadius >= 0 && topRadius < radius)) {
+    report(
+      ctx,
+      "INVALID_GEOMETRY",
+      `Type 156 DE ${seq}: R2 must lie in [0, R1) (got ${topRadius})`
+    );
+    return null;
+  }
+  const placement = decodeInlinePlacement(ctx, { location: 3, axis: 6, refDirection: null });
+  if (!placement) return null;
+
+  return {
+    kind: "coneSolid",
+    ...baseGeometry(ctx),
+    ...placement,
+    height,
+    radius,
+    topRadius,
+  };
+}
@@ -0,0 +1,30 @@
+import { baseGeometry, paramNumber, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import { decodeInlinePlacement } from "../placement.js";
+import type { SphereSolidGeometry } from "../../types.js";
+
+/**
+ * Sphere (Type 158).
+ * PD: R, X1, Y1, Z1 (centre).
+ */
+export function decodeType158(ctx: DecodeContext): SphereSolidGeometry | null {
+  const { entity } = ctx;
+  const radius = paramNumber(entity.params, 0);
+  if (!(radius > 0)) {
+    report(
+      ctx,
+      "INVALID_GEOMETRY",
+      `Type 158 DE ${entity.de.sequence}: R must be positive (got ${radius})`
+    );
+    return null;
+  }
+  const placement = decodeInlinePlacement(ctx, { location: 1, axis: null, refDirection: null });
+  if (!placement) return null;
+
+  return {
+    kind: "sphereSolid",
+    ...baseGeometry(ctx),
+    ...placement,
+    radius,
+  };
+}
@@ -0,0 +1,32 @@
+import { baseGeometry, paramNumber, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import { decodeInlinePlacement } from "../placement.js";
+import type { TorusSolidGeometry } from "../../types.js";
+
+/**
+ * Torus (Type 160).
+ * PD: R1 (axis to tube centre), R2 (tube radius), X1, Y1, Z1 (centre), I1, J1, K1 (axis).
+ */
+export function decodeType160(ctx: DecodeContext): TorusSolidGeometry | null {
+  const { entity } = ctx;
+  const majorRadius = paramNumber(entity.params, 0);
+  const minorRadius = paramNumber(entity.params, 1);
+  if (!(minorRadius > 0 && majorRadius > minorRadius)) {
+    report(
+      ctx,
+      "INVALID_GEOMETRY",
+      `Type 160 DE ${entity.de.sequence}: radii must satisfy R1 > R2 > 0 (got ${majorRadius}, ${minorRadius})`
+    );
+    return null;
+  }
+  const placement = decodeInlinePlacement(ctx, { location: 2, axis: 5, refDirection: null });
+  if (!placement) return null;
+
+  return {
+    kind: "torusSolid",
+    ...baseGeometry(ctx),
+    ...placement,
+    majorRadius,
+    minorRadius,
+  };
+}
@@ -0,0 +1,37 @@
+import { baseGeometry, paramInt, paramNumber, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import { curveReference } from "../curveRefs.js";
+import { decodeInlinePlacement } from "../placement.js";
+import type { RevolutionSolidGeometry } from "../../types.js";
+
+/**
+ * Solid of Revolution (Type 162).
+ * PD: C (planar curve), F (fraction of a turn, default 1), X1, Y1, Z1 (point on the axis),
+ * I1, J1, K1 (axis). Form 0 closes the curve to the axis; form 1 requires a closed curve.
+ */
+export function decodeType162(ctx: DecodeContext): RevolutionSolidGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+  const fraction = paramNumber(p, 1, 1);
+  if (!(fraction > 0 && fraction <= 1)) {
+    report(
+      ctx,
+      "INVALID_GEOMETRY",
+      `Type 162 DE ${entity.de.sequence}: F must lie in (0, 1] (got ${fraction})`
+    );
+    return null;
+  }
+  const curve = curveReference(ctx, paramInt(p, 0), "curve");
+  const placement = decodeInlinePlacement(ctx, { location: 2, axis: 5, refDirection: null });
+  if (!curve || !placement) return null;
+
+  return {
+    kind: "revolutionSolid",
+    ...baseGeometry(ctx),
+    curve,
+    closedToAxis: entity.form !== 1,
+    fraction,
+    location: placement.location,
+    axis: placement.axis,
+  };
+}
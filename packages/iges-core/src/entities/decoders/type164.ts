@@ -0,0 +1,37 @@
+import { baseGeometry, paramInt, paramNumber, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import { curveReference } from "../curveRefs.js";
+import type { ExtrusionSolidGeometry } from "../../types.js";
+import { dot, normalize, vec3 } from "../../math/vec3.js";
+
+/**
+ * Solid of Linear Extrusion (Type 164).
+ * PD: C (closed planar curve), L (length), I1, J1, K1 (direction, default +Z).
+ */
+export function decodeType164(ctx: DecodeContext): ExtrusionSolidGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+  const seq = entity.de.sequence;
+  const length = paramNumber(p, 1);
+  if (!(length > 0)) {
+    report(ctx, "INVALID_GEOMETRY", `Type 164 DE ${seq}: L must be positive (got ${length})`);
+    return null;
+  }
+  const direction = normalize(
+    vec3(paramNumber(p, 2, 0), paramNumber(p, 3, 0), paramNumber(p, 4, 1))
+  );
+  if (dot(direction, direction) === 0) {
+    report(ctx, "INVALID_GEOMETRY", `Type 164 DE ${seq}: extrusion direction is a zero vector`);
+    return null;
+  }
+  const curve = curveReference(ctx, paramInt(p, 0), "curve");
+  if (!curve) return null;
+
+  return {
+    kind: "extrusionSolid",
+    ...baseGeometry(ctx),
+    curve,
+    length,
+    direction,
+  };
+}
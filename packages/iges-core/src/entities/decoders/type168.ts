@@ -0,0 +1,32 @@
+import { baseGeometry, paramNumber, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import { decodeInlinePlacement } from "../placement.js";
+import type { EllipsoidSolidGeometry } from "../../types.js";
+import { vec3 } from "../../math/vec3.js";
+
+/**
+ * Ellipsoid (Type 168).
+ * PD: LX, LY, LZ (semi-axes), X1, Y1, Z1 (centre), I1, J1, K1 (local X), I2, J2, K2 (local Z).
+ */
+export function decodeType168(ctx: DecodeContext): EllipsoidSolidGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+  const size = vec3(paramNumber(p, 0), paramNumber(p, 1), paramNumber(p, 2));
+  if (!(size.x > 0 && size.y > 0 && size.z > 0)) {
+    report(
+      ctx,
+      "INVALID_GEOMETRY",
+      `Type 168 DE ${entity.de.sequence}: LX, LY, LZ must be positive (got ${size.x}, ${size.y}, ${size.z})`
+    );
+    return null;
+  }
+  const placement = decodeInlinePlacement(ctx, { location: 3, axis: 9, refDirection: 6 });
+  if (!placement) return null;
+
+  return {
+    kind: "ellipsoidSolid",
+    ...baseGeometry(ctx),
+    ...placement,
+    size,
+  };
+}
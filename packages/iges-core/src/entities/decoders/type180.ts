@@ -0,0 +1,95 @@
+import { baseGeometry, paramInt, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import type {
+  BooleanOperation,
+  BooleanTreeGeometry,
+  BooleanTreeOperand,
+  SolidGeometry,
+} from "../../types.js";
+import { isSolidGeometry } from "../../math/solids.js";
+
+const OPERATIONS: Record<number, BooleanOperation> = {
+  1: "union",
+  2: "intersection",
+  3: "difference",
+};
+
+/**
+ * Boolean Tree (Type 180).
+ * PD: N, then N post-order items — negated DE pointers to operands (Types 150–168, 180,
+ * 186, 430) and operators 1 (union), 2 (intersection), 3 (difference, first − second).
+ * Operands that cannot be decoded are kept as empty solids and reported as diagnostics.
+ */
+export function decodeType180(ctx: DecodeContext): BooleanTreeGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+  const seq = entity.de.sequence;
+
+  const count = paramInt(p, 0);
+  const stack: BooleanTreeOperand[] = [];
+  const unevaluatedOperands: number[] = [];
+  for (let i = 1; i <= count; i++) {
+    const item = paramInt(p, i);
+    if (item < 0) {
+      const pointer = -item;
+      const child = ctx.decodeReference(pointer);
+      let solid: SolidGeometry | null = null;
+      if (!child) {
+        report(
+          ctx,
+          "MISSING_REFERENCE",
+          `Type 180 DE ${seq}: operand DE ${pointer} could not be evaluated`
+        );
+      } else if (!isSolidGeometry(child)) {
+        report(
+          ctx,
+          "WRONG_REFERENCE_TYPE",
+          `Type 180 DE ${seq}: operand DE ${pointer} is not a solid (${child.kind})`
+        );
+      } else {
+        solid = child;
+      }
+      if (!solid) unevaluatedOperands.push(pointer);
+      stack.push({ deSequence: pointer, solid });
+      continue;
+    }
+
+    const operation = OPERATIONS[item];
+    if (!operation) {
+      report(
+        ctx,
+        "INVALID_PARAMETERS",
+        `Type 180 DE ${seq}: item ${i} is not an operator or operand (${item})`
+      );
+      return null;
+    }
+    const right = stack.pop();
+    const left = stack.pop();
+    if (!left || !right) {
+      report(
+        ctx,
+        "INVALID_PARAMETERS",
+        `Type 180 DE ${seq}: ${operation} at item ${i} has fewer than two operands`
+      );
+      return null;
+    }
+    stack.push({ operation, left, right });
+  }
+
+  const root = stack[0];
+  if (stack.length !== 1 || !root || !("operation" in root)) {
+    report(
+      ctx,
+      "INVALID_PARAMETERS",
+      `Type 180 DE ${seq}: post-order list does not reduce to a single operation`
+    );
+    return null;
+  }
+
+  return {
+    kind: "booleanTree",
+    ...baseGeometry(ctx),
+    root,
+    unevaluatedOperands,
+  };
+}
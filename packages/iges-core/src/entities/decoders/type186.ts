@@ -0,0 +1,32 @@
+import { baseGeometry, paramInt } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import { referenceOfKind } from "../brepRefs.js";
+import type { BrepShellGeometry, BrepSolidGeometry } from "../../types.js";
+
+/**
+ * Manifold Solid B-Rep Object (Type 186).
+ * PD: SHELL, SOF, N (void count), then VOID, VOF per void shell.
+ * @see IGES 5.3 Section 4.46
+ */
+export function decodeType186(ctx: DecodeContext): BrepSolidGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+
+  const shell = referenceOfKind(ctx, paramInt(p, 0), "brepShell", "shell");
+  if (!shell) return null;
+
+  const voids: { shell: BrepShellGeometry; sameSense: boolean }[] = [];
+  const n = paramInt(p, 2);
+  for (let i = 0; i < n; i++) {
+    const voidShell = referenceOfKind(ctx, paramInt(p, 3 + 2 * i), "brepShell", "void shell");
+    if (voidShell) voids.push({ shell: voidShell, sameSense: paramInt(p, 4 + 2 * i, 1) === 1 });
+  }
+
+  return {
+    kind: "brepSolid",
+    ...baseGeometry(ctx),
+    shell,
+    shellSameSense: paramInt(p, 1, 1) === 1,
+    voids,
+  };
+}
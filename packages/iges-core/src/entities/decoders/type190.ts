@@ -0,0 +1,25 @@
+import { baseGeometry } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import { decodePlacement } from "../placement.js";
+import type { PlaneSurfaceGeometry } from "../../types.js";
+
+/**
+ * Plane Surface (Type 190).
+ * PD: LOCATION (116), NORMAL (123); form 1 adds REFDIR (123).
+ * @see IGES 5.3 Section 4.81
+ */
+export function decodeType190(ctx: DecodeContext): PlaneSurfaceGeometry | null {
+  const { entity } = ctx;
+  const placement = decodePlacement(ctx, {
+    location: 0,
+    axis: 1,
+    refDirection: entity.form === 1 ? 2 : null,
+  });
+  if (!placement) return null;
+
+  return {
+    kind: "planeSurface",
+    ...baseGeometry(ctx),
+    ...placement,
+  };
+}
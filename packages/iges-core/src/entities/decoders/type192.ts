@@ -0,0 +1,35 @@
+import { baseGeometry, paramNumber, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import { decodePlacement } from "../placement.js";
+import type { CylindricalSurfaceGeometry } from "../../types.js";
+
+/**
+ * Right Circular Cylindrical Surface (Type 192).
+ * PD: LOCATION (116), AXIS (123), RADIUS; form 1 adds REFDIR (123).
+ * @see IGES 5.3 Section 4.82
+ */
+export function decodeType192(ctx: DecodeContext): CylindricalSurfaceGeometry | null {
+  const { entity } = ctx;
+  const radius = paramNumber(entity.params, 2);
+  if (!(radius > 0)) {
+    report(
+      ctx,
+      "INVALID_GEOMETRY",
+      `Type 192 DE ${entity.de.sequence}: radius must be positive (got ${radius})`
+    );
+    return null;
+  }
+  const placement = decodePlacement(ctx, {
+    location: 0,
+    axis: 1,
+    refDirection: entity.form === 1 ? 3 : null,
+  });
+  if (!placement) return null;
+
+  return {
+    kind: "cylindricalSurface",
+    ...baseGeometry(ctx),
+    ...placement,
+    radius,
+  };
+}
@@ -0,0 +1,37 @@
+import { baseGeometry, paramNumber, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import { decodePlacement } from "../placement.js";
+import type { ConicalSurfaceGeometry } from "../../types.js";
+
+/**
+ * Right Circular Conical Surface (Type 194).
+ * PD: LOCATION (116), AXIS (123), RADIUS, SANGLE (degrees); form 1 adds REFDIR (123).
+ * @see IGES 5.3 Section 4.83
+ */
+export function decodeType194(ctx: DecodeContext): ConicalSurfaceGeometry | null {
+  const { entity } = ctx;
+  const radius = paramNumber(entity.params, 2);
+  const semiAngle = paramNumber(entity.params, 3);
+  if (radius < 0 || !(semiAngle > 0 && semiAngle < 90)) {
+    report(
+      ctx,
+      "INVALID_GEOMETRY",
+      `Type 194 DE ${entity.de.sequence}: invalid radius ${radius} or semi-angle ${semiAngle}`
+    );
+    return null;
+  }
+  const placement = decodePlacement(ctx, {
+    location: 0,
+    axis: 1,
+    refDirection: entity.form === 1 ? 4 : null,
+  });
+  if (!placement) return null;
+
+  return {
+    kind: "conicalSurface",
+    ...baseGeometry(ctx),
+    ...placement,
+    radius,
+    semiAngle,
+  };
+}
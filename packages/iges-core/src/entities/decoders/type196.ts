@@ -0,0 +1,36 @@
+import { baseGeometry, paramNumber, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import { decodePlacement } from "../placement.js";
+import type { SphericalSurfaceGeometry } from "../../types.js";
+
+/**
+ * Spherical Surface (Type 196).
+ * PD: LOCATION (116), RADIUS; form 1 adds AXIS and REFDIR (123).
+ * @see IGES 5.3 Section 4.84
+ */
+export function decodeType196(ctx: DecodeContext): SphericalSurfaceGeometry | null {
+  const { entity } = ctx;
+  const radius = paramNumber(entity.params, 1);
+  if (!(radius > 0)) {
+    report(
+      ctx,
+      "INVALID_GEOMETRY",
+      `Type 196 DE ${entity.de.sequence}: radius must be positive (got ${radius})`
+    );
+    return null;
+  }
+  const parameterized = entity.form === 1;
+  const placement = decodePlacement(ctx, {
+    location: 0,
+    axis: parameterized ? 2 : null,
+    refDirection: parameterized ? 3 : null,
+  });
+  if (!placement) return null;
+
+  return {
+    kind: "sphericalSurface",
+    ...baseGeometry(ctx),
+    ...placement,
+    radius,
+  };
+}
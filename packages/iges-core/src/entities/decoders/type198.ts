@@ -0,0 +1,37 @@
+import { baseGeometry, paramNumber, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import { decodePlacement } from "../placement.js";
+import type { ToroidalSurfaceGeometry } from "../../types.js";
+
+/**
+ * Toroidal Surface (Type 198).
+ * PD: LOCATION (116), AXIS (123), MAJRAD, MINRAD; form 1 adds REFDIR (123).
+ * @see IGES 5.3 Section 4.85
+ */
+export function decodeType198(ctx: DecodeContext): ToroidalSurfaceGeometry | null {
+  const { entity } = ctx;
+  const majorRadius = paramNumber(entity.params, 2);
+  const minorRadius = paramNumber(entity.params, 3);
+  if (!(minorRadius > 0 && majorRadius > minorRadius)) {
+    report(
+      ctx,
+      "INVALID_GEOMETRY",
+      `Type 198 DE ${entity.de.sequence}: radii must satisfy MAJRAD > MINRAD > 0 (got ${majorRadius}, ${minorRadius})`
+    );
+    return null;
+  }
+  const placement = decodePlacement(ctx, {
+    location: 0,
+    axis: 1,
+    refDirection: entity.form === 1 ? 4 : null,
+  });
+  if (!placement) return null;
+
+  return {
+    kind: "toroidalSurface",
+    ...baseGeometry(ctx),
+    ...placement,
+    majorRadius,
+    minorRadius,
+  };
+}
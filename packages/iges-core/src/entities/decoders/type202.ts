@@ -0,0 +1,43 @@
+import { paramInt, paramNumber } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import type { DimensionGeometry } from "../../types.js";
+import {
+  dimensionGeometry,
+  leaderReference,
+  noteReference,
+  witnessReference,
+} from "../annotationRefs.js";
+import { cross, dot, subtract, vec3 } from "../../math/vec3.js";
+
+/**
+ * Angular Dimension (Type 202).
+ * PD: DENOTE, DEWIT1, DEWIT2, XT, YT (vertex), R (leader arc radius), DELDR1, DELDR2.
+ * The leaders' first segments are arcs of radius R about the vertex.
+ */
+export function decodeType202(ctx: DecodeContext): DimensionGeometry {
+  const p = ctx.entity.params;
+  const note = noteReference(ctx, paramInt(p, 0));
+  const first = leaderReference(ctx, paramInt(p, 6), "first leader");
+  const second = leaderReference(ctx, paramInt(p, 7), "second leader");
+  const vertex = vec3(paramNumber(p, 3), paramNumber(p, 4), first?.tip.z ?? 0);
+
+  let value: number | null = null;
+  if (first && second) {
+    const a = subtract(first.tip, vertex);
+    const b = subtract(second.tip, vertex);
+    const n = cross(a, b);
+    value = Math.atan2(Math.hypot(n.x, n.y, n.z), dot(a, b));
+  }
+
+  return dimensionGeometry(ctx, "angular", {
+    note,
+    leaders: [first, second],
+    witnessLines: [
+      witnessReference(ctx, paramInt(p, 1), "first witness line"),
+      witnessReference(ctx, paramInt(p, 2), "second witness line"),
+    ],
+    value,
+    center: vertex,
+    arcRadius: paramNumber(p, 5),
+  });
+}
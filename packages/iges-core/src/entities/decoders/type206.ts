@@ -0,0 +1,23 @@
+import { paramInt, paramNumber } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import type { DimensionGeometry } from "../../types.js";
+import { dimensionGeometry, leaderReference, noteReference } from "../annotationRefs.js";
+import { distance3D, vec3 } from "../../math/vec3.js";
+
+/**
+ * Diameter Dimension (Type 206).
+ * PD: DENOTE, DELDR1, DELDR2 (0 for a single leader), XT, YT (arc centre).
+ */
+export function decodeType206(ctx: DecodeContext): DimensionGeometry {
+  const p = ctx.entity.params;
+  const note = noteReference(ctx, paramInt(p, 0));
+  const first = leaderReference(ctx, paramInt(p, 1), "first leader");
+  const second = leaderReference(ctx, paramInt(p, 2), "second leader", false);
+  const center = vec3(paramNumber(p, 3), paramNumber(p, 4), first?.tip.z ?? 0);
+
+  let value: number | null = null;
+  if (first && second) value = distance3D(first.tip, second.tip);
+  else if (first) value = 2 * distance3D(first.tip, center);
+
+  return dimensionGeometry(ctx, "diameter", { note, leaders: [first, second], value, center });
+}
@@ -0,0 +1,57 @@
+import { baseGeometry, paramInt, paramNumber, paramString, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import type { NoteGeometry, NoteText } from "../../types.js";
+import { vec3 } from "../../math/vec3.js";
+
+/** Fields per text string: NC, WT, HT, FC, SL, A, M, VH, XS, YS, ZS, TEXT. */
+const STRING_FIELDS = 12;
+
+/**
+ * General Note (Type 212).
+ * PD: NS, then per string NC, WT, HT, FC, SL, A, M, VH, XS, YS, ZS, TEXT.
+ */
+export function decodeType212(ctx: DecodeContext): NoteGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+  const seq = entity.de.sequence;
+
+  const count = paramInt(p, 0);
+  if (count < 0 || p.length < 1 + STRING_FIELDS * count) {
+    report(ctx, "INVALID_PARAMETERS", `Type 212 DE ${seq}: expected ${count} text strings`);
+    return null;
+  }
+
+  const strings: NoteText[] = [];
+  for (let i = 0; i < count; i++) {
+    const base = 1 + STRING_FIELDS * i;
+    const rotation = paramNumber(p, base + 5);
+    const text = paramString(p, base + 11);
+    const length = paramInt(p, base);
+    if (length !== text.length) {
+      report(
+        ctx,
+        "INVALID_PARAMETERS",
+        `Type 212 DE ${seq}: string ${i + 1} has ${text.length} characters, NC says ${length}`
+      );
+    }
+    strings.push({
+      text,
+      boxWidth: paramNumber(p, base + 1),
+      boxHeight: paramNumber(p, base + 2),
+      fontCode: paramInt(p, base + 3, 1),
+      slantAngle: paramNumber(p, base + 4, Math.PI / 2),
+      rotation,
+      mirror: paramInt(p, base + 6),
+      vertical: paramInt(p, base + 7) === 1,
+      start: vec3(paramNumber(p, base + 8), paramNumber(p, base + 9), paramNumber(p, base + 10)),
+      xAxis: vec3(Math.cos(rotation), Math.sin(rotation), 0),
+      yAxis: vec3(-Math.sin(rotation), Math.cos(rotation), 0),
+    });
+  }
+
+  return {
+    kind: "note",
+    ...baseGeometry(ctx),
+    strings,
+  };
+}
@@ -0,0 +1,61 @@
+import { baseGeometry, paramInt, paramNumber, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import type { ArrowheadShape, LeaderGeometry, Vec3 } from "../../types.js";
+import { vec3 } from "../../math/vec3.js";
+
+const ARROWHEADS: ArrowheadShape[] = [
+  "wedge",
+  "triangle",
+  "filledTriangle",
+  "none",
+  "circle",
+  "filledCircle",
+  "rectangle",
+  "filledRectangle",
+  "slash",
+  "integralSign",
+  "openTriangle",
+  "dimensionOrigin",
+];
+
+/**
+ * Leader (Arrow) (Type 214), forms 1–12 select the arrowhead.
+ * PD: N, AH, AW, ZT, XH, YH, then N segment tail points X, Y (all at depth ZT).
+ */
+export function decodeType214(ctx: DecodeContext): LeaderGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+  const seq = entity.de.sequence;
+
+  const n = paramInt(p, 0);
+  if (n < 1 || p.length < 6 + 2 * n) {
+    report(ctx, "INVALID_PARAMETERS", `Type 214 DE ${seq}: expected ${n} leader segments`);
+    return null;
+  }
+  const arrowhead = ARROWHEADS[entity.form - 1];
+  if (!arrowhead) {
+    report(
+      ctx,
+      "UNSUPPORTED_FORM",
+      `Type 214 DE ${seq}: unknown arrowhead form ${entity.form}, drawn as a wedge`,
+      "info"
+    );
+  }
+
+  const zt = paramNumber(p, 3);
+  const points: Vec3[] = [];
+  for (let i = 0; i < n; i++) {
+    points.push(vec3(paramNumber(p, 6 + 2 * i), paramNumber(p, 7 + 2 * i), zt));
+  }
+
+  return {
+    kind: "leader",
+    ...baseGeometry(ctx),
+    arrowhead: arrowhead ?? "wedge",
+    arrowHeight: paramNumber(p, 1),
+    arrowWidth: paramNumber(p, 2),
+    tip: vec3(paramNumber(p, 4), paramNumber(p, 5), zt),
+    points,
+    normal: vec3(0, 0, 1),
+  };
+}
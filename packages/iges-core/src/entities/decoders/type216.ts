@@ -0,0 +1,31 @@
+import { paramInt } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import type { DimensionGeometry } from "../../types.js";
+import {
+  dimensionGeometry,
+  leaderReference,
+  noteReference,
+  witnessReference,
+} from "../annotationRefs.js";
+import { distance3D } from "../../math/vec3.js";
+
+/**
+ * Linear Dimension (Type 216), forms 0 (undetermined), 1 (diameter), 2 (radius).
+ * PD: DENOTE, DELDR1, DELDR2, DEWIT1, DEWIT2.
+ */
+export function decodeType216(ctx: DecodeContext): DimensionGeometry {
+  const p = ctx.entity.params;
+  const note = noteReference(ctx, paramInt(p, 0));
+  const first = leaderReference(ctx, paramInt(p, 1), "first leader");
+  const second = leaderReference(ctx, paramInt(p, 2), "second leader");
+
+  return dimensionGeometry(ctx, "linear", {
+    note,
+    leaders: [first, second],
+    witnessLines: [
+      witnessReference(ctx, paramInt(p, 3), "first witness line"),
+      witnessReference(ctx, paramInt(p, 4), "second witness line"),
+    ],
+    value: first && second ? distance3D(first.tip, second.tip) : null,
+  });
+}
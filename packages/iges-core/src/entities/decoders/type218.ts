@@ -0,0 +1,31 @@
+import { paramInt, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import type { DimensionGeometry, LeaderGeometry, PolylineGeometry } from "../../types.js";
+import { dimensionGeometry, leaderReference, noteReference } from "../annotationRefs.js";
+
+/**
+ * Ordinate Dimension (Type 218).
+ * PD: DENOTE, DEWIT (witness line or leader); form 1 adds DELDR.
+ */
+export function decodeType218(ctx: DecodeContext): DimensionGeometry {
+  const { entity } = ctx;
+  const p = entity.params;
+  const note = noteReference(ctx, paramInt(p, 0));
+
+  const leaders: Array<LeaderGeometry | null> = [];
+  const witnessLines: PolylineGeometry[] = [];
+  const pointer = paramInt(p, 1);
+  const line = pointer > 0 ? ctx.decodeReference(pointer) : null;
+  if (line?.kind === "polyline") witnessLines.push(line);
+  else if (line?.kind === "leader") leaders.push(line);
+  else {
+    report(
+      ctx,
+      "WRONG_REFERENCE_TYPE",
+      `Type 218 DE ${entity.de.sequence}: DE ${pointer} is not a witness line or leader`
+    );
+  }
+  if (entity.form === 1) leaders.push(leaderReference(ctx, paramInt(p, 2)));
+
+  return dimensionGeometry(ctx, "ordinate", { note, leaders, witnessLines });
+}
@@ -0,0 +1,22 @@
+import { paramInt } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import type { DimensionGeometry } from "../../types.js";
+import {
+  dimensionGeometry,
+  leaderReference,
+  noteReference,
+  outlineReference,
+} from "../annotationRefs.js";
+
+/**
+ * Point Dimension (Type 220).
+ * PD: DENOTE, DELDR, DEGEOM (circle or composite curve around the note, or 0).
+ */
+export function decodeType220(ctx: DecodeContext): DimensionGeometry {
+  const p = ctx.entity.params;
+  return dimensionGeometry(ctx, "point", {
+    note: noteReference(ctx, paramInt(p, 0)),
+    leaders: [leaderReference(ctx, paramInt(p, 1))],
+    outline: outlineReference(ctx, paramInt(p, 2)),
+  });
+}
@@ -0,0 +1,25 @@
+import { paramInt, paramNumber } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import type { DimensionGeometry } from "../../types.js";
+import { dimensionGeometry, leaderReference, noteReference } from "../annotationRefs.js";
+import { distance3D, vec3 } from "../../math/vec3.js";
+
+/**
+ * Radius Dimension (Type 222).
+ * PD: DENOTE, DELDR, XT, YT (arc centre); form 1 adds DELDR2.
+ */
+export function decodeType222(ctx: DecodeContext): DimensionGeometry {
+  const { entity } = ctx;
+  const p = entity.params;
+  const note = noteReference(ctx, paramInt(p, 0));
+  const leader = leaderReference(ctx, paramInt(p, 1));
+  const second = entity.form === 1 ? leaderReference(ctx, paramInt(p, 4), "second leader") : null;
+  const center = vec3(paramNumber(p, 2), paramNumber(p, 3), leader?.tip.z ?? 0);
+
+  return dimensionGeometry(ctx, "radius", {
+    note,
+    leaders: [leader, second],
+    value: leader ? distance3D(leader.tip, center) : null,
+    center,
+  });
+}
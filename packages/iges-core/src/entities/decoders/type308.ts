@@ -0,0 +1,34 @@
+import { baseGeometry, paramInt, paramString, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import type { GeometryEntity, SubfigureDefinitionGeometry } from "../../types.js";
+
+/**
+ * Subfigure Definition (Type 308).
+ * PD: DEPTH, NAME, N, then N member DE pointers (which may be Type 408 instances of
+ * shallower definitions). Members that cannot be decoded are left out.
+ */
+export function decodeType308(ctx: DecodeContext): SubfigureDefinitionGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+  const seq = entity.de.sequence;
+
+  const count = paramInt(p, 2);
+  if (count < 0 || p.length < 3 + count) {
+    report(ctx, "INVALID_PARAMETERS", `Type 308 DE ${seq}: expected ${count} member pointers`);
+    return null;
+  }
+
+  const members: GeometryEntity[] = [];
+  for (let i = 0; i < count; i++) {
+    const member = ctx.decodeReference(paramInt(p, 3 + i));
+    if (member) members.push(member);
+  }
+
+  return {
+    kind: "subfigureDefinition",
+    ...baseGeometry(ctx),
+    depth: paramInt(p, 0),
+    name: paramString(p, 1),
+    members,
+  };
+}
@@ -0,0 +1,48 @@
+import { baseGeometry, paramInt, paramNumber, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import type { SubfigureInstanceGeometry } from "../../types.js";
+import { vec3 } from "../../math/vec3.js";
+
+/**
+ * Singular Subfigure Instance (Type 408).
+ * PD: DE (Type 308 definition), X, Y, Z (translation), S (scale, default 1).
+ */
+export function decodeType408(ctx: DecodeContext): SubfigureInstanceGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+  const seq = entity.de.sequence;
+
+  const pointer = paramInt(p, 0);
+  const definition = pointer > 0 ? ctx.decodeReference(pointer) : null;
+  if (!definition) {
+    report(
+      ctx,
+      "MISSING_REFERENCE",
+      `Type 408 DE ${seq}: subfigure DE ${pointer} could not be evaluated`
+    );
+    return null;
+  }
+  if (definition.kind !== "subfigureDefinition") {
+    report(
+      ctx,
+      "WRONG_REFERENCE_TYPE",
+      `Type 408 DE ${seq}: DE ${pointer} is not a subfigure definition`
+    );
+    return null;
+  }
+  const translation = vec3(paramNumber(p, 1), paramNumber(p, 2), paramNumber(p, 3));
+  const scale = paramNumber(p, 4, 1);
+  if (scale === 0) {
+    report(ctx, "INVALID_GEOMETRY", `Type 408 DE ${seq}: scale must be non-zero`);
+    return null;
+  }
+
+  return {
+    kind: "subfigureInstance",
+    ...baseGeometry(ctx),
+    definition,
+    translation,
+    scale,
+    placement: { matrix: [scale, 0, 0, 0, scale, 0, 0, 0, scale], translation },
+  };
+}
@@ -0,0 +1,37 @@
+import { baseGeometry, paramInt, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import type { SolidInstanceGeometry } from "../../types.js";
+import { isSolidGeometry } from "../../math/solids.js";
+
+/**
+ * Solid Instance (Type 430).
+ * PD: PTR (solid: Types 150–168, 180, 186 or 430). This entity's transform places it.
+ */
+export function decodeType430(ctx: DecodeContext): SolidInstanceGeometry | null {
+  const { entity } = ctx;
+  const seq = entity.de.sequence;
+  const pointer = paramInt(entity.params, 0);
+  const solid = pointer > 0 ? ctx.decodeReference(pointer) : null;
+  if (!solid) {
+    report(
+      ctx,
+      "MISSING_REFERENCE",
+      `Type 430 DE ${seq}: solid DE ${pointer} could not be evaluated`
+    );
+    return null;
+  }
+  if (!isSolidGeometry(solid)) {
+    report(
+      ctx,
+      "WRONG_REFERENCE_TYPE",
+      `Type 430 DE ${seq}: DE ${pointer} is not a solid (${solid.kind})`
+    );
+    return null;
+  }
+
+  return {
+    kind: "solidInstance",
+    ...baseGeometry(ctx),
+    solid,
+  };
+}
@@ -0,0 +1,32 @@
+import { baseGeometry, paramInt, paramNumber, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import type { Vec3, VertexListGeometry } from "../../types.js";
+import { vec3 } from "../../math/vec3.js";
+
+/**
+ * Vertex List (Type 502, form 1).
+ * PD: N, then X, Y, Z for each vertex.
+ * @see IGES 5.3 Section 4.147
+ */
+export function decodeType502(ctx: DecodeContext): VertexListGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+  const n = paramInt(p, 0);
+
+  if (n < 0 || p.length < 1 + 3 * n) {
+    report(ctx, "INVALID_PARAMETERS", `Type 502 DE ${entity.de.sequence}: insufficient parameters`);
+    return null;
+  }
+
+  const vertices: Vec3[] = [];
+  for (let i = 0; i < n; i++) {
+    const base = 1 + 3 * i;
+    vertices.push(vec3(paramNumber(p, base), paramNumber(p, base + 1), paramNumber(p, base + 2)));
+  }
+
+  return {
+    kind: "vertexList",
+    ...baseGeometry(ctx),
+    vertices,
+  };
+}
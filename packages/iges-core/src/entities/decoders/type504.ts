@@ -0,0 +1,52 @@
+import { baseGeometry, paramInt, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import { vertexAt } from "../brepRefs.js";
+import type { BrepEdge, CurveGeometry, EdgeListGeometry } from "../../types.js";
+import { isCurveGeometry } from "../../math/curves.js";
+
+/**
+ * Edge List (Type 504, form 1).
+ * PD: N, then per edge CURV (model-space curve), SVP, SV (start vertex list + index),
+ * TVP, TV (terminate vertex list + index).
+ * @see IGES 5.3 Section 4.148
+ */
+export function decodeType504(ctx: DecodeContext): EdgeListGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+  const seq = entity.de.sequence;
+  const n = paramInt(p, 0);
+
+  if (n < 0 || p.length < 1 + 5 * n) {
+    report(ctx, "INVALID_PARAMETERS", `Type 504 DE ${seq}: insufficient parameters`);
+    return null;
+  }
+
+  const edges: BrepEdge[] = [];
+  for (let i = 0; i < n; i++) {
+    const base = 1 + 5 * i;
+    const start = vertexAt(ctx, paramInt(p, base + 1), paramInt(p, base + 2));
+    const end = vertexAt(ctx, paramInt(p, base + 3), paramInt(p, base + 4));
+    if (!start || !end) return null;
+
+    const curvePtr = paramInt(p, base);
+    const child = curvePtr > 0 ? ctx.decodeReference(curvePtr) : null;
+    let curve: CurveGeometry | null = null;
+    if (child && isCurveGeometry(child)) {
+      curve = child;
+    } else if (child) {
+      report(
+        ctx,
+        "WRONG_REFERENCE_TYPE",
+        `Type 504 DE ${seq}: edge ${i + 1} curve DE ${curvePtr} is not a curve`
+      );
+    }
+
+    edges.push({ key: `${seq}:${i + 1}`, curve, start, end });
+  }
+
+  return {
+    kind: "edgeList",
+    ...baseGeometry(ctx),
+    edges,
+  };
+}
@@ -0,0 +1,56 @@
+import { baseGeometry, paramInt, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import { edgeAt, vertexAt } from "../brepRefs.js";
+import type { BrepCoedge, BrepLoopGeometry, CurveGeometry } from "../../types.js";
+import { isCurveGeometry } from "../../math/curves.js";
+
+/**
+ * Loop (Type 508).
+ * PD: N, then per entry TYPE (0 edge, 1 vertex), EDGE (list DE), NDX, OF (orientation),
+ * K, and K pairs of ISOP, CURV (parameter-space curves).
+ * @see IGES 5.3 Section 4.149
+ */
+export function decodeType508(ctx: DecodeContext): BrepLoopGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+  const seq = entity.de.sequence;
+  const n = paramInt(p, 0);
+
+  const coedges: BrepCoedge[] = [];
+  let cursor = 1;
+  for (let i = 0; i < n; i++) {
+    if (p.length < cursor + 5) {
+      report(ctx, "INVALID_PARAMETERS", `Type 508 DE ${seq}: insufficient parameters`);
+      return null;
+    }
+    const type = paramInt(p, cursor);
+    const listPtr = paramInt(p, cursor + 1);
+    const index = paramInt(p, cursor + 2);
+    const sameSense = paramInt(p, cursor + 3, 1) === 1;
+    const k = paramInt(p, cursor + 4);
+    cursor += 5;
+
+    const parameterCurves: CurveGeometry[] = [];
+    for (let j = 0; j < k; j++) {
+      const curvePtr = paramInt(p, cursor + 2 * j + 1);
+      const child = curvePtr > 0 ? ctx.decodeReference(curvePtr) : null;
+      if (child && isCurveGeometry(child)) parameterCurves.push(child);
+    }
+    cursor += 2 * k;
+
+    if (type === 1) {
+      const vertex = vertexAt(ctx, listPtr, index);
+      if (vertex) coedges.push({ edge: null, vertex, sameSense, parameterCurves });
+    } else {
+      const edge = edgeAt(ctx, listPtr, index);
+      if (!edge) return null;
+      coedges.push({ edge, vertex: null, sameSense, parameterCurves });
+    }
+  }
+
+  return {
+    kind: "brepLoop",
+    ...baseGeometry(ctx),
+    coedges,
+  };
+}
@@ -0,0 +1,44 @@
+import { baseGeometry, paramInt, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import { referenceOfKind } from "../brepRefs.js";
+import type { BrepFaceGeometry, BrepLoopGeometry } from "../../types.js";
+import { isSurfaceGeometry } from "../../math/surfaces.js";
+
+/**
+ * Face (Type 510, form 1).
+ * PD: SURF, N (loop count), OF (1 = the first loop is the outer boundary), LOOP(1…N).
+ * @see IGES 5.3 Section 4.150
+ */
+export function decodeType510(ctx: DecodeContext): BrepFaceGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+  const seq = entity.de.sequence;
+
+  const surfacePtr = paramInt(p, 0);
+  const surface = surfacePtr > 0 ? ctx.decodeReference(surfacePtr) : null;
+  if (!surface || !isSurfaceGeometry(surface)) {
+    report(
+      ctx,
+      "WRONG_REFERENCE_TYPE",
+      `Type 510 DE ${seq}: DE ${surfacePtr} is not a supported surface`
+    );
+    return null;
+  }
+
+  const n = paramInt(p, 1);
+  const hasOuter = paramInt(p, 2) === 1;
+  const loops: BrepLoopGeometry[] = [];
+  for (let i = 0; i < n; i++) {
+    const loop = referenceOfKind(ctx, paramInt(p, 3 + i), "brepLoop", "loop");
+    if (!loop) return null;
+    loops.push(loop);
+  }
+
+  return {
+    kind: "brepFace",
+    ...baseGeometry(ctx),
+    surface,
+    outer: hasOuter ? (loops[0] ?? null) : null,
+    inner: hasOuter ? loops.slice(1) : loops,
+  };
+}
@@ -0,0 +1,35 @@
+import { baseGeometry, paramInt, report } from "../decodeContext.js";
+import type { DecodeContext } from "../decodeContext.js";
+import { referenceOfKind } from "../brepRefs.js";
+import type { BrepShellFace, BrepShellGeometry } from "../../types.js";
+
+/**
+ * Shell (Type 514; form 1 closed, form 2 open).
+ * PD: N, then FACE, OF (1 = face normal agrees with the surface normal) per face.
+ * Faces that fail to decode are dropped with a warning; the rest of the shell is kept.
+ * @see IGES 5.3 Section 4.151
+ */
+export function decodeType514(ctx: DecodeContext): BrepShellGeometry | null {
+  const { entity } = ctx;
+  const p = entity.params;
+  const seq = entity.de.sequence;
+  const n = paramInt(p, 0);
+
+  const faces: BrepShellFace[] = [];
+  for (let i = 0; i < n; i++) {
+    const face = referenceOfKind(ctx, paramInt(p, 1 + 2 * i), "brepFace", "face");
+    if (face) faces.push({ face, sameSense: paramInt(p, 2 + 2 * i, 1) === 1 });
+  }
+
+  if (faces.length === 0) {
+    report(ctx, "INVALID_GEOMETRY", `Type 514 DE ${seq}: no decodable faces`);
+    return null;
+  }
+
+  return {
+    kind: "brepShell",
+    ...baseGeometry(ctx),
+    faces,
+    closed: entity.form !== 2,
+  };
+}
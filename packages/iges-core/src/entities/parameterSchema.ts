@@ -0,0 +1,241 @@
+import { paramInt } from "./decodeContext.js";
+import { toPointer } from "../parse/paramTokenizer.js";
+import { parameterDiagnostic, reportViolation } from "../diagnostics.js";
+import type { Diagnostic, ParamValue, ParseMode, RawEntity } from "../types.js";
+
+/** How one parameter field is read. */
+export type ParameterKind = "int" | "real" | "string" | "pointer";
+
+/**
+ * Kinds of an entity's own parameters (before the trailing NV / NP groups); undefined for
+ * forms whose layout is not described and for records whose counts name more fields than
+ * they hold. Both are left untyped.
+ */
+export type ParameterSchema = (p: ParamValue[], form: number) => ParameterKind[] | undefined;
+
+const repeat = (kinds: ParameterKind[], times: number): ParameterKind[] =>
+  Array.from({ length: Math.max(0, times) }, () => kinds).flat();
+const reals = (count: number) => repeat(["real"], count);
+const ints = (count: number) => repeat(["int"], count);
+const pointers = (count: number) => repeat(["pointer"], count);
+const fixed =
+  (...kinds: ParameterKind[]): ParameterSchema =>
+  () =>
+    kinds;
+/** Thrown by `count()`; `bounded()` turns it into an untyped record. */
+class CountOverflow extends Error {}
+
+/**
+ * The count parameter at `index`. No count can exceed the fields the record holds, so a
+ * larger one (a corrupt `102,5000000000,…`, say) stops the schema before it builds a
+ * layout that size.
+ */
+const count = (p: ParamValue[], index: number): number => {
+  const n = paramInt(p, index);
+  if (n > p.length) throw new CountOverflow();
+  return Math.max(0, n);
+};
+/** Leave a record whose counts overflow it untyped. */
+const bounded =
+  (schema: ParameterSchema): ParameterSchema =>
+  (p, form) => {
+    try {
+      return schema(p, form);
+    } catch (e) {
+      if (e instanceof CountOverflow) return undefined;
+      throw e;
+    }
+  };
+/** A count field followed by that many groups of `kinds`. */
+const counted =
+  (...kinds: ParameterKind[]): ParameterSchema =>
+  (p) => ["int", ...repeat(kinds, count(p, 0))];
+
+/** Type 402 forms: groups (N, N members) and Views Visible (see `viewGeometry()`). */
+const ASSOCIATIVITY_FORMS: Record<number, ParameterSchema> = {
+  1: counted("pointer"),
+  3: (p) => [...ints(2), ...pointers(count(p, 0) + count(p, 1))],
+  4: (p) => [
+    ...ints(2),
+    ...repeat(["pointer", "int", "pointer", "int", "int"], count(p, 0)),
+    ...pointers(count(p, 1)),
+  ],
+  7: counted("pointer"),
+  14: counted("pointer"),
+  15: counted("pointer"),
+  19: counted("pointer", "real", "int", "int", "int", "int"),
+};
+
+/** Values of the decoded Type 406 forms (see `parseProperty406()`); others read as reals. */
+const PROPERTY_VALUES: Record<number, ParameterKind[]> = {
+  5: ["real", "int", "int", "int", "real"],
+  15: ["string"],
+  16: ["real", "real"],
+  17: ["int", "string"],
+};
+
+/** Parameter field kinds per entity type (IGES 5.3 §4). */
+export const PARAMETER_SCHEMAS = new Map<number, ParameterSchema>([
+  [100, fixed(...reals(7))],
+  [102, counted("pointer")],
+  [104, fixed(...reals(11))],
+  [
+    106,
+    (p) => {
+      const ip = paramInt(p, 0);
+      const n = count(p, 1);
+      return [...ints(2), ...reals(ip === 1 ? 1 + 2 * n : ip === 2 ? 3 * n : 6 * n)];
+    },
+  ],
+  [108, fixed(...reals(4), "pointer", ...reals(4))],
+  [110, fixed(...reals(6))],
+  [112, (p) => [...ints(4), ...reals(count(p, 3) + 1 + 12 * count(p, 3) + 12)]],
+  [116, fixed(...reals(3), "pointer")],
+  [118, fixed("pointer", "pointer", "int", "int")],
+  [120, fixed("pointer", "pointer", "real", "real")],
+  [122, fixed("pointer", ...reals(3))],
+  [123, fixed(...reals(3))],
+  [124, fixed(...reals(12))],
+  [
+    126,
+    (p) => {
+      const k = count(p, 0);
+      const m = count(p, 1);
+      return [...ints(6), ...reals(k + m + 2 + 4 * (k + 1) + 5)];
+    },
+  ],
+  [
+    128,
+    (p) => {
+      const k1 = count(p, 0);
+      const k2 = count(p, 1);
+      const knots = k1 + count(p, 2) + 2 + (k2 + count(p, 3) + 2);
+      // Counts fit the record, but their product may not: the reals past its end are unused.
+      return [...ints(9), ...reals(Math.min(knots + 4 * (k1 + 1) * (k2 + 1) + 4, p.length))];
+    },
+  ],
+  [142, fixed("int", "pointer", "pointer", "pointer", "int")],
+  [144, (p) => ["pointer", "int", "int", "pointer", ...pointers(count(p, 2))]],
+  [150, fixed(...reals(12))],
+  [152, fixed(...reals(13))],
+  [154, fixed(...reals(8))],
+  [156, fixed(...reals(9))],
+  [158, fixed(...reals(4))],
+  [160, fixed(...reals(8))],
+  [162, fixed("pointer", ...reals(7))],
+  [164, fixed("pointer", ...reals(4))],
+  [168, fixed(...reals(12))],
+  // Operands are negated pointers, so the post-order list is read as integers.
+  [180, counted("int")],
+  [186, (p) => ["pointer", "int", "int", ...repeat(["pointer", "int"], count(p, 2))]],
+  [190, (_, form) => pointers(form === 1 ? 3 : 2)],
+  [192, (_, form) => ["pointer", "pointer", "real", ...pointers(form === 1 ? 1 : 0)]],
+  [194, (_, form) => ["pointer", "pointer", "real", "real", ...pointers(form === 1 ? 1 : 0)]],
+  [196, (_, form) => ["pointer", "real", ...pointers(form === 1 ? 2 : 0)]],
+  [198, (_, form) => ["pointer", "pointer", "real", "real", ...pointers(form === 1 ? 1 : 0)]],
+  [202, fixed(...pointers(3), ...reals(3), ...pointers(2))],
+  [206, fixed(...pointers(3), ...reals(2))],
+  [212, counted("int", "real", "real", "int", "real", "real", "int", "int", ...reals(3), "string")],
+  [214, (p) => ["int", ...reals(5 + 2 * count(p, 0))]],
+  [216, fixed(...pointers(5))],
+  [218, (_, form) => pointers(form === 1 ? 3 : 2)],
+  [220, fixed(...pointers(3))],
+  [222, (_, form) => ["pointer", "pointer", "real", "real", ...pointers(form === 1 ? 1 : 0)]],
+  [
+    304,
+    (p, form) =>
+      form === 2 ? ["int", ...reals(count(p, 0)), "string"] : ["int", "pointer", "real", "real"],
+  ],
+  [308, (p) => ["int", "string", "int", ...pointers(count(p, 2))]],
+  [314, fixed(...reals(3), "string")],
+  [402, (p, form) => ASSOCIATIVITY_FORMS[form]?.(p, form)],
+  [
+    404,
+    (p, form) => {
+      const view: ParameterKind[] = ["pointer", ...reals(form === 1 ? 3 : 2)];
+      const annotationsAt = 1 + view.length * count(p, 0);
+      return ["int", ...repeat(view, count(p, 0)), "int", ...pointers(count(p, annotationsAt))];
+    },
+  ],
+  [
+    406,
+    (p, form) => {
+      const values = PROPERTY_VALUES[form] ?? [];
+      const n = count(p, 0);
+      return [
+        "int",
+        ...Array.from({ length: n }, (_, i) => values[i] ?? (form === 1 ? "int" : "real")),
+      ];
+    },
+  ],
+  [408, fixed("pointer", ...reals(4))],
+  [
+    410,
+    (_, form) =>
+      form === 1
+        ? ["int", ...reals(14), ...reals(4), "int", "real", "real"]
+        : ["int", "real", ...pointers(6)],
+  ],
+  [430, fixed("pointer")],
+  [502, counted(...reals(3))],
+  [504, counted("pointer", "pointer", "int", "pointer", "int")],
+  [
+    508,
+    (p) => {
+      const kinds: ParameterKind[] = ["int"];
+      // Each loop takes at least five fields, so stop once the layout outgrows the record.
+      for (let i = 0; i < count(p, 0) && kinds.length <= p.length; i++) {
+        kinds.push("int", "pointer", "int", "int", "int");
+        kinds.push(...repeat(["int", "pointer"], count(p, kinds.length - 1)));
+      }
+      return kinds;
+    },
+  ],
+  [510, (p) => ["pointer", "int", "int", ...pointers(count(p, 1))]],
+  [514, counted("pointer", "int")],
+]);
+// A count that overflows its record leaves the record untyped instead of throwing.
+for (const [type, schema] of PARAMETER_SCHEMAS) PARAMETER_SCHEMAS.set(type, bounded(schema));
+
+/** Number of an entity's own parameters, or undefined when its type or form has no schema. */
+export function parameterCount(entity: RawEntity): number | undefined {
+  return PARAMETER_SCHEMAS.get(entity.type)?.(entity.params, entity.form)?.length;
+}
+
+/**
+ * Type an entity's own parameters by its schema: integer fields are truncated and positive
+ * pointer fields become `PointerValue`s (0 stays "no entity"). Defaulted (empty) fields
+ * and values that do not fit their kind are kept as parsed. An even pointer is a
+ * `POINTER_PARITY` violation and an odd one that names no DE in `deSequences` a
+ * `DANGLING_POINTER` violation (see `reportViolation()`).
+ */
+export function typeParameters(
+  entity: RawEntity,
+  deSequences: ReadonlySet<number>,
+  diagnostics: Diagnostic[],
+  mode: ParseMode = "lenient"
+): ParamValue[] {
+  const schema = PARAMETER_SCHEMAS.get(entity.type);
+  if (!schema) return entity.params;
+  const kinds = schema(entity.params, entity.form);
+  if (!kinds) return entity.params;
+  return entity.params.map((value, index) => {
+    const kind = kinds[index];
+    if (typeof value !== "number") return value;
+    if (kind === "int") return Math.trunc(value);
+    if (kind !== "pointer" || !Number.isInteger(value) || value <= 0) return value;
+    const even = value % 2 === 0;
+    if (even || !deSequences.has(value)) {
+      reportViolation(
+        parameterDiagnostic(
+          entity,
+          even ? "POINTER_PARITY" : "DANGLING_POINTER",
+          `Type ${entity.type} DE ${entity.de.sequence}: parameter ${index + 1} points at ${even ? "even" : "missing"} DE ${value}`
+        ),
+        mode,
+        diagnostics
+      );
+    }
+    return toPointer(value);
+  });
+}
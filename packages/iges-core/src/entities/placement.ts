@@ -0,0 +1,115 @@
+import type { DecodeContext } from "./decodeContext.js";
+import { paramInt, paramNumber, report } from "./decodeContext.js";
+import type { Vec3 } from "../types.js";
+import { cross, dot, normalize, scale, subtract, vec3 } from "../math/vec3.js";
+
+/** Location and orthonormal frame of an analytic surface (Types 190–198). */
+export interface Placement {
+  location: Vec3;
+  axis: Vec3;
+  refDirection: Vec3;
+  parameterized: boolean;
+}
+
+/**
+ * Resolve the LOCATION (Type 116) and AXIS / REFDIR (Type 123) pointers at the given
+ * PD indices. A null index selects the default: +Z for the axis, and for REFDIR a
+ * direction perpendicular to the axis. REFDIR is made orthogonal to the axis.
+ */
+export function decodePlacement(
+  ctx: DecodeContext,
+  indices: { location: number; axis: number | null; refDirection: number | null }
+): Placement | null {
+  const { entity } = ctx;
+  const label = `Type ${entity.type} DE ${entity.de.sequence}`;
+
+  const locationPtr = paramInt(entity.params, indices.location);
+  const point = locationPtr > 0 ? ctx.decodeReference(locationPtr) : null;
+  if (!point || point.kind !== "point") {
+    report(ctx, "WRONG_REFERENCE_TYPE", `${label}: LOCATION DE ${locationPtr} is not a point`);
+    return null;
+  }
+
+  const direction = (index: number | null, name: string): Vec3 | null | undefined => {
+    if (index === null) return undefined;
+    const pointer = paramInt(entity.params, index);
+    const dir = pointer > 0 ? ctx.decodeReference(pointer) : null;
+    if (!dir || dir.kind !== "direction") {
+      report(ctx, "WRONG_REFERENCE_TYPE", `${label}: ${name} DE ${pointer} is not a direction`);
+      return null;
+    }
+    const unit = normalize(dir.vector);
+    if (dot(unit, unit) === 0) {
+      report(ctx, "INVALID_GEOMETRY", `${label}: ${name} DE ${pointer} is a zero vector`);
+      return null;
+    }
+    return unit;
+  };
+
+  const axis = direction(indices.axis, "AXIS");
+  const ref = direction(indices.refDirection, "REFDIR");
+  if (axis === null || ref === null) return null;
+
+  const z = axis ?? vec3(0, 0, 1);
+  return {
+    location: point.position,
+    axis: z,
+    refDirection: ref ? orthogonalTo(z, ref) : perpendicular(z),
+    parameterized: ref !== undefined,
+  };
+}
+
+/**
+ * Frame of a CSG primitive (Types 150–160, 168) from inline X, Y, Z triples at the given
+ * PD indices. Empty fields take the defaults — origin, +Z axis, +X REFDIR — and a null
+ * REFDIR index picks a direction perpendicular to the axis.
+ */
+export function decodeInlinePlacement(
+  ctx: DecodeContext,
+  indices: { location: number; axis: number | null; refDirection: number | null }
+): Omit<Placement, "parameterized"> | null {
+  const { entity } = ctx;
+  const triple = (index: number, fallback: Vec3): Vec3 =>
+    vec3(
+      paramNumber(entity.params, index, fallback.x),
+      paramNumber(entity.params, index + 1, fallback.y),
+      paramNumber(entity.params, index + 2, fallback.z)
+    );
+  const unit = (index: number | null, fallback: Vec3, name: string): Vec3 | null => {
+    const vector = normalize(index === null ? fallback : triple(index, fallback));
+    if (dot(vector, vector) === 0) {
+      report(
+        ctx,
+        "INVALID_GEOMETRY",
+        `Type ${entity.type} DE ${entity.de.sequence}: ${name} is a zero vector`
+      );
+      return null;
+    }
+    return vector;
+  };
+
+  const axis = unit(indices.axis, vec3(0, 0, 1), "axis");
+  const ref =
+    indices.refDirection === null ? null : unit(indices.refDirection, vec3(1, 0, 0), "X axis");
+  if (!axis || (indices.refDirection !== null && !ref)) return null;
+
+  return {
+    location: triple(indices.location, vec3(0, 0, 0)),
+    axis,
+    refDirection: ref ? orthogonalTo(axis, ref) : perpendicular(axis),
+  };
+}
+
+/** Unit vector perpendicular to `axis`, built from the world axis least aligned with it. */
+export function perpendicular(axis: Vec3): Vec3 {
+  const ax = Math.abs(axis.x);
+  const ay = Math.abs(axis.y);
+  const az = Math.abs(axis.z);
+  const seed = ax <= ay && ax <= az ? vec3(1, 0, 0) : ay <= az ? vec3(0, 1, 0) : vec3(0, 0, 1);
+  return normalize(cross(cross(axis, seed), axis));
+}
+
+function orthogonalTo(axis: Vec3, ref: Vec3): Vec3 {
+  const projected = subtract(ref, scale(axis, dot(ref, axis)));
+  return dot(projected, projected) > 1e-24 ? normalize(projected) : perpendicular(axis);
+}
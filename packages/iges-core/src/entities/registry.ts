@@ -1,9 +1,52 @@
+import { baseGeometry } from "./decodeContext.js";
 import type { DecodeContext } from "./decodeContext.js";
 import { decodeType100 } from "./decoders/type100.js";
+import { decodeType102 } from "./decoders/type102.js";
+import { decodeType104 } from "./decoders/type104.js";
 import { decodeType106 } from "./decoders/type106.js";
 import { decodeType110 } from "./decoders/type110.js";
+import { decodeType112 } from "./decoders/type112.js";
 import { decodeType116 } from "./decoders/type116.js";
+import { decodeType118 } from "./decoders/type118.js";
+import { decodeType120 } from "./decoders/type120.js";
+import { decodeType122 } from "./decoders/type122.js";
 import { decodeType126 } from "./decoders/type126.js";
+import { decodeType128 } from "./decoders/type128.js";
+import { decodeType123 } from "./decoders/type123.js";
+import { decodeType142 } from "./decoders/type142.js";
+import { decodeType144 } from "./decoders/type144.js";
+import { decodeType190 } from "./decoders/type190.js";
+import { decodeType192 } from "./decoders/type192.js";
+import { decodeType194 } from "./decoders/type194.js";
+import { decodeType196 } from "./decoders/type196.js";
+import { decodeType198 } from "./decoders/type198.js";
+import { decodeType150 } from "./decoders/type150.js";
+import { decodeType152 } from "./decoders/type152.js";
+import { decodeType154 } from "./decoders/type154.js";
+import { decodeType156 } from "./decoders/type156.js";
+import { decodeType158 } from "./decoders/type158.js";
+import { decodeType160 } from "./decoders/type160.js";
+import { decodeType162 } from "./decoders/type162.js";
+import { decodeType164 } from "./decoders/type164.js";
+import { decodeType168 } from "./decoders/type168.js";
+import { decodeType180 } from "./decoders/type180.js";
+import { decodeType186 } from "./decoders/type186.js";
+import { decodeType502 } from "./decoders/type502.js";
+import { decodeType504 } from "./decoders/type504.js";
+import { decodeType508 } from "./decoders/type508.js";
+import { decodeType510 } from "./decoders/type510.js";
+import { decodeType514 } from "./decoders/type514.js";
+import { decodeType202 } from "./decoders/type202.js";
+import { decodeType206 } from "./decoders/type206.js";
+import { decodeType212 } from "./decoders/type212.js";
+import { decodeType214 } from "./decoders/type214.js";
+import { decodeType216 } from "./decoders/type216.js";
+import { decodeType218 } from "./decoders/type218.js";
+import { decodeType220 } from "./decoders/type220.js";
+import { decodeType222 } from "./decoders/type222.js";
+import { decodeType308 } from "./decoders/type308.js";
+import { decodeType408 } from "./decoders/type408.js";
+import { decodeType430 } from "./decoders/type430.js";
 import type { GeometryEntity, UnsupportedGeometry } from "../types.js";
 
 export type EntityDecoder = (ctx: DecodeContext) => GeometryEntity | GeometryEntity[] | null;
@@ -14,10 +57,52 @@ export type EntityDecoder = (ctx: DecodeContext) => GeometryEntity | GeometryEnt
  */
 export const ENTITY_DECODERS = new Map<number, EntityDecoder>([
   [100, decodeType100],
+  [102, decodeType102],
+  [104, decodeType104],
   [106, (ctx) => decodeType106(ctx)],
   [110, decodeType110],
+  [112, decodeType112],
   [116, decodeType116],
+  [118, decodeType118],
+  [120, decodeType120],
+  [122, decodeType122],
   [126, (ctx) => decodeType126(ctx)],
+  [123, decodeType123],
+  [128, decodeType128],
+  [142, decodeType142],
+  [144, decodeType144],
+  [150, decodeType150],
+  [152, decodeType152],
+  [154, decodeType154],
+  [156, decodeType156],
+  [158, decodeType158],
+  [160, decodeType160],
+  [162, decodeType162],
+  [164, decodeType164],
+  [168, decodeType168],
+  [180, decodeType180],
+  [186, decodeType186],
+  [190, decodeType190],
+  [192, decodeType192],
+  [194, decodeType194],
+  [196, decodeType196],
+  [198, decodeType198],
+  [202, decodeType202],
+  [206, decodeType206],
+  [212, decodeType212],
+  [214, decodeType214],
+  [216, decodeType216],
+  [218, decodeType218],
+  [220, decodeType220],
+  [222, decodeType222],
+  [308, decodeType308],
+  [408, decodeType408],
+  [502, decodeType502],
+  [504, decodeType504],
+  [508, decodeType508],
+  [510, decodeType510],
+  [514, decodeType514],
+  [430, decodeType430],
 ]);
 
 export function decodeEntity(ctx: DecodeContext): GeometryEntity | GeometryEntity[] | null {
@@ -31,18 +116,22 @@ export function decodeEntity(ctx: DecodeContext): GeometryEntity | GeometryEntit
 function unsupported(ctx: DecodeContext, reason: string): UnsupportedGeometry {
   return {
     kind: "unsupported",
-    deSequence: ctx.entity.de.sequence,
-    entityType: ctx.entity.type,
-    form: ctx.entity.form,
-    transform: ctx.transform,
-    colorNumber: ctx.entity.de.colorNumber,
-    level: ctx.entity.de.level,
+    ...baseGeometry(ctx),
     reason,
   };
 }
 
 /** Entity types that produce renderable geometry (excludes 124, 402, etc.). */
-export const GEOMETRY_ENTITY_TYPES = new Set([100, 106, 110, 116, 126]);
+export const GEOMETRY_ENTITY_TYPES = new Set([
+  100, 102, 104, 106, 110, 112, 116, 118, 120, 122, 126, 128, 142, 144, 150, 152, 154, 156, 158,
+  160, 162, 164, 168, 180, 186, 190, 192, 194, 196, 198, 202, 206, 212, 214, 216, 218, 220, 222,
+  408, 430, 510, 514,
+]);
 
-/** Meta entity types parsed but not emitted as geometry. */
-export const META_ENTITY_TYPES = new Set([124, 314, 402, 406]);
+/**
+ * Meta entity types parsed but not emitted as geometry. 123, 308 and the B-rep lists
+ * (502, 504, 508) are decoded only when another entity references them.
+ */
+export const META_ENTITY_TYPES = new Set([
+  123, 124, 304, 308, 314, 402, 404, 406, 410, 502, 504, 508,
+]);
@@ -0,0 +1,35 @@
+import { paramInt } from "./decodeContext.js";
+import { parameterCount } from "./parameterSchema.js";
+import type { RawEntity } from "../types.js";
+
+/** The optional pointer groups after an entity's own parameters (IGES 5.3 §2.2.4.5.2). */
+export interface TrailingPointers {
+  /** NV back pointers to associativity instances (Type 402). */
+  associativities: number[];
+  /** NP pointers to properties (Type 406) and other property-like entities. */
+  properties: number[];
+}
+
+/**
+ * Read the NV / NP pointer groups that may follow an entity's parameters. Returns null
+ * when the type's parameter layout is unknown or the trailing fields do not form the
+ * two groups; empty groups when the record ends with the entity's own parameters.
+ */
+export function trailingPointers(entity: RawEntity): TrailingPointers | null {
+  const count = parameterCount(entity);
+  const p = entity.params;
+  if (count === undefined || count > p.length) return null;
+
+  const groups: TrailingPointers = { associativities: [], properties: [] };
+  let cursor = count;
+  for (const group of [groups.associativities, groups.properties]) {
+    if (cursor === p.length) return groups;
+    const n = p[cursor];
+    if (typeof n !== "number" || !Number.isInteger(n) || n < 0 || cursor + 1 + n > p.length) {
+      return null;
+    }
+    for (let i = 0; i < n; i++) group.push(paramInt(p, cursor + 1 + i));
+    cursor += 1 + n;
+  }
+  return cursor === p.length ? groups : null;
+}
@@ -5,26 +5,112 @@
 
 export { parseIGES, parseAndResolveIGES, type ParseIGESOptions } from "./parse/parseIGES.js";
 export { resolveReferences } from "./resolve/resolveReferences.js";
+export { validateIGES, type ValidationReport } from "./validate/validateIGES.js";
+export { viewGeometry, drawingViewPlacement } from "./resolve/views.js";
+export { entityLevels, listLevels } from "./resolve/levels.js";
+export { lineThickness } from "./resolve/lineWeight.js";
 export { splitSections } from "./parse/sections.js";
 export { parseGlobalSection } from "./parse/parseGlobal.js";
-export { parseDirectorySection } from "./parse/parseDirectory.js";
+export { parseDirectorySection, parseStatusNumber } from "./parse/parseDirectory.js";
 export { ENTITY_DECODERS, GEOMETRY_ENTITY_TYPES, META_ENTITY_TYPES } from "./entities/registry.js";
+export {
+  PARAMETER_SCHEMAS,
+  typeParameters,
+  type ParameterKind,
+  type ParameterSchema,
+} from "./entities/parameterSchema.js";
 export { IGESParseError } from "./errors.js";
 export { parseHollerith, parseIgesReal, parseIgesInt } from "./parse/hollerith.js";
 export { sampleNurbsCurve, evaluateRationalBSpline } from "./math/nurbs.js";
+export { evaluateParametricSpline, sampleParametricSpline } from "./math/spline.js";
+export { evaluateRationalBSplineSurface } from "./math/nurbsSurface.js";
+export {
+  surfaceEvaluator,
+  isSurfaceGeometry,
+  closestSurfaceParameter,
+  boundedDomain,
+  type SurfaceEvaluator,
+  type UVDomain,
+} from "./math/surfaces.js";
+export { analyticSurfaceEvaluator, type AnalyticSurfaceGeometry } from "./math/analyticSurfaces.js";
+export { sweptSurfaceEvaluator, type SweptSurfaceGeometry } from "./math/sweptSurfaces.js";
+export {
+  tessellateSurface,
+  tessellateUVGrid,
+  type SurfaceTessellationOptions,
+} from "./tessellate/surfaces.js";
+export {
+  tessellateTrimmedSurface,
+  tessellateTrimmedRegion,
+  trimLoopFromCurveOnSurface,
+  domainLoop,
+  type TrimLoop,
+  type TrimmedTessellationOptions,
+} from "./tessellate/trimmed.js";
+export { tessellateBrepSolid, tessellateBrepShell, tessellateBrepFace } from "./tessellate/brep.js";
+export {
+  tessellatePrimitiveSolid,
+  type SolidTessellationOptions,
+} from "./tessellate/primitives.js";
+export { tessellateSolid, tessellateBooleanTree } from "./tessellate/solids.js";
+export { booleanMesh } from "./tessellate/csg.js";
+export { noteStrokes, noteTextStrokes } from "./tessellate/strokeFont.js";
+export { leaderStrokes, dimensionStrokes } from "./tessellate/annotations.js";
+export { isSolidGeometry } from "./math/solids.js";
+export { computeVertexNormals, mergeMeshData } from "./tessellate/mesh.js";
+export { triangulateRegion, type Point2, type Triangulation } from "./tessellate/triangulate.js";
+export {
+  conicFrameFromCoefficients,
+  evaluateConic,
+  conicParameter,
+  type ConicFrame,
+} from "./math/conic.js";
+export {
+  sampleCurve,
+  curveEndpoints,
+  curveParameterRange,
+  curveBreakpoints,
+  evaluateCurve,
+  isCurveGeometry,
+  type CurveSampleOptions,
+} from "./math/curves.js";
 
 export type {
   SectionId,
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+  ParseMode,
   ParamValue,
   PointerValue,
   GlobalSection,
   TerminateSection,
   DirectoryEntry,
+  EntityStatus,
+  SubordinateSwitch,
+  EntityUse,
+  Hierarchy,
   RawEntity,
   IGESModel,
   ResolvedIGESModel,
   Vec3,
   Transform3D,
+  IGESColor,
+  LineFont,
+  LineFontPattern,
+  LineFontSegment,
+  IGESGroup,
+  IGESView,
+  ViewClipBox,
+  IGESDrawing,
+  IGESDrawingView,
+  IGESProperty,
+  DefinitionLevelsProperty,
+  LineWideningProperty,
+  NameProperty,
+  DrawingSizeProperty,
+  DrawingUnitsProperty,
+  GenericProperty,
   GeometryKind,
   GeometryEntity,
   PointGeometry,
@@ -32,6 +118,64 @@ export type {
   CircularArcGeometry,
   PolylineGeometry,
   NurbsCurveGeometry,
+  CompositeCurveGeometry,
+  CompositeCurveGap,
+  ConicArcGeometry,
+  ConicType,
+  ParametricSplineCurveGeometry,
+  ParametricSplineSegment,
+  NurbsSurfaceGeometry,
+  DirectionGeometry,
+  AnalyticSurfaceBase,
+  PlaneSurfaceGeometry,
+  CylindricalSurfaceGeometry,
+  ConicalSurfaceGeometry,
+  SphericalSurfaceGeometry,
+  ToroidalSurfaceGeometry,
+  RuledSurfaceGeometry,
+  SurfaceOfRevolutionGeometry,
+  TabulatedCylinderGeometry,
+  CurveOnSurfaceGeometry,
+  TrimmedSurfaceGeometry,
+  VertexListGeometry,
+  EdgeListGeometry,
+  BrepVertex,
+  BrepEdge,
+  BrepCoedge,
+  BrepLoopGeometry,
+  BrepFaceGeometry,
+  BrepShellFace,
+  BrepShellGeometry,
+  BrepSolidGeometry,
+  PrimitiveSolidBase,
+  BlockSolidGeometry,
+  WedgeSolidGeometry,
+  CylinderSolidGeometry,
+  ConeSolidGeometry,
+  SphereSolidGeometry,
+  TorusSolidGeometry,
+  EllipsoidSolidGeometry,
+  RevolutionSolidGeometry,
+  ExtrusionSolidGeometry,
+  SolidInstanceGeometry,
+  BooleanOperation,
+  BooleanTreeNode,
+  BooleanTreeLeaf,
+  BooleanTreeOperand,
+  BooleanTreeGeometry,
+  PrimitiveSolidGeometry,
+  SolidGeometry,
+  SubfigureDefinitionGeometry,
+  SubfigureInstanceGeometry,
+  NoteText,
+  NoteGeometry,
+  ArrowheadShape,
+  LeaderGeometry,
+  DimensionType,
+  DimensionGeometry,
+  SurfaceGeometry,
+  MeshData,
+  CurveGeometry,
   UnsupportedGeometry,
 } from "./types.js";
 
@@ -0,0 +1,119 @@
+import type {
+  ConicalSurfaceGeometry,
+  CylindricalSurfaceGeometry,
+  PlaneSurfaceGeometry,
+  SphericalSurfaceGeometry,
+  ToroidalSurfaceGeometry,
+  Vec3,
+} from "../types.js";
+import type { SurfaceEvaluator } from "./surfaces.js";
+import { add, cross, dot, normalize, scale, subtract } from "./vec3.js";
+
+export type AnalyticSurfaceGeometry =
+  | PlaneSurfaceGeometry
+  | CylindricalSurfaceGeometry
+  | ConicalSurfaceGeometry
+  | SphericalSurfaceGeometry
+  | ToroidalSurfaceGeometry;
+
+const TWO_PI = 2 * Math.PI;
+
+/**
+ * Exact evaluator for Types 190–198, with closed-form normals (along Su × Sv) and
+ * inversion. Unbounded parameters (plane u/v, cylinder and cone v) have infinite domains.
+ */
+export function analyticSurfaceEvaluator(surface: AnalyticSurfaceGeometry): SurfaceEvaluator {
+  const origin = surface.location;
+  const xAxis = surface.refDirection;
+  const zAxis = surface.axis;
+  const yAxis = cross(zAxis, xAxis);
+
+  const radial = (u: number): Vec3 => add(scale(xAxis, Math.cos(u)), scale(yAxis, Math.sin(u)));
+  const local = (point: Vec3) => {
+    const d = subtract(point, origin);
+    return { x: dot(d, xAxis), y: dot(d, yAxis), z: dot(d, zAxis) };
+  };
+  const at = (...terms: Vec3[]): Vec3 => terms.reduce(add, origin);
+
+  switch (surface.kind) {
+    case "planeSurface":
+      return {
+        domain: { u0: -Infinity, u1: Infinity, v0: -Infinity, v1: Infinity },
+        evaluate: (u, v) => at(scale(xAxis, u), scale(yAxis, v)),
+        normal: () => zAxis,
+        invert: (point) => {
+          const p = local(point);
+          return { u: p.x, v: p.y };
+        },
+      };
+    case "cylindricalSurface": {
+      const r = surface.radius;
+      return {
+        domain: { u0: 0, u1: TWO_PI, v0: -Infinity, v1: Infinity },
+        evaluate: (u, v) => at(scale(radial(u), r), scale(zAxis, v)),
+        normal: (u) => radial(u),
+        invert: (point, seed) => {
+          const p = local(point);
+          return { u: angleAround(p, seed?.u), v: p.z };
+        },
+      };
+    }
+    case "conicalSurface": {
+      const r = surface.radius;
+      const tan = Math.tan((surface.semiAngle * Math.PI) / 180);
+      return {
+        domain: { u0: 0, u1: TWO_PI, v0: -Infinity, v1: Infinity },
+        evaluate: (u, v) => at(scale(radial(u), r + v * tan), scale(zAxis, v)),
+        normal: (u, v) =>
+          scale(normalize(subtract(radial(u), scale(zAxis, tan))), r + v * tan < 0 ? -1 : 1),
+        invert: (point, seed) => {
+          const p = local(point);
+          // Project onto the generatrix (r + v·tan, v) in the half-plane through the axis.
+          const rho = Math.hypot(p.x, p.y);
+          return { u: angleAround(p, seed?.u), v: ((rho - r) * tan + p.z) / (tan * tan + 1) };
+        },
+      };
+    }
+    case "sphericalSurface": {
+      const r = surface.radius;
+      const direction = (u: number, v: number): Vec3 =>
+        add(scale(radial(u), Math.cos(v)), scale(zAxis, Math.sin(v)));
+      return {
+        domain: { u0: 0, u1: TWO_PI, v0: -Math.PI / 2, v1: Math.PI / 2 },
+        evaluate: (u, v) => at(scale(direction(u, v), r)),
+        normal: direction,
+        invert: (point, seed) => {
+          const p = local(point);
+          return { u: angleAround(p, seed?.u), v: Math.atan2(p.z, Math.hypot(p.x, p.y)) };
+        },
+      };
+    }
+    case "toroidalSurface": {
+      const { majorRadius: a, minorRadius: b } = surface;
+      const direction = (u: number, v: number): Vec3 =>
+        add(scale(radial(u), Math.cos(v)), scale(zAxis, Math.sin(v)));
+      return {
+        domain: { u0: 0, u1: TWO_PI, v0: 0, v1: TWO_PI },
+        evaluate: (u, v) => at(scale(radial(u), a), scale(direction(u, v), b)),
+        normal: direction,
+        invert: (point, seed) => {
+          const p = local(point);
+          const tube = Math.atan2(p.z, Math.hypot(p.x, p.y) - a);
+          return { u: angleAround(p, seed?.u), v: unwrap(tube, seed?.v) };
+        },
+      };
+    }
+  }
+}
+
+/** Angle of the local point around the axis, continuous with `seed` when given. */
+function angleAround(p: Vec3, seed: number | undefined): number {
+  if (Math.hypot(p.x, p.y) < 1e-12) return seed ?? 0;
+  return unwrap(Math.atan2(p.y, p.x), seed);
+}
+
+/** Shift an angle by whole turns: into [0, 2π) without a seed, otherwise nearest to the seed. */
+function unwrap(angle: number, seed: number | undefined): number {
+  if (seed === undefined) return angle < 0 ? angle + TWO_PI : angle;
+  return angle + TWO_PI * Math.round((seed - angle) / TWO_PI);
+}
@@ -0,0 +1,179 @@
+import type { ConicType, Vec3 } from "../types.js";
+
+/**
+ * Parametric form of a conic in its definition plane:
+ * P(t) = center + f(t)·axisU + g(t)·axisV with
+ * ellipse (cos, sin), hyperbola (cosh, sinh), parabola (t², t).
+ */
+export interface ConicFrame {
+  conicType: ConicType;
+  /** Ellipse / hyperbola centre, or parabola vertex. */
+  center: Vec3;
+  axisU: Vec3;
+  axisV: Vec3;
+}
+
+const EPSILON = 1e-12;
+
+/**
+ * Reduce A·x² + B·xy + C·y² + D·x + E·y + F = 0 (at Z = zt) to a {@link ConicFrame}.
+ * Returns null for degenerate conics (empty, point, line pairs).
+ * @see IGES 5.3 Section 4.5 (Type 104)
+ */
+export function conicFrameFromCoefficients(
+  [a, b, c, d, e, f]: readonly [number, number, number, number, number, number],
+  zt: number
+): ConicFrame | null {
+  // Rotate so the cross term vanishes.
+  const theta = 0.5 * Math.atan2(b, a - c);
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+  const a1 = a * cos * cos + b * cos * sin + c * sin * sin;
+  const c1 = a * sin * sin - b * sin * cos + c * cos * cos;
+  const d1 = d * cos + e * sin;
+  const e1 = -d * sin + e * cos;
+
+  const u = { x: cos, y: sin };
+  const v = { x: -sin, y: cos };
+  const toPlane = (pu: number, pv: number): Vec3 => ({
+    x: pu * u.x + pv * v.x,
+    y: pu * u.y + pv * v.y,
+    z: zt,
+  });
+  const dir = (vec: { x: number; y: number }, s: number): Vec3 => ({
+    x: vec.x * s,
+    y: vec.y * s,
+    z: 0,
+  });
+
+  const scale = Math.max(Math.abs(a1), Math.abs(c1), EPSILON);
+  const aZero = Math.abs(a1) / scale < 1e-9;
+  const cZero = Math.abs(c1) / scale < 1e-9;
+
+  if (aZero || cZero) {
+    // Parabola: one quadratic term remains.
+    if (aZero && cZero) return null;
+    if (aZero) {
+      // c1·y² + d1·x + e1·y + f = 0  →  x = k·y² + …
+      if (Math.abs(d1) < EPSILON) return null;
+      const yv = -e1 / (2 * c1);
+      const xv = -(c1 * yv * yv + e1 * yv + f) / d1;
+      return {
+        conicType: "parabola",
+        center: toPlane(xv, yv),
+        axisU: dir(u, -c1 / d1),
+        axisV: dir(v, 1),
+      };
+    }
+    // a1·x² + d1·x + e1·y + f = 0  →  y = k·x² + …
+    if (Math.abs(e1) < EPSILON) return null;
+    const xv = -d1 / (2 * a1);
+    const yv = -(a1 * xv * xv + d1 * xv + f) / e1;
+    return {
+      conicType: "parabola",
+      center: toPlane(xv, yv),
+      axisU: dir(v, -a1 / e1),
+      axisV: dir(u, 1),
+    };
+  }
+
+  const x0 = -d1 / (2 * a1);
+  const y0 = -e1 / (2 * c1);
+  const k = a1 * x0 * x0 + c1 * y0 * y0 - f;
+  const su = k / a1;
+  const sv = k / c1;
+  const center = toPlane(x0, y0);
+
+  if (su > 0 && sv > 0) {
+    return {
+      conicType: "ellipse",
+      center,
+      axisU: dir(u, Math.sqrt(su)),
+      axisV: dir(v, Math.sqrt(sv)),
+    };
+  }
+  if (su > 0 && sv < 0) {
+    return {
+      conicType: "hyperbola",
+      center,
+      axisU: dir(u, Math.sqrt(su)),
+      axisV: dir(v, Math.sqrt(-sv)),
+    };
+  }
+  if (su < 0 && sv > 0) {
+    // Transverse axis along v; keep (axisU, axisV) right-handed.
+    return {
+      conicType: "hyperbola",
+      center,
+      axisU: dir(v, Math.sqrt(sv)),
+      axisV: dir(u, -Math.sqrt(-su)),
+    };
+  }
+  return null;
+}
+
+/** Point on the conic at parameter t. */
+export function evaluateConic(frame: ConicFrame, t: number): Vec3 {
+  const [f, g] = conicBasis(frame.conicType, t);
+  return {
+    x: frame.center.x + f * frame.axisU.x + g * frame.axisV.x,
+    y: frame.center.y + f * frame.axisU.y + g * frame.axisV.y,
+    z: frame.center.z + f * frame.axisU.z + g * frame.axisV.z,
+  };
+}
+
+/**
+ * Parameter of a point on (or near) the conic. For hyperbolas the branch is
+ * chosen by flipping `axisU` — see {@link conicBranchFrame}.
+ */
+export function conicParameter(frame: ConicFrame, point: Vec3): number {
+  const rel = {
+    x: point.x - frame.center.x,
+    y: point.y - frame.center.y,
+    z: point.z - frame.center.z,
+  };
+  const alpha = dot(rel, frame.axisU) / dot(frame.axisU, frame.axisU);
+  const beta = dot(rel, frame.axisV) / dot(frame.axisV, frame.axisV);
+
+  switch (frame.conicType) {
+    case "ellipse":
+      return Math.atan2(beta, alpha);
+    case "hyperbola":
+      return Math.asinh(beta);
+    case "parabola":
+      return beta;
+  }
+}
+
+/** Hyperbola frame whose `axisU` points at the branch containing `point`. */
+export function conicBranchFrame(frame: ConicFrame, point: Vec3): ConicFrame {
+  if (frame.conicType !== "hyperbola") return frame;
+  const rel = {
+    x: point.x - frame.center.x,
+    y: point.y - frame.center.y,
+    z: point.z - frame.center.z,
+  };
+  if (dot(rel, frame.axisU) >= 0) return frame;
+  const { axisU, axisV } = frame;
+  // Negating both axes is a 180° rotation, so the frame stays right-handed.
+  return {
+    ...frame,
+    axisU: { x: -axisU.x, y: -axisU.y, z: -axisU.z },
+    axisV: { x: -axisV.x, y: -axisV.y, z: -axisV.z },
+  };
+}
+
+function conicBasis(conicType: ConicType, t: number): [number, number] {
+  switch (conicType) {
+    case "ellipse":
+      return [Math.cos(t), Math.sin(t)];
+    case "hyperbola":
+      return [Math.cosh(t), Math.sinh(t)];
+    case "parabola":
+      return [t * t, t];
+  }
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
@@ -0,0 +1,272 @@
+import type { CircularArcGeometry, CurveGeometry, GeometryEntity, Vec3 } from "../types.js";
+import { evaluateConic } from "./conic.js";
+import { evaluateRationalBSpline, sampleNurbsCurve } from "./nurbs.js";
+import { evaluateParametricSpline, sampleParametricSpline } from "./spline.js";
+import { add, distance3D, dot, scale, subtract } from "./vec3.js";
+
+export interface CurveSampleOptions {
+  /** Samples per circular or conic arc (default 48). */
+  arcSegments?: number;
+  /** Samples per NURBS curve (default 64). */
+  nurbsSegments?: number;
+  /** Samples per parametric spline segment (default 16). */
+  splineSegments?: number;
+}
+
+const CURVE_KINDS = new Set<GeometryEntity["kind"]>([
+  "line",
+  "circularArc",
+  "polyline",
+  "nurbsCurve",
+  "compositeCurve",
+  "conicArc",
+  "parametricSplineCurve",
+]);
+
+export function isCurveGeometry(entity: GeometryEntity): entity is CurveGeometry {
+  return CURVE_KINDS.has(entity.kind);
+}
+
+/** First and last point of a curve in its (already transformed) coordinates. */
+export function curveEndpoints(curve: CurveGeometry): { start: Vec3; end: Vec3 } {
+  switch (curve.kind) {
+    case "line":
+    case "circularArc":
+    case "conicArc":
+      return { start: curve.start, end: curve.end };
+    case "polyline": {
+      const first = curve.points[0] ?? { x: 0, y: 0, z: 0 };
+      const last = curve.closed ? first : (curve.points[curve.points.length - 1] ?? first);
+      return { start: first, end: last };
+    }
+    case "nurbsCurve":
+      return {
+        start: evaluateRationalBSpline(
+          curve.degree,
+          curve.knots,
+          curve.weights,
+          curve.controlPoints,
+          curve.t0
+        ),
+        end: evaluateRationalBSpline(
+          curve.degree,
+          curve.knots,
+          curve.weights,
+          curve.controlPoints,
+          curve.t1
+        ),
+      };
+    case "parametricSplineCurve":
+      return {
+        start: evaluateParametricSpline(curve.breakpoints, curve.segments, curve.breakpoints[0]!),
+        end: evaluateParametricSpline(
+          curve.breakpoints,
+          curve.segments,
+          curve.breakpoints[curve.breakpoints.length - 1]!
+        ),
+      };
+    case "compositeCurve": {
+      const first = curve.segments[0];
+      const last = curve.segments[curve.segments.length - 1];
+      const origin = { x: 0, y: 0, z: 0 };
+      return {
+        start: first ? curveEndpoints(first).start : origin,
+        end: last ? curveEndpoints(last).end : origin,
+      };
+    }
+  }
+}
+
+/**
+ * Sample a curve into a polyline. Composite curves are flattened into one
+ * point list; use `CompositeCurveGeometry.gaps` to split discontinuous chains.
+ */
+export function sampleCurve(curve: CurveGeometry, options: CurveSampleOptions = {}): Vec3[] {
+  const { arcSegments = 48, nurbsSegments = 64, splineSegments = 16 } = options;
+
+  switch (curve.kind) {
+    case "line":
+      return [curve.start, curve.end];
+    case "circularArc":
+      return sampleCircularArc(curve, arcSegments);
+    case "polyline":
+      return curve.closed && curve.points[0] ? [...curve.points, curve.points[0]] : curve.points;
+    case "nurbsCurve":
+      return sampleNurbsCurve(
+        curve.degree,
+        curve.knots,
+        curve.weights,
+        curve.controlPoints,
+        curve.t0,
+        curve.t1,
+        nurbsSegments
+      );
+    case "conicArc": {
+      const points: Vec3[] = [];
+      for (let i = 0; i <= arcSegments; i++) {
+        points.push(evaluateConic(curve, curve.t0 + (curve.t1 - curve.t0) * (i / arcSegments)));
+      }
+      return points;
+    }
+    case "parametricSplineCurve":
+      return sampleParametricSpline(curve.breakpoints, curve.segments, splineSegments);
+    case "compositeCurve": {
+      const points: Vec3[] = [];
+      for (const segment of curve.segments) {
+        const samples = sampleCurve(segment, options);
+        const last = points[points.length - 1];
+        const first = samples[0];
+        const skipFirst = last && first && distance3D(last, first) === 0;
+        points.push(...(skipFirst ? samples.slice(1) : samples));
+      }
+      return points;
+    }
+  }
+}
+
+/**
+ * Natural parameter range of a curve, as accepted by {@link evaluateCurve}: the
+ * angle range for circular arcs, the vertex index for polylines, the stored range
+ * for splines and conics, and the concatenated constituent ranges for composites.
+ */
+export function curveParameterRange(curve: CurveGeometry): { t0: number; t1: number } {
+  switch (curve.kind) {
+    case "line":
+      return { t0: 0, t1: 1 };
+    case "circularArc": {
+      const { a0, a1 } = arcAngles(curve);
+      return { t0: a0, t1: a1 };
+    }
+    case "polyline":
+      return { t0: 0, t1: Math.max(curve.points.length - (curve.closed ? 0 : 1), 0) };
+    case "nurbsCurve":
+    case "conicArc":
+      return { t0: curve.t0, t1: curve.t1 };
+    case "parametricSplineCurve":
+      return {
+        t0: curve.breakpoints[0] ?? 0,
+        t1: curve.breakpoints[curve.breakpoints.length - 1] ?? 0,
+      };
+    case "compositeCurve":
+      return { t0: 0, t1: curve.segments.reduce((sum, s) => sum + parameterSpan(s), 0) };
+  }
+}
+
+/** Point on a curve at parameter `t` of its {@link curveParameterRange}. */
+export function evaluateCurve(curve: CurveGeometry, t: number): Vec3 {
+  switch (curve.kind) {
+    case "line":
+      return add(curve.start, scale(subtract(curve.end, curve.start), t));
+    case "circularArc":
+      return arcPoint(curve, t);
+    case "polyline": {
+      const { points } = curve;
+      const count = points.length - (curve.closed ? 0 : 1);
+      if (count <= 0) return points[0] ?? { x: 0, y: 0, z: 0 };
+      const i = Math.min(Math.max(Math.floor(t), 0), count - 1);
+      const a = points[i]!;
+      const b = points[(i + 1) % points.length]!;
+      return add(a, scale(subtract(b, a), t - i));
+    }
+    case "nurbsCurve":
+      return evaluateRationalBSpline(
+        curve.degree,
+        curve.knots,
+        curve.weights,
+        curve.controlPoints,
+        t
+      );
+    case "conicArc":
+      return evaluateConic(curve, t);
+    case "parametricSplineCurve":
+      return evaluateParametricSpline(curve.breakpoints, curve.segments, t);
+    case "compositeCurve": {
+      let offset = 0;
+      for (const [i, segment] of curve.segments.entries()) {
+        const span = parameterSpan(segment);
+        if (t <= offset + span || i === curve.segments.length - 1) {
+          return evaluateCurve(segment, curveParameterRange(segment).t0 + (t - offset));
+        }
+        offset += span;
+      }
+      return { x: 0, y: 0, z: 0 };
+    }
+  }
+}
+
+/**
+ * Interior parameters (of {@link curveParameterRange}) where the curve may have a
+ * corner: polyline vertices, composite joins, spline breakpoints and NURBS knots of
+ * multiplicity ≥ degree.
+ */
+export function curveBreakpoints(curve: CurveGeometry): number[] {
+  const { t0, t1 } = curveParameterRange(curve);
+  const inside = (t: number) => t > t0 && t < t1;
+  switch (curve.kind) {
+    case "line":
+    case "circularArc":
+    case "conicArc":
+      return [];
+    case "polyline":
+      return Array.from({ length: Math.max(Math.ceil(t1) - 1, 0) }, (_, i) => i + 1);
+    case "nurbsCurve": {
+      const counts = new Map<number, number>();
+      for (const knot of curve.knots) counts.set(knot, (counts.get(knot) ?? 0) + 1);
+      return [...counts]
+        .filter(([knot, count]) => count >= curve.degree && inside(knot))
+        .map(([knot]) => knot);
+    }
+    case "parametricSplineCurve":
+      return curve.breakpoints.filter(inside);
+    case "compositeCurve": {
+      const breaks: number[] = [];
+      let offset = 0;
+      for (const [i, segment] of curve.segments.entries()) {
+        const range = curveParameterRange(segment);
+        if (i > 0) breaks.push(offset);
+        breaks.push(...curveBreakpoints(segment).map((t) => offset + t - range.t0));
+        offset += range.t1 - range.t0;
+      }
+      return breaks;
+    }
+  }
+}
+
+function parameterSpan(curve: CurveGeometry): number {
+  const { t0, t1 } = curveParameterRange(curve);
+  return t1 - t0;
+}
+
+/** Start and end angle of an arc in its (xAxis, yAxis) basis, with a1 > a0. */
+function arcAngles(arc: CircularArcGeometry): { a0: number; a1: number } {
+  const angleOf = (p: Vec3) => {
+    const d = subtract(p, arc.center);
+    return Math.atan2(dot(d, arc.yAxis), dot(d, arc.xAxis));
+  };
+  const a0 = angleOf(arc.start);
+  let a1 = angleOf(arc.end);
+  while (a1 <= a0) a1 += 2 * Math.PI;
+  return { a0, a1 };
+}
+
+function arcPoint(arc: CircularArcGeometry, angle: number): Vec3 {
+  const { center, xAxis, yAxis, radius } = arc;
+  return add(
+    center,
+    add(scale(xAxis, radius * Math.cos(angle)), scale(yAxis, radius * Math.sin(angle)))
+  );
+}
+
+/**
+ * Counter-clockwise arc (about xAxis × yAxis) from start to end; equal end points give
+ * a full circle. The end points are emitted exactly so adjoining curves meet.
+ */
+function sampleCircularArc(arc: CircularArcGeometry, segments: number): Vec3[] {
+  const { a0, a1 } = arcAngles(arc);
+  const points: Vec3[] = [arc.start];
+  for (let i = 1; i < segments; i++) {
+    points.push(arcPoint(arc, a0 + (a1 - a0) * (i / segments)));
+  }
+  points.push(arc.end);
+  return points;
+}
@@ -55,7 +55,8 @@ export function evaluateRationalBSpline(
   };
 }
 
-function findSpan(n: number, degree: number, t: number, knots: number[]): number {
+/** Knot span index containing t (NURBS Book A2.1); n is the last control point index. */
+export function findSpan(n: number, degree: number, t: number, knots: number[]): number {
   if (t >= knots[n + 1]!) return n;
   if (t <= knots[degree]!) return degree;
   let low = degree;
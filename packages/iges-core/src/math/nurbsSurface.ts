@@ -0,0 +1,74 @@
+import type { Vec3 } from "../types.js";
+import { findSpan } from "./nurbs.js";
+
+/**
+ * Non-zero B-spline basis functions N(span−degree … span) at t (NURBS Book A2.2).
+ */
+export function basisFunctions(span: number, t: number, degree: number, knots: number[]): number[] {
+  const basis = [1];
+  const left: number[] = [];
+  const right: number[] = [];
+
+  for (let j = 1; j <= degree; j++) {
+    left[j] = t - knots[span + 1 - j]!;
+    right[j] = knots[span + j]! - t;
+    let saved = 0;
+    for (let r = 0; r < j; r++) {
+      const denom = right[r + 1]! + left[j - r]!;
+      const temp = denom === 0 ? 0 : basis[r]! / denom;
+      basis[r] = saved + right[r + 1]! * temp;
+      saved = left[j - r]! * temp;
+    }
+    basis[j] = saved;
+  }
+
+  return basis;
+}
+
+/**
+ * Evaluate a rational B-spline surface at (u, v).
+ * `controlPoints[i][j]` / `weights[i][j]`: i along U (0…K1), j along V (0…K2).
+ * @see IGES Type 128
+ */
+export function evaluateRationalBSplineSurface(
+  degreeU: number,
+  degreeV: number,
+  knotsU: number[],
+  knotsV: number[],
+  weights: number[][],
+  controlPoints: Vec3[][],
+  u: number,
+  v: number
+): Vec3 {
+  const nu = controlPoints.length - 1;
+  const nv = (controlPoints[0]?.length ?? 0) - 1;
+  if (nu < degreeU || nv < degreeV) {
+    return controlPoints[0]?.[0] ?? { x: 0, y: 0, z: 0 };
+  }
+
+  const spanU = findSpan(nu, degreeU, u, knotsU);
+  const spanV = findSpan(nv, degreeV, v, knotsV);
+  const basisU = basisFunctions(spanU, u, degreeU, knotsU);
+  const basisV = basisFunctions(spanV, v, degreeV, knotsV);
+
+  let x = 0;
+  let y = 0;
+  let z = 0;
+  let w = 0;
+  for (let k = 0; k <= degreeU; k++) {
+    const i = spanU - degreeU + k;
+    for (let l = 0; l <= degreeV; l++) {
+      const j = spanV - degreeV + l;
+      const cp = controlPoints[i]?.[j];
+      if (!cp) continue;
+      const factor = basisU[k]! * basisV[l]! * (weights[i]?.[j] ?? 1);
+      x += cp.x * factor;
+      y += cp.y * factor;
+      z += cp.z * factor;
+      w += factor;
+    }
+  }
+
+  if (w === 0) return controlPoints[0]?.[0] ?? { x: 0, y: 0, z: 0 };
+  return { x: x / w, y: y / w, z: z / w };
+}
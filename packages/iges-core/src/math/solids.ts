@@ -0,0 +1,20 @@
+import type { GeometryEntity, SolidGeometry } from "../types.js";
+
+const SOLID_KINDS = new Set<GeometryEntity["kind"]>([
+  "blockSolid",
+  "wedgeSolid",
+  "cylinderSolid",
+  "coneSolid",
+  "sphereSolid",
+  "torusSolid",
+  "ellipsoidSolid",
+  "revolutionSolid",
+  "extrusionSolid",
+  "solidInstance",
+  "booleanTree",
+  "brepSolid",
+]);
+
+export function isSolidGeometry(entity: GeometryEntity): entity is SolidGeometry {
+  return SOLID_KINDS.has(entity.kind);
+}
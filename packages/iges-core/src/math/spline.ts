@@ -0,0 +1,50 @@
+import type { ParametricSplineSegment, Vec3 } from "../types.js";
+
+/**
+ * Evaluate a piecewise cubic parametric spline at t.
+ * Segment i covers [breakpoints[i], breakpoints[i + 1]] with local s = t − breakpoints[i].
+ * @see IGES Type 112
+ */
+export function evaluateParametricSpline(
+  breakpoints: number[],
+  segments: ParametricSplineSegment[],
+  t: number
+): Vec3 {
+  const i = findSegment(breakpoints, segments.length, t);
+  const seg = segments[i];
+  if (!seg) return { x: 0, y: 0, z: 0 };
+
+  const s = t - (breakpoints[i] ?? 0);
+  const s2 = s * s;
+  const s3 = s2 * s;
+  return {
+    x: seg.a.x + seg.b.x * s + seg.c.x * s2 + seg.d.x * s3,
+    y: seg.a.y + seg.b.y * s + seg.c.y * s2 + seg.d.y * s3,
+    z: seg.a.z + seg.b.z * s + seg.c.z * s2 + seg.d.z * s3,
+  };
+}
+
+function findSegment(breakpoints: number[], count: number, t: number): number {
+  for (let i = count - 1; i > 0; i--) {
+    if (t >= breakpoints[i]!) return i;
+  }
+  return 0;
+}
+
+/** Sample a parametric spline into a polyline, `samplesPerSegment` per polynomial piece. */
+export function sampleParametricSpline(
+  breakpoints: number[],
+  segments: ParametricSplineSegment[],
+  samplesPerSegment: number
+): Vec3[] {
+  const points: Vec3[] = [];
+  for (let i = 0; i < segments.length; i++) {
+    const t0 = breakpoints[i] ?? 0;
+    const t1 = breakpoints[i + 1] ?? t0;
+    for (let j = i === 0 ? 0 : 1; j <= samplesPerSegment; j++) {
+      const t = t0 + (t1 - t0) * (j / samplesPerSegment);
+      points.push(evaluateParametricSpline(breakpoints, segments, t));
+    }
+  }
+  return points;
+}
@@ -0,0 +1,151 @@
+import type { GeometryEntity, SurfaceGeometry, Vec3 } from "../types.js";
+import { analyticSurfaceEvaluator } from "./analyticSurfaces.js";
+import { evaluateRationalBSplineSurface } from "./nurbsSurface.js";
+import { sweptSurfaceEvaluator } from "./sweptSurfaces.js";
+
+/** Rectangular parameter domain of a surface. */
+export interface UVDomain {
+  u0: number;
+  u1: number;
+  v0: number;
+  v1: number;
+}
+
+export interface SurfaceEvaluator {
+  /** Natural domain; unbounded directions use ±Infinity (see {@link boundedDomain}). */
+  domain: UVDomain;
+  evaluate(u: number, v: number): Vec3;
+  /** Exact unit normal along Su × Sv, when known in closed form. */
+  normal?(u: number, v: number): Vec3;
+  /** Exact inverse of `evaluate`; periodic parameters are unwrapped towards `seed`. */
+  invert?(point: Vec3, seed?: { u: number; v: number }): { u: number; v: number };
+  /** Interior u values where the surface may crease (corners of a swept profile). */
+  uBreaks?: number[];
+}
+
+const SURFACE_KINDS = new Set<GeometryEntity["kind"]>([
+  "nurbsSurface",
+  "planeSurface",
+  "cylindricalSurface",
+  "conicalSurface",
+  "sphericalSurface",
+  "toroidalSurface",
+  "ruledSurface",
+  "surfaceOfRevolution",
+  "tabulatedCylinder",
+]);
+
+export function isSurfaceGeometry(entity: GeometryEntity): entity is SurfaceGeometry {
+  return SURFACE_KINDS.has(entity.kind);
+}
+
+/** Bind a surface geometry to a point evaluator over its natural parameter domain. */
+export function surfaceEvaluator(surface: SurfaceGeometry): SurfaceEvaluator {
+  switch (surface.kind) {
+    case "nurbsSurface":
+      return {
+        domain: { u0: surface.u0, u1: surface.u1, v0: surface.v0, v1: surface.v1 },
+        evaluate: (u, v) =>
+          evaluateRationalBSplineSurface(
+            surface.degreeU,
+            surface.degreeV,
+            surface.knotsU,
+            surface.knotsV,
+            surface.weights,
+            surface.controlPoints,
+            u,
+            v
+          ),
+      };
+    case "ruledSurface":
+    case "surfaceOfRevolution":
+    case "tabulatedCylinder":
+      return sweptSurfaceEvaluator(surface);
+    default:
+      return analyticSurfaceEvaluator(surface);
+  }
+}
+
+/** Replace infinite domain bounds by ±`extent` so the domain can be sampled. */
+export function boundedDomain(domain: UVDomain, extent: number): UVDomain {
+  const clamp = (value: number) => (Number.isFinite(value) ? value : Math.sign(value) * extent);
+  return {
+    u0: clamp(domain.u0),
+    u1: clamp(domain.u1),
+    v0: clamp(domain.v0),
+    v1: clamp(domain.v1),
+  };
+}
+
+/**
+ * (u, v) of the surface point closest to `point`. Uses the evaluator's exact inverse
+ * when it has one; otherwise a coarse grid search (skipped when `seed` is given),
+ * then Gauss–Newton steps clamped to the domain.
+ */
+export function closestSurfaceParameter(
+  evaluator: SurfaceEvaluator,
+  point: Vec3,
+  seed?: { u: number; v: number }
+): { u: number; v: number } {
+  if (evaluator.invert) return evaluator.invert(point, seed);
+  const { u0, u1, v0, v1 } = evaluator.domain;
+  const distanceSq = (u: number, v: number): number => {
+    const s = evaluator.evaluate(u, v);
+    return (s.x - point.x) ** 2 + (s.y - point.y) ** 2 + (s.z - point.z) ** 2;
+  };
+
+  let u = seed?.u ?? u0;
+  let v = seed?.v ?? v0;
+  if (!seed) {
+    const n = 12;
+    let best = Infinity;
+    for (let i = 0; i <= n; i++) {
+      for (let j = 0; j <= n; j++) {
+        const cu = u0 + ((u1 - u0) * i) / n;
+        const cv = v0 + ((v1 - v0) * j) / n;
+        const d = distanceSq(cu, cv);
+        if (d < best) {
+          best = d;
+          u = cu;
+          v = cv;
+        }
+      }
+    }
+  }
+
+  const hu = Math.max(Math.abs(u1 - u0), 1e-9) * 1e-6;
+  const hv = Math.max(Math.abs(v1 - v0), 1e-9) * 1e-6;
+  for (let iteration = 0; iteration < 12; iteration++) {
+    const s = evaluator.evaluate(u, v);
+    // Step backwards at the upper domain edge so evaluation stays inside the domain.
+    const stepU = u + hu <= Math.max(u0, u1) ? hu : -hu;
+    const stepV = v + hv <= Math.max(v0, v1) ? hv : -hv;
+    const su = sub(evaluator.evaluate(u + stepU, v), s, stepU);
+    const sv = sub(evaluator.evaluate(u, v + stepV), s, stepV);
+    const r = { x: point.x - s.x, y: point.y - s.y, z: point.z - s.z };
+    const a = dot(su, su);
+    const b = dot(su, sv);
+    const c = dot(sv, sv);
+    const det = a * c - b * b;
+    if (Math.abs(det) < 1e-30) break;
+    const du = (c * dot(su, r) - b * dot(sv, r)) / det;
+    const dv = (a * dot(sv, r) - b * dot(su, r)) / det;
+    u = clamp(u + du, Math.min(u0, u1), Math.max(u0, u1));
+    v = clamp(v + dv, Math.min(v0, v1), Math.max(v0, v1));
+    if (Math.abs(du) < hu && Math.abs(dv) < hv) break;
+  }
+
+  return { u, v };
+}
+
+function sub(a: Vec3, b: Vec3, h: number): Vec3 {
+  return { x: (a.x - b.x) / h, y: (a.y - b.y) / h, z: (a.z - b.z) / h };
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,163 @@
+import type {
+  CurveGeometry,
+  RuledSurfaceGeometry,
+  SurfaceOfRevolutionGeometry,
+  TabulatedCylinderGeometry,
+  Vec3,
+} from "../types.js";
+import { curveBreakpoints, curveParameterRange, evaluateCurve } from "./curves.js";
+import type { SurfaceEvaluator, UVDomain } from "./surfaces.js";
+import { add, cross, dot, normalize, scale, subtract } from "./vec3.js";
+
+export type SweptSurfaceGeometry =
+  | RuledSurfaceGeometry
+  | SurfaceOfRevolutionGeometry
+  | TabulatedCylinderGeometry;
+
+/** Chord samples used to reparameterize a curve by arc length. */
+const ARC_LENGTH_SAMPLES = 256;
+
+/**
+ * Evaluator for the surfaces swept from curves (Types 118, 120, 122). Points are exact
+ * on the referenced curves; normals come from central differences along Su × Sv.
+ */
+export function sweptSurfaceEvaluator(surface: SweptSurfaceGeometry): SurfaceEvaluator {
+  switch (surface.kind) {
+    case "ruledSurface": {
+      const relative = surface.form === 1 ? relativeParameterCurve : arcLengthCurve;
+      const c1 = relative(surface.curve1);
+      const c2 = relative(surface.curve2);
+      const reversed = surface.reversed;
+      const evaluate = (u: number, v: number): Vec3 => {
+        const a = c1(u);
+        const b = c2(reversed ? 1 - u : u);
+        return add(a, scale(subtract(b, a), v));
+      };
+      // Corners only line up with u for equal-parameter ruling.
+      const uBreaks =
+        surface.form === 1
+          ? [
+              ...relativeBreakpoints(surface.curve1),
+              ...relativeBreakpoints(surface.curve2).map((s) => (reversed ? 1 - s : s)),
+            ]
+          : [];
+      return withDifferenceNormal({ u0: 0, u1: 1, v0: 0, v1: 1 }, evaluate, uBreaks);
+    }
+    case "surfaceOfRevolution": {
+      const { axis, generatrix } = surface;
+      const origin = axis.start;
+      const direction = normalize(subtract(axis.end, axis.start));
+      const { t0, t1 } = curveParameterRange(generatrix);
+      const evaluate = (u: number, v: number): Vec3 => {
+        const r = subtract(evaluateCurve(generatrix, u), origin);
+        const along = scale(direction, dot(direction, r));
+        const radial = subtract(r, along);
+        return add(
+          add(origin, along),
+          add(scale(radial, Math.cos(v)), scale(cross(direction, radial), Math.sin(v)))
+        );
+      };
+      return withDifferenceNormal(
+        { u0: t0, u1: t1, v0: surface.startAngle, v1: surface.endAngle },
+        evaluate,
+        curveBreakpoints(generatrix)
+      );
+    }
+    case "tabulatedCylinder": {
+      const directrix = relativeParameterCurve(surface.directrix);
+      const generatrix = subtract(surface.generatrixEnd, directrix(0));
+      const evaluate = (u: number, v: number): Vec3 => add(directrix(u), scale(generatrix, v));
+      return withDifferenceNormal(
+        { u0: 0, u1: 1, v0: 0, v1: 1 },
+        evaluate,
+        relativeBreakpoints(surface.directrix)
+      );
+    }
+  }
+}
+
+/** Curve point at relative parameter s ∈ [0, 1] of its natural range. */
+function relativeParameterCurve(curve: CurveGeometry): (s: number) => Vec3 {
+  const { t0, t1 } = curveParameterRange(curve);
+  return (s) => evaluateCurve(curve, t0 + (t1 - t0) * s);
+}
+
+function relativeBreakpoints(curve: CurveGeometry): number[] {
+  const { t0, t1 } = curveParameterRange(curve);
+  return t1 > t0 ? curveBreakpoints(curve).map((t) => (t - t0) / (t1 - t0)) : [];
+}
+
+/** Curve point at relative arc length s ∈ [0, 1], via a chord-length table. */
+function arcLengthCurve(curve: CurveGeometry): (s: number) => Vec3 {
+  const { t0, t1 } = curveParameterRange(curve);
+  const params: number[] = [];
+  const lengths: number[] = [0];
+  let previous: Vec3 | null = null;
+  for (let i = 0; i <= ARC_LENGTH_SAMPLES; i++) {
+    const t = t0 + (t1 - t0) * (i / ARC_LENGTH_SAMPLES);
+    const point = evaluateCurve(curve, t);
+    if (previous) {
+      const d = subtract(point, previous);
+      lengths.push(lengths[lengths.length - 1]! + Math.sqrt(dot(d, d)));
+    }
+    params.push(t);
+    previous = point;
+  }
+  const total = lengths[lengths.length - 1]!;
+  if (!(total > 0)) return relativeParameterCurve(curve);
+
+  return (s) => {
+    const target = Math.min(Math.max(s, 0), 1) * total;
+    let lo = 0;
+    let hi = lengths.length - 1;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (lengths[mid]! <= target) lo = mid;
+      else hi = mid;
+    }
+    const span = lengths[hi]! - lengths[lo]!;
+    const f = span > 0 ? (target - lengths[lo]!) / span : 0;
+    return evaluateCurve(curve, params[lo]! + (params[hi]! - params[lo]!) * f);
+  };
+}
+
+/**
+ * Attach a finite-difference normal. Where the surface degenerates (a generatrix
+ * touching the axis, a ruled surface collapsing to a point) the normal is taken a
+ * little towards the domain centre instead.
+ */
+function withDifferenceNormal(
+  domain: UVDomain,
+  evaluate: (u: number, v: number) => Vec3,
+  uBreaks: number[]
+): SurfaceEvaluator {
+  const { u0, u1, v0, v1 } = domain;
+  const hu = Math.abs(u1 - u0) * 1e-5 || 1e-9;
+  const hv = Math.abs(v1 - v0) * 1e-5 || 1e-9;
+  const uc = (u0 + u1) / 2;
+  const vc = (v0 + v1) / 2;
+  const uMin = Math.min(u0, u1);
+  const uMax = Math.max(u0, u1);
+  const vMin = Math.min(v0, v1);
+  const vMax = Math.max(v0, v1);
+
+  const normal = (u: number, v: number): Vec3 => {
+    let n: Vec3 = { x: 0, y: 0, z: 0 };
+    for (const shift of [0, 1e-3, 1e-2]) {
+      const su = u + (uc - u) * shift;
+      const sv = v + (vc - v) * shift;
+      const ua = Math.max(su - hu, uMin);
+      const ub = Math.min(su + hu, uMax);
+      const va = Math.max(sv - hv, vMin);
+      const vb = Math.min(sv + hv, vMax);
+      const du = scale(subtract(evaluate(ub, sv), evaluate(ua, sv)), 1 / (ub - ua));
+      const dv = scale(subtract(evaluate(su, vb), evaluate(su, va)), 1 / (vb - va));
+      n = cross(du, dv);
+      const length = Math.sqrt(dot(n, n));
+      if (length > 1e-9 * Math.sqrt(dot(du, du) * dot(dv, dv))) return scale(n, 1 / length);
+    }
+    return normalize(n);
+  };
+
+  return { domain, evaluate, normal, uBreaks };
+}
@@ -9,3 +9,33 @@ export function distance2D(a: Vec3, b: Vec3): number {
   const dy = a.y - b.y;
   return Math.hypot(dx, dy);
 }
+
+export function distance3D(a: Vec3, b: Vec3): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+export function add(a: Vec3, b: Vec3): Vec3 {
+  return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
+}
+
+export function subtract(a: Vec3, b: Vec3): Vec3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+export function scale(a: Vec3, s: number): Vec3 {
+  return { x: a.x * s, y: a.y * s, z: a.z * s };
+}
+
+export function dot(a: Vec3, b: Vec3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+export function cross(a: Vec3, b: Vec3): Vec3 {
+  return { x: a.y * b.z - a.z * b.y, y: a.z * b.x - a.x * b.z, z: a.x * b.y - a.y * b.x };
+}
+
+/** Unit vector, or the zero vector unchanged. */
+export function normalize(a: Vec3): Vec3 {
+  const length = Math.hypot(a.x, a.y, a.z);
+  return length > 0 ? scale(a, 1 / length) : a;
+}
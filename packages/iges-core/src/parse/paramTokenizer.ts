@@ -58,8 +58,13 @@ function tryReadHollerithAt(data: string, start: number): { raw: string; length:
 
 /**
  * Tokenize one parameter record into fields using the field delimiter.
+ * With `keepEmpty`, empty (defaulted) fields are kept so indices stay positional.
  */
-export function tokenizeFields(record: string, fieldDelimiter: string): string[] {
+export function tokenizeFields(
+  record: string,
+  fieldDelimiter: string,
+  keepEmpty = false
+): string[] {
   const fields: string[] = [];
   let current = "";
   let i = 0;
@@ -67,11 +72,10 @@ export function tokenizeFields(record: string, fieldDelimiter: string): string[]
   while (i < record.length) {
     const hollerith = tryReadHollerithAt(record, i);
     if (hollerith) {
-      if (current.length > 0) {
+      if (current.trim().length > 0) {
         fields.push(current);
-        current = "";
       }
-      fields.push(hollerith.raw);
+      current = hollerith.raw;
       i += hollerith.length;
       continue;
     }
@@ -88,22 +92,34 @@ export function tokenizeFields(record: string, fieldDelimiter: string): string[]
   }
 
   fields.push(current);
-  return fields.filter((f) => f.length > 0);
+  return keepEmpty ? fields : fields.filter((f) => f.length > 0);
+}
+
+const NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+
+/** Whether a field token is blank (defaulted), a number or a Hollerith string. */
+export function isWellFormedField(token: string): boolean {
+  const trimmed = token.trim();
+  return trimmed.length === 0 || isHollerith(trimmed) || NUMBER.test(trimmed.replace(/[Dd]/g, "e"));
+}
+
+function isHollerith(trimmed: string): boolean {
+  return trimmed.includes("H") && parseHollerith(trimmed) !== undefined;
 }
 
 /**
  * Convert string tokens to typed parameter values.
- * Pointer detection: integer tokens that match known DE sequences are still
- * returned as numbers here; callers use context for pointer fields.
+ * Pointers are returned as numbers here; `typeParameters()` turns the pointer
+ * fields of each entity type's schema into `PointerValue`s.
  */
 export function tokensToParamValues(tokens: string[]): ParamValue[] {
   return tokens.map((token) => {
     const trimmed = token.trim();
-    if (trimmed.includes("H") && parseHollerith(trimmed) !== undefined) {
+    if (isHollerith(trimmed)) {
       return decodeHollerithToken(trimmed);
     }
     const asReal = trimmed.replace(/[Dd]/g, "e");
-    if (/^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/.test(asReal)) {
+    if (NUMBER.test(asReal)) {
       return parseFloat(asReal);
     }
     return trimmed;
@@ -1,12 +1,43 @@
-import type { DirectoryEntry } from "../types.js";
-import { IGESParseError } from "../errors.js";
+import type {
+  Diagnostic,
+  DirectoryEntry,
+  EntityStatus,
+  EntityUse,
+  Hierarchy,
+  ParseMode,
+  SubordinateSwitch,
+} from "../types.js";
+import { reportViolation } from "../diagnostics.js";
 
 const DE_RECORD_LENGTH = 160;
 
+const SUBORDINATE: SubordinateSwitch[] = [
+  "independent",
+  "physicallyDependent",
+  "logicallyDependent",
+  "bothDependent",
+];
+const ENTITY_USE: EntityUse[] = [
+  "geometry",
+  "annotation",
+  "definition",
+  "other",
+  "logicalPositional",
+  "parametric2D",
+  "construction",
+];
+const HIERARCHY: Hierarchy[] = ["globalTopDown", "globalDefer", "useHierarchyProperty"];
+
 /**
  * Parse Directory Entry section (pairs of 80-column lines).
+ * Entries without a sequence number, or with a non-integer in an integer field, are
+ * reported as violations (see `reportViolation()`) and skipped.
  */
-export function parseDirectorySection(directoryText: string): DirectoryEntry[] {
+export function parseDirectorySection(
+  directoryText: string,
+  diagnostics: Diagnostic[] = [],
+  mode: ParseMode = "lenient"
+): DirectoryEntry[] {
   const entries: DirectoryEntry[] = [];
   const padded =
     directoryText.length % DE_RECORD_LENGTH === 0
@@ -25,40 +56,88 @@ export function parseDirectorySection(directoryText: string): DirectoryEntry[] {
 
     const sequence = parseDeSequence(line1);
     if (sequence === null) {
-      throw new IGESParseError("Could not parse DE sequence number", {
-        code: "INVALID_DE_SEQUENCE",
-        context: line1.slice(64, 80),
-      });
+      const line = offset / 80 + 1;
+      reportViolation(
+        {
+          code: "INVALID_DE_SEQUENCE",
+          severity: "error",
+          message: `D line ${line}: could not parse DE sequence number "${line1.slice(72, 80)}"`,
+          section: "D",
+          line,
+        },
+        mode,
+        diagnostics
+      );
+      continue;
     }
 
-    entries.push({
+    const invalid: string[] = [];
+    const int = (line: string, start: number, name: string): number => {
+      const value = parseIntField(line, start, 8);
+      if (Number.isNaN(value)) invalid.push(name);
+      return value || 0;
+    };
+    const entry: DirectoryEntry = {
       sequence,
-      entityType: parseIntField(line1, 0, 8),
-      parameterDataPointer: parseIntField(line1, 8, 8),
-      structure: parseIntField(line1, 16, 8),
-      lineFontPattern: parseIntField(line1, 24, 8),
-      level: parseIntField(line1, 32, 8),
-      view: parseIntField(line1, 40, 8),
-      transformationMatrixPointer: parseIntField(line1, 48, 8),
-      labelDisplayAssociativity: parseIntField(line1, 56, 8),
-      statusNumber: parseIntField(line1, 64, 8),
-      lineWeight: parseIntField(line2, 8, 8),
-      colorNumber: parseIntField(line2, 16, 8),
-      parameterLineCount: parseIntField(line2, 24, 8),
-      formNumber: parseIntField(line2, 32, 8),
-      entityLabel: line2.slice(64, 72).trim(),
-      entitySubscript: parseIntField(line2, 72, 8),
-    });
+      entityType: int(line1, 0, "entity type"),
+      parameterDataPointer: int(line1, 8, "parameter data"),
+      structure: int(line1, 16, "structure"),
+      lineFontPattern: int(line1, 24, "line font pattern"),
+      level: int(line1, 32, "level"),
+      view: int(line1, 40, "view"),
+      transformationMatrixPointer: int(line1, 48, "transformation matrix"),
+      labelDisplayAssociativity: int(line1, 56, "label display"),
+      // Blank status digits read as zeros (see `parseStatusNumber()`).
+      statusNumber: int(line1.slice(64, 72).replace(/ /g, "0"), 0, "status number"),
+      status: parseStatusNumber(line1.slice(64, 72)),
+      lineWeight: int(line2, 8, "line weight"),
+      colorNumber: int(line2, 16, "color number"),
+      parameterLineCount: int(line2, 24, "parameter line count"),
+      formNumber: int(line2, 32, "form number"),
+      entityLabel: line2.slice(56, 64).trim(),
+      entitySubscript: int(line2, 64, "entity subscript"),
+    };
+    if (invalid.length > 0) {
+      reportViolation(
+        {
+          code: "INVALID_DE_FIELD",
+          severity: "error",
+          message: `DE ${sequence}: integer fields hold other values (${invalid.join(", ")})`,
+          deSequence: sequence,
+          section: "D",
+          line: sequence,
+        },
+        mode,
+        diagnostics
+      );
+      continue;
+    }
+    entries.push(entry);
   }
 
   return entries;
 }
 
+/**
+ * Decode the eight-digit DE status field (columns 65–72) into its four two-digit parts:
+ * blank status, subordinate switch, entity use and hierarchy. Blanks read as zeros.
+ */
+export function parseStatusNumber(field: string): EntityStatus {
+  const digits = field.trim().replace(/ /g, "0").padStart(8, "0");
+  const pair = (i: number) => parseInt(digits.slice(2 * i, 2 * i + 2), 10) || 0;
+  return {
+    blanked: pair(0) === 1,
+    subordinate: SUBORDINATE[pair(1)] ?? "independent",
+    entityUse: ENTITY_USE[pair(2)] ?? "geometry",
+    hierarchy: HIERARCHY[pair(3)] ?? "globalTopDown",
+  };
+}
+
+/** Integer field; 0 when blank, NaN when it holds anything but an integer. */
 function parseIntField(line: string, start: number, length: number): number {
   const raw = line.slice(start, start + length).trim();
   if (raw.length === 0) return 0;
-  const value = parseInt(raw, 10);
-  return Number.isFinite(value) ? value : 0;
+  return /^[+-]?\d+$/.test(raw) ? parseInt(raw, 10) : NaN;
 }
 
 /**
@@ -75,15 +154,3 @@ function parseDeSequence(line: string): number | null {
   const seq = parseInt(seqStr, 10);
   return Number.isFinite(seq) && seq > 0 ? seq : null;
 }
-
-export function validateDirectoryCounts(
-  entries: DirectoryEntry[],
-  directoryLineCount: number
-): void {
-  if (directoryLineCount > 0 && entries.length !== directoryLineCount / 2) {
-    throw new IGESParseError(
-      `Directory entity count mismatch: expected ${directoryLineCount / 2}, got ${entries.length}`,
-      { code: "DE_COUNT_MISMATCH" }
-    );
-  }
-}
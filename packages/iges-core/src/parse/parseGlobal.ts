@@ -10,34 +10,25 @@ import type { GlobalSection } from "../types.js";
 export function parseGlobalSection(raw: string): GlobalSection {
   let fieldDelimiter = ",";
   let recordDelimiter = ";";
-  let body = raw;
 
+  // Parameters 1–2 are the delimiters themselves; an empty field means the default.
   if (raw.length > 0 && raw[0] !== fieldDelimiter) {
     const first = extractLeadingHollerith(raw);
-    if (first) {
-      fieldDelimiter = first.value || ",";
-      body = first.rest;
+    if (first?.value) {
+      fieldDelimiter = first.value;
     }
   }
 
-  const records = splitParameterRecords(body, recordDelimiter);
-  const firstRecord = records[0] ?? body;
-  const fields = tokenizeFields(firstRecord, fieldDelimiter);
-
-  if (fields.length > 1) {
-    const second = fields[1];
-    if (second !== undefined) {
-      const decoded = parseHollerith(second.trim());
-      if (decoded !== undefined) {
-        recordDelimiter = decoded;
-      }
+  const second = tokenizeFields(raw, fieldDelimiter, true)[1];
+  if (second !== undefined) {
+    const decoded = parseHollerith(second.trim());
+    if (decoded) {
+      recordDelimiter = decoded;
     }
   }
 
-  // Re-tokenize full body with known delimiters
-  const allRecords = splitParameterRecords(body, recordDelimiter);
-  const globalRecord = allRecords[0] ?? body;
-  const tokens = tokenizeFields(globalRecord, fieldDelimiter);
+  const globalRecord = splitParameterRecords(raw, recordDelimiter)[0] ?? raw;
+  const tokens = tokenizeFields(globalRecord, fieldDelimiter, true);
 
   const str = (index: number, fallback = ""): string => {
     const t = tokens[index];
@@ -95,14 +86,10 @@ export function parseGlobalSection(raw: string): GlobalSection {
   };
 }
 
-function extractLeadingHollerith(raw: string): { value: string; rest: string } | null {
+function extractLeadingHollerith(raw: string): { value: string } | null {
   const hIndex = raw.indexOf("H");
   if (hIndex <= 0) return null;
   const count = parseInt(raw.slice(0, hIndex), 10);
   if (!Number.isFinite(count)) return null;
-  const value = raw.slice(hIndex + 1, hIndex + 1 + count);
-  const rest = raw.slice(hIndex + 1 + count);
-  // Skip field delimiter after hollerith if present
-  const trimmed = rest.startsWith(",") || rest.startsWith(";") ? rest.slice(1) : rest;
-  return { value, rest: trimmed };
+  return { value: raw.slice(hIndex + 1, hIndex + 1 + count) };
 }
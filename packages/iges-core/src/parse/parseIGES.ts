@@ -1,13 +1,20 @@
-import { parseDirectorySection, validateDirectoryCounts } from "./parseDirectory.js";
+import { parseDirectorySection } from "./parseDirectory.js";
 import { parseGlobalSection } from "./parseGlobal.js";
 import { parseParameterSection } from "./parseParameters.js";
 import { parseTerminateSection, splitSections } from "./sections.js";
 import { resolveReferences } from "../resolve/resolveReferences.js";
-import type { IGESModel, ResolvedIGESModel } from "../types.js";
+import { typeParameters } from "../entities/parameterSchema.js";
+import { reportViolation } from "../diagnostics.js";
+import type { Diagnostic, IGESModel, ParseMode, ResolvedIGESModel, SectionId } from "../types.js";
 
 export interface ParseIGESOptions {
   /** Validate T-section line counts against parsed sections. */
   validateLineCounts?: boolean;
+  /**
+   * `"lenient"` (default) records spec violations as diagnostics and skips only the
+   * entities they break; `"strict"` throws an `IGESParseError` on the first one.
+   */
+  mode?: ParseMode;
 }
 
 /**
@@ -15,29 +22,57 @@ export interface ParseIGESOptions {
  */
 export function parseIGES(fileText: string, options: ParseIGESOptions = {}): IGESModel {
   const validateLineCounts = options.validateLineCounts ?? true;
-  const warnings: string[] = [];
+  const mode = options.mode ?? "lenient";
+  const diagnostics: Diagnostic[] = [];
 
-  const sections = splitSections(fileText);
+  const sections = splitSections(fileText, diagnostics, mode);
   const global = parseGlobalSection(sections.global);
-  const directory = parseDirectorySection(sections.directory);
+  const directory = parseDirectorySection(sections.directory, diagnostics, mode);
   const terminate = parseTerminateSection(sections.terminate);
 
   if (validateLineCounts) {
-    try {
-      validateDirectoryCounts(directory, terminate.directoryLineCount);
-    } catch (e) {
-      warnings.push(e instanceof Error ? e.message : String(e));
+    const counts: [SectionId, number][] = [
+      ["S", terminate.startLineCount],
+      ["G", terminate.globalLineCount],
+      ["D", terminate.directoryLineCount],
+      ["P", terminate.parameterLineCount],
+    ];
+    for (const [section, expected] of counts) {
+      const actual = sections.lineCounts[section];
+      if (actual === expected) continue;
+      reportViolation(
+        {
+          code: "LINE_COUNT_MISMATCH",
+          severity: "warning",
+          message: `Terminate section counts ${expected} ${section} lines, found ${actual}`,
+          section: "T",
+          line: 1,
+        },
+        mode,
+        diagnostics
+      );
     }
   }
 
-  const entities = parseParameterSection(sections.parameter, global, directory);
+  const entities = parseParameterSection(
+    sections.parameterLines,
+    global,
+    directory,
+    diagnostics,
+    mode
+  );
+  const deSequences = new Set(entities.keys());
+  for (const entity of entities.values()) {
+    entity.params = typeParameters(entity, deSequences, diagnostics, mode);
+  }
 
   return {
     start: sections.start,
     global,
     entities,
     terminate,
-    warnings,
+    diagnostics,
+    warnings: diagnostics.map((d) => d.message),
   };
 }
 
@@ -48,10 +83,6 @@ export function parseAndResolveIGES(
   fileText: string,
   options?: ParseIGESOptions
 ): ResolvedIGESModel {
-  const model = parseIGES(fileText, options);
-  const resolved = resolveReferences(model);
-  return {
-    ...resolved,
-    warnings: [...model.warnings, ...resolved.warnings],
-  };
+  // The resolved diagnostics already start with the parse diagnostics.
+  return resolveReferences(parseIGES(fileText, options), { mode: options?.mode });
 }
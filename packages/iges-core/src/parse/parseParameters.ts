@@ -1,62 +1,114 @@
-import { parseIgesInt } from "./hollerith.js";
-import { splitParameterRecords, tokenizeFields, tokensToParamValues } from "./paramTokenizer.js";
-import type { GlobalSection, ParamValue, RawEntity } from "../types.js";
+import {
+  isWellFormedField,
+  splitParameterRecords,
+  tokenizeFields,
+  tokensToParamValues,
+} from "./paramTokenizer.js";
+import type { ParameterLine } from "./sections.js";
+import type { Diagnostic, GlobalSection, ParamValue, ParseMode, RawEntity } from "../types.js";
 import type { DirectoryEntry } from "../types.js";
-import { IGESParseError } from "../errors.js";
+import { reportViolation } from "../diagnostics.js";
 
 export interface ParameterRecord {
-  /** DE pointer from P-record columns 65–72 when present in source lines. */
-  dePointer: number | null;
+  /** DE back pointer from P-record columns 65–72 of the record's first line. */
+  dePointer: number;
   entityType: number;
   raw: string;
   params: ParamValue[];
+  /**
+   * First malformed field: 0 for a non-integer entity type, n for parameter n when it is
+   * not blank, a number or a string; null when the record is well formed.
+   */
+  invalidField: number | null;
 }
 
 /**
- * Parse P-section into parameter records and attach to directory entries.
+ * Parse each directory entry's parameter data record: the `parameterLineCount` P lines
+ * starting at sequence `parameterDataPointer`. Lines whose back pointer names another DE,
+ * and records whose entity type differs from the DE's, are reported as violations (see
+ * `reportViolation()`). Entities without a record, or with a malformed field, are skipped.
  */
 export function parseParameterSection(
-  parameterText: string,
+  lines: ParameterLine[],
   global: GlobalSection,
-  directory: DirectoryEntry[]
+  directory: DirectoryEntry[],
+  diagnostics: Diagnostic[],
+  mode: ParseMode = "lenient"
 ): Map<number, RawEntity> {
-  const records = splitParameterRecords(parameterText, global.recordDelimiter);
-  const parsedRecords: ParameterRecord[] = [];
-
-  for (const record of records) {
-    const fields = tokenizeFields(record, global.fieldDelimiter);
-    if (fields.length === 0) continue;
-
-    const typeToken = fields[0] ?? "0";
-    const entityType = parseIgesInt(typeToken);
-    const paramTokens = fields.slice(1);
-    const params = tokensToParamValues(paramTokens);
-
-    parsedRecords.push({
-      dePointer: null,
-      entityType,
-      raw: record,
-      params,
-    });
-  }
-
+  const bySequence = new Map(lines.map((line) => [line.sequence, line]));
   const entities = new Map<number, RawEntity>();
 
-  // Primary mapping: by DE parameter pointer order (standard files)
-  const sortedDe = [...directory].sort((a, b) => a.sequence - b.sequence);
-
-  for (let i = 0; i < sortedDe.length; i++) {
-    const de = sortedDe[i];
-    if (!de) continue;
-
-    const pd =
-      parsedRecords.find((r) => r.dePointer === de.parameterDataPointer) ?? parsedRecords[i];
+  for (const de of [...directory].sort((a, b) => a.sequence - b.sequence)) {
+    const recordLines: ParameterLine[] = [];
+    for (let i = 0; i < Math.max(1, de.parameterLineCount); i++) {
+      const line = bySequence.get(de.parameterDataPointer + i);
+      if (line) recordLines.push(line);
+    }
+    const pd = recordLines.length > 0 ? parseRecord(recordLines, global) : null;
 
     if (!pd) {
-      throw new IGESParseError(`Missing parameter data for DE sequence ${de.sequence}`, {
-        code: "MISSING_PD",
-        context: `entity type ${de.entityType}`,
-      });
+      reportViolation(
+        {
+          code: "MISSING_PD",
+          severity: "error",
+          message: `Missing parameter data for DE sequence ${de.sequence} (entity type ${de.entityType})`,
+          deSequence: de.sequence,
+          section: "D",
+          line: de.sequence,
+        },
+        mode,
+        diagnostics
+      );
+      continue;
+    }
+    if (pd.invalidField !== null) {
+      reportViolation(
+        {
+          code: "INVALID_PD_FIELD",
+          severity: "error",
+          message:
+            pd.invalidField === 0
+              ? `DE ${de.sequence}: parameter data entity type is not an integer`
+              : `DE ${de.sequence}: parameter ${pd.invalidField} is not a number or string`,
+          deSequence: de.sequence,
+          section: "P",
+          line: de.parameterDataPointer,
+        },
+        mode,
+        diagnostics
+      );
+      continue;
+    }
+    const stray = recordLines.find(
+      (line) => line.dePointer !== 0 && line.dePointer !== de.sequence
+    );
+    if (stray) {
+      reportViolation(
+        {
+          code: "PD_BACK_POINTER",
+          severity: "warning",
+          message: `DE ${de.sequence}: parameter line ${stray.sequence} points back at DE ${stray.dePointer}`,
+          deSequence: de.sequence,
+          section: "P",
+          line: stray.sequence,
+        },
+        mode,
+        diagnostics
+      );
+    }
+    if (pd.entityType !== de.entityType) {
+      reportViolation(
+        {
+          code: "PD_TYPE_MISMATCH",
+          severity: "warning",
+          message: `DE ${de.sequence}: parameter data is type ${pd.entityType}, directory entry says ${de.entityType}`,
+          deSequence: de.sequence,
+          section: "P",
+          line: de.parameterDataPointer,
+        },
+        mode,
+        diagnostics
+      );
     }
 
     entities.set(de.sequence, {
@@ -70,3 +122,23 @@ export function parseParameterSection(
 
   return entities;
 }
+
+/** The first record in a run of P lines, or null when they hold none. */
+function parseRecord(lines: ParameterLine[], global: GlobalSection): ParameterRecord | null {
+  const text = lines.map((line) => line.text).join("");
+  const [record] = splitParameterRecords(text, global.recordDelimiter);
+  if (record === undefined) return null;
+
+  // Keep defaulted fields so parameter indices stay positional.
+  const fields = tokenizeFields(record, global.fieldDelimiter, true);
+  const entityType = fields[0]?.trim() ?? "";
+  const typeIsInt = /^[+-]?\d+$/.test(entityType);
+  const malformed = fields.findIndex((field) => !isWellFormedField(field));
+  return {
+    dePointer: lines[0]!.dePointer,
+    entityType: typeIsInt ? parseInt(entityType, 10) : 0,
+    raw: record,
+    params: tokensToParamValues(fields.slice(1)),
+    invalidField: !typeIsInt ? 0 : malformed < 0 ? null : malformed,
+  };
+}
@@ -1,46 +1,94 @@
-import type { SectionId } from "../types.js";
+import type { Diagnostic, ParseMode, SectionId } from "../types.js";
 import { IGESParseError } from "../errors.js";
+import { reportViolation } from "../diagnostics.js";
 
 export interface RawSections {
   start: string;
   global: string;
   directory: string;
   parameter: string;
+  /** P-section lines with their sequence numbers and DE back pointers. */
+  parameterLines: ParameterLine[];
   terminate: string;
+  /** Number of lines read into each section. */
+  lineCounts: Record<SectionId, number>;
+}
+
+/** One P-section line. */
+export interface ParameterLine {
+  /** Sequence number from columns 74–80 (the line's position when missing). */
+  sequence: number;
+  /** DE back pointer from columns 65–72; 0 when missing. */
+  dePointer: number;
+  /** Parameter data, columns 1–64. */
+  text: string;
 }
 
 const SECTION_COLUMN = 72;
 
 /**
  * Split file text into IGES sections (S, G, D, P, T).
- * Each physical line must be at least 73 characters for a valid section marker.
+ * Each physical line must be at least 73 characters for a valid section marker; shorter
+ * lines are skipped. Lines that are not 80 columns, and sequence numbers that do not count
+ * 1, 2, 3, … within each section, are reported as violations (see `reportViolation()`).
  */
-export function splitSections(fileText: string): RawSections {
+export function splitSections(
+  fileText: string,
+  diagnostics: Diagnostic[] = [],
+  mode: ParseMode = "lenient"
+): RawSections {
   const sections: RawSections = {
     start: "",
     global: "",
     directory: "",
     parameter: "",
+    parameterLines: [],
     terminate: "",
+    lineCounts: { S: 0, G: 0, D: 0, P: 0, T: 0 },
   };
 
-  const lines = fileText.split(/\r?\n/).filter((line) => line.length > 0);
+  const lines = fileText.split(/\r?\n/);
 
   for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
     const line = lines[lineIndex] ?? "";
-    if (line.length < 73) {
-      continue;
-    }
+    if (line.length === 0) continue;
 
-    const sectionChar = line[SECTION_COLUMN];
-    if (!sectionChar) continue;
-
-    const section = normalizeSectionId(sectionChar, line);
-    if (!section) {
-      continue;
+    const sectionChar = line.length < 73 ? undefined : line[SECTION_COLUMN];
+    const section = sectionChar ? normalizeSectionId(sectionChar, line) : null;
+    const expected = section ? sections.lineCounts[section] + 1 : 0;
+    if (line.length !== 80) {
+      reportViolation(
+        {
+          code: "LINE_LENGTH",
+          severity: "warning",
+          message: `Line ${lineIndex + 1} is ${line.length} columns, expected 80`,
+          ...(section && { section, line: expected }),
+        },
+        mode,
+        diagnostics
+      );
     }
+    if (!section) continue;
 
     const payload = line.slice(0, 80);
+    const sequence = parseInt(payload.slice(73, 80), 10);
+    if (sequence !== expected) {
+      const numbered = Number.isNaN(sequence)
+        ? "no sequence number"
+        : `sequence number ${sequence}`;
+      reportViolation(
+        {
+          code: "SEQUENCE_NUMBER",
+          severity: "warning",
+          message: `Line ${lineIndex + 1}: ${section} ${numbered}, expected ${expected}`,
+          section,
+          line: expected,
+        },
+        mode,
+        diagnostics
+      );
+    }
+    sections.lineCounts[section] = expected;
 
     switch (section) {
       case "S":
@@ -52,9 +100,16 @@ export function splitSections(fileText: string): RawSections {
       case "D":
         sections.directory += payload;
         break;
-      case "P":
-        sections.parameter += payload.slice(0, 64);
+      case "P": {
+        const text = payload.slice(0, 64);
+        sections.parameter += text;
+        sections.parameterLines.push({
+          sequence: parseInt(payload.slice(73, 80), 10) || sections.parameterLines.length + 1,
+          dePointer: parseInt(payload.slice(64, 72), 10) || 0,
+          text,
+        });
         break;
+      }
       case "T":
         sections.terminate += payload.slice(0, 72).trimEnd();
         break;
@@ -89,10 +144,12 @@ export function parseTerminateSection(text: string): {
   directoryLineCount: number;
   parameterLineCount: number;
 } {
+  // Four 8-column fields, each a section letter and a 7-digit count ("S0000001G0000004…").
+  const count = (field: number) => parseInt(text.slice(8 * field + 1, 8 * field + 8), 10) || 0;
   return {
-    startLineCount: parseInt(text.slice(0, 8), 10) || 0,
-    globalLineCount: parseInt(text.slice(8, 8), 10) || 0,
-    directoryLineCount: parseInt(text.slice(16, 8), 10) || 0,
-    parameterLineCount: parseInt(text.slice(24, 8), 10) || 0,
+    startLineCount: count(0),
+    globalLineCount: count(1),
+    directoryLineCount: count(2),
+    parameterLineCount: count(3),
   };
 }
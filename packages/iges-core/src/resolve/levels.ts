@@ -0,0 +1,24 @@
+import type { GeometryEntity, ResolvedIGESModel } from "../types.js";
+
+/**
+ * Levels an entity is on: its DE level, or the levels of the Definition Levels property
+ * (Type 406 form 1) a negative DE level points at. Level 0 means "no level assigned", which
+ * is also what an unresolved negative pointer gives.
+ */
+export function entityLevels(entity: GeometryEntity): number[] {
+  if (entity.level >= 0) return [entity.level];
+  for (const property of entity.properties) {
+    if (property.kind === "definitionLevels") return property.levels;
+  }
+  return [0];
+}
+
+/** Every level used by the model's top-level geometry and drawing annotations, ascending. */
+export function listLevels(model: ResolvedIGESModel): number[] {
+  const levels = new Set<number>();
+  const entities = [...model.geometry, ...model.drawings.flatMap((d) => d.annotations)];
+  for (const entity of entities) {
+    for (const level of entityLevels(entity)) levels.add(level);
+  }
+  return [...levels].sort((a, b) => a - b);
+}
@@ -0,0 +1,12 @@
+import type { GlobalSection } from "../types.js";
+
+/**
+ * Line thickness in model units for a DE line weight number: weight ÷ maximum line weight
+ * gradations × maximum line weight (Global parameters 16 and 17). Returns 0, the receiving
+ * system's default thickness, for weight 0 or when the Global section gives no maximum.
+ */
+export function lineThickness(global: GlobalSection, lineWeight: number): number {
+  const { maxLineWeightGradations: gradations, maxLineWeight } = global;
+  if (lineWeight <= 0 || gradations <= 0 || maxLineWeight <= 0) return 0;
+  return (Math.min(lineWeight, gradations) / gradations) * maxLineWeight;
+}
@@ -0,0 +1,27 @@
+import { paramNumber, paramString } from "../entities/decodeContext.js";
+import type { IGESColor, RawEntity } from "../types.js";
+
+/** Color numbers 1–8 (IGES 5.3 Table 3). */
+export const STANDARD_COLORS: Readonly<Record<number, IGESColor>> = {
+  1: { r: 0, g: 0, b: 0, name: "Black" },
+  2: { r: 1, g: 0, b: 0, name: "Red" },
+  3: { r: 0, g: 1, b: 0, name: "Green" },
+  4: { r: 0, g: 0, b: 1, name: "Blue" },
+  5: { r: 1, g: 1, b: 0, name: "Yellow" },
+  6: { r: 1, g: 0, b: 1, name: "Magenta" },
+  7: { r: 0, g: 1, b: 1, name: "Cyan" },
+  8: { r: 1, g: 1, b: 1, name: "White" },
+};
+
+/**
+ * Color Definition Entity (Type 314).
+ * CC1, CC2, CC3 — red, green, blue as percentages of full intensity; CNAME (optional).
+ */
+export function parseColor314(entity: RawEntity): IGESColor {
+  const p = entity.params;
+  const channel = (index: number) => Math.min(Math.max(paramNumber(p, index) / 100, 0), 1);
+  const color: IGESColor = { r: channel(0), g: channel(1), b: channel(2) };
+  const name = paramString(p, 3);
+  if (name) color.name = name;
+  return color;
+}
@@ -0,0 +1,41 @@
+import { paramInt, paramNumber } from "../entities/decodeContext.js";
+import type { RawEntity } from "../types.js";
+
+/** A view pointer with its placement on the sheet, before the view is resolved. */
+export interface DrawingViewPointer {
+  view: number;
+  originX: number;
+  originY: number;
+  rotation: number;
+}
+
+/**
+ * Drawing (Type 404), forms 0 and 1.
+ * PD: NV, then NV × (VIEW, XORIGIN, YORIGIN) — form 1 adds ANGLE — then NA and NA
+ * annotation pointers.
+ */
+export function parseDrawing404(entity: RawEntity): {
+  views: DrawingViewPointer[];
+  annotations: number[];
+} {
+  const p = entity.params;
+  const stride = entity.form === 1 ? 4 : 3;
+  const viewCount = Math.max(0, paramInt(p, 0));
+  const views: DrawingViewPointer[] = [];
+  for (let i = 0; i < viewCount; i++) {
+    const base = 1 + stride * i;
+    views.push({
+      view: paramInt(p, base),
+      originX: paramNumber(p, base + 1),
+      originY: paramNumber(p, base + 2),
+      rotation: entity.form === 1 ? paramNumber(p, base + 3) : 0,
+    });
+  }
+
+  const countAt = 1 + stride * viewCount;
+  const annotationCount = Math.max(0, Math.min(paramInt(p, countAt), p.length - countAt - 1));
+  const annotations = Array.from({ length: annotationCount }, (_, i) =>
+    paramInt(p, countAt + 1 + i)
+  );
+  return { views, annotations };
+}
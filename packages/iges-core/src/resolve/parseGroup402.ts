@@ -0,0 +1,21 @@
+import { paramInt } from "../entities/decodeContext.js";
+import type { IGESGroup, RawEntity } from "../types.js";
+
+/** Type 402 forms that group entities: unordered (1, 7) and ordered (14, 15). */
+export const GROUP_FORMS = new Set([1, 7, 14, 15]);
+
+/**
+ * Associativity Instance (Type 402), group forms.
+ * PD: N, then N member DE pointers.
+ */
+export function parseGroup402(entity: RawEntity): Omit<IGESGroup, "properties"> {
+  const p = entity.params;
+  const count = Math.max(0, Math.min(paramInt(p, 0), p.length - 1));
+  return {
+    deSequence: entity.de.sequence,
+    form: entity.form,
+    ordered: entity.form === 14 || entity.form === 15,
+    backPointers: entity.form === 1 || entity.form === 14,
+    members: Array.from({ length: count }, (_, i) => paramInt(p, 1 + i)),
+  };
+}
@@ -0,0 +1,37 @@
+import { paramInt, paramNumber, paramString } from "../entities/decodeContext.js";
+import type { LineFont, LineFontPattern, RawEntity } from "../types.js";
+
+/** DE line font values 1–5 (IGES 5.3 Table 3). */
+export const STANDARD_LINE_FONTS: Readonly<Record<number, LineFontPattern>> = {
+  1: "solid",
+  2: "dashed",
+  3: "phantom",
+  4: "centerline",
+  5: "dotted",
+};
+
+/**
+ * Line Font Definition Entity (Type 304), form 2 (pattern).
+ * M — number of segments; L1…LM — segment lengths; B — hexadecimal string whose bits,
+ * read from the least significant end, say which segments are drawn.
+ * Returns null for form 1 (subfigure templates) and other forms.
+ */
+export function parseLineFont304(entity: RawEntity): LineFont | null {
+  if (entity.form !== 2) return null;
+  const p = entity.params;
+  const count = Math.max(0, Math.min(paramInt(p, 0), p.length - 2));
+  const field = p[1 + count];
+  const pattern = typeof field === "number" ? String(field) : paramString(p, 1 + count);
+  const digits = pattern.replace(/[^0-9a-f]/gi, "");
+  const bit = (i: number) => {
+    const digit = parseInt(digits[digits.length - 1 - Math.floor(i / 4)] ?? "0", 16);
+    return ((digit >> (i % 4)) & 1) === 1;
+  };
+  return {
+    pattern: "defined",
+    segments: Array.from({ length: count }, (_, i) => ({
+      length: paramNumber(p, 1 + i),
+      visible: bit(i),
+    })),
+  };
+}
@@ -0,0 +1,39 @@
+import { paramInt, paramNumber, paramString } from "../entities/decodeContext.js";
+import type { IGESProperty, RawEntity } from "../types.js";
+
+/**
+ * Property Entity (Type 406). PD: NP, then NP values whose meaning depends on the form.
+ * Forms 1, 5, 15, 16 and 17 are decoded; others keep their values as `generic`.
+ */
+export function parseProperty406(entity: RawEntity): IGESProperty {
+  const p = entity.params;
+  const base = { deSequence: entity.de.sequence, form: entity.form };
+  const count = Math.max(0, Math.min(paramInt(p, 0), p.length - 1));
+
+  switch (entity.form) {
+    case 1:
+      return {
+        ...base,
+        kind: "definitionLevels",
+        levels: Array.from({ length: count }, (_, i) => paramInt(p, 1 + i)),
+      };
+    case 5:
+      return {
+        ...base,
+        kind: "lineWidening",
+        width: paramNumber(p, 1),
+        cornering: paramInt(p, 2),
+        extension: paramInt(p, 3),
+        justification: paramInt(p, 4),
+        extensionValue: paramNumber(p, 5),
+      };
+    case 15:
+      return { ...base, kind: "name", name: paramString(p, 1) };
+    case 16:
+      return { ...base, kind: "drawingSize", width: paramNumber(p, 1), height: paramNumber(p, 2) };
+    case 17:
+      return { ...base, kind: "drawingUnits", unitsFlag: paramInt(p, 1), units: paramString(p, 2) };
+    default:
+      return { ...base, kind: "generic", values: p.slice(1, 1 + count) };
+  }
+}
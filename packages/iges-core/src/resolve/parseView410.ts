@@ -0,0 +1,72 @@
+import { paramInt, paramNumber } from "../entities/decodeContext.js";
+import { parameterDiagnostic } from "../diagnostics.js";
+import type { Diagnostic, IGESView, RawEntity, ViewClipBox } from "../types.js";
+
+/** Clipping plane pointers in PD order, with the view-space axis each one bounds. */
+const CLIP_PLANES: Array<[keyof ViewClipBox, "x" | "y" | "z"]> = [
+  ["xMin", "x"],
+  ["yMax", "y"],
+  ["xMax", "x"],
+  ["yMin", "y"],
+  ["zMin", "z"],
+  ["zMax", "z"],
+];
+
+/**
+ * View (Type 410), form 0 (orthographic).
+ * PD: VNO, SCALE (default 1), then clipping plane pointers XVMINP, YVMAXP, XVMAXP,
+ * YVMINP, ZVMINP, ZVMAXP (Type 108, 0 = unbounded). Each plane A·x + B·y + C·z = D
+ * bounds one view-space axis at D divided by that axis' coefficient.
+ */
+export function parseView410(
+  entity: RawEntity,
+  planeAt: (deSequence: number) => RawEntity | undefined,
+  diagnostics: Diagnostic[]
+): Omit<IGESView, "orientation" | "properties"> {
+  const p = entity.params;
+  const seq = entity.de.sequence;
+  const clip: ViewClipBox = {
+    xMin: null,
+    xMax: null,
+    yMin: null,
+    yMax: null,
+    zMin: null,
+    zMax: null,
+  };
+
+  CLIP_PLANES.forEach(([side, axis], i) => {
+    const pointer = paramInt(p, 2 + i);
+    if (pointer <= 0) return;
+    const plane = planeAt(pointer);
+    if (plane?.type !== 108) {
+      diagnostics.push(
+        parameterDiagnostic(
+          entity,
+          "WRONG_REFERENCE_TYPE",
+          `Type 410 DE ${seq}: clipping plane DE ${pointer} is not a Type 108 plane`
+        )
+      );
+      return;
+    }
+    const coefficient = paramNumber(plane.params, axis === "x" ? 0 : axis === "y" ? 1 : 2);
+    if (Math.abs(coefficient) < 1e-12) {
+      diagnostics.push(
+        parameterDiagnostic(
+          entity,
+          "INVALID_GEOMETRY",
+          `Type 410 DE ${seq}: clipping plane DE ${pointer} does not bound ${axis}`
+        )
+      );
+      return;
+    }
+    clip[side] = paramNumber(plane.params, 3) / coefficient;
+  });
+
+  return {
+    deSequence: seq,
+    form: entity.form,
+    viewNumber: paramInt(p, 0),
+    scale: paramNumber(p, 1, 1) || 1,
+    clip,
+  };
+}
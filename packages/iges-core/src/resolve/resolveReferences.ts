@@ -1,65 +1,391 @@
-import { decodeEntity, GEOMETRY_ENTITY_TYPES, META_ENTITY_TYPES } from "../entities/registry.js";
+import {
+  decodeEntity,
+  ENTITY_DECODERS,
+  GEOMETRY_ENTITY_TYPES,
+  META_ENTITY_TYPES,
+} from "../entities/registry.js";
 import type { DecodeContext } from "../entities/decodeContext.js";
-import { transformPoint, multiplyTransforms } from "../math/transform.js";
+import { directoryDiagnostic, parameterDiagnostic } from "../diagnostics.js";
+import { transformDirection, transformPoint, multiplyTransforms } from "../math/transform.js";
+import { normalize } from "../math/vec3.js";
+import { trailingPointers } from "../entities/trailingPointers.js";
+import { parseColor314, STANDARD_COLORS } from "./parseColor314.js";
+import { parseDrawing404 } from "./parseDrawing404.js";
+import { GROUP_FORMS, parseGroup402 } from "./parseGroup402.js";
+import { parseLineFont304, STANDARD_LINE_FONTS } from "./parseLineFont304.js";
+import { parseProperty406 } from "./parseProperty406.js";
 import { parseTransform124 } from "./parseTransform124.js";
-import type { GeometryEntity, IGESModel, ResolvedIGESModel, Transform3D } from "../types.js";
+import { parseView410 } from "./parseView410.js";
+import type {
+  BooleanTreeNode,
+  BooleanTreeOperand,
+  BrepEdge,
+  BrepLoopGeometry,
+  BrepShellGeometry,
+  BrepVertex,
+  Diagnostic,
+  GeometryEntity,
+  IGESColor,
+  IGESDrawing,
+  IGESGroup,
+  IGESModel,
+  IGESProperty,
+  IGESView,
+  LineFont,
+  ParseMode,
+  RawEntity,
+  ResolvedIGESModel,
+  Transform3D,
+} from "../types.js";
 import { IDENTITY_TRANSFORM } from "../types.js";
 
 /**
- * Resolve transformation matrices and decode geometry entities.
+ * Resolve transformation matrices and decode geometry entities. In lenient mode (the
+ * default) an entity whose decoder throws is skipped with a `DECODE_FAILED` diagnostic.
  */
-export function resolveReferences(model: IGESModel): ResolvedIGESModel {
-  const warnings: string[] = [...model.warnings];
+export function resolveReferences(
+  model: IGESModel,
+  options: { mode?: ParseMode } = {}
+): ResolvedIGESModel {
+  const mode = options.mode ?? "lenient";
+  const diagnostics: Diagnostic[] = [...model.diagnostics];
   const transformCache = new Map<number, Transform3D>();
+  const colorCache = new Map<number, IGESColor | null>();
+  const lineFontCache = new Map<number, LineFont | null>();
+  const propertyCache = new Map<number, IGESProperty | null>();
+  const decodeCache = new Map<number, GeometryEntity[]>();
+  const decoding = new Set<number>();
+  /** DE sequences referenced by another entity (drawn as part of their parent). */
+  const referenced = new Set<number>();
 
-  function resolveTransform(deSequence: number): Transform3D {
+  /** World transform of the Type 124 at `deSequence`, which entity `owner` points at. */
+  function resolveTransform(deSequence: number, owner: number): Transform3D {
     if (deSequence === 0) return IDENTITY_TRANSFORM;
     const cached = transformCache.get(deSequence);
     if (cached) return cached;
 
     const raw = model.entities.get(deSequence);
     if (!raw) {
-      warnings.push(`Missing transform entity at DE ${deSequence}`);
+      diagnostics.push(
+        directoryDiagnostic(
+          owner,
+          "MISSING_REFERENCE",
+          `Missing transform entity at DE ${deSequence}`
+        )
+      );
       return IDENTITY_TRANSFORM;
     }
 
     if (raw.type !== 124) {
-      warnings.push(`DE ${deSequence} is not type 124 (got ${raw.type})`);
+      diagnostics.push(
+        directoryDiagnostic(
+          owner,
+          "WRONG_REFERENCE_TYPE",
+          `DE ${deSequence} is not type 124 (got ${raw.type})`
+        )
+      );
       return IDENTITY_TRANSFORM;
     }
 
     const local = parseTransform124(raw);
     const parentPtr = raw.de.transformationMatrixPointer;
-    const world = parentPtr > 0 ? multiplyTransforms(resolveTransform(parentPtr), local) : local;
+    const world =
+      parentPtr > 0 ? multiplyTransforms(resolveTransform(parentPtr, deSequence), local) : local;
 
     transformCache.set(deSequence, world);
     return world;
   }
 
-  const geometry: GeometryEntity[] = [];
+  /** DE color number → RGB: 1–8 are standard colors, negative values point at a Type 314. */
+  function resolveColor(colorNumber: number, owner: number): IGESColor | null {
+    if (colorNumber >= 0) return STANDARD_COLORS[colorNumber] ?? null;
+    const deSequence = -colorNumber;
+    const cached = colorCache.get(deSequence);
+    if (cached !== undefined) return cached;
+
+    let color: IGESColor | null = null;
+    const raw = model.entities.get(deSequence);
+    if (!raw) {
+      diagnostics.push(
+        directoryDiagnostic(owner, "MISSING_REFERENCE", `Missing color entity at DE ${deSequence}`)
+      );
+    } else if (raw.type !== 314) {
+      diagnostics.push(
+        directoryDiagnostic(
+          owner,
+          "WRONG_REFERENCE_TYPE",
+          `DE ${deSequence} is not type 314 (got ${raw.type})`
+        )
+      );
+    } else {
+      color = parseColor314(raw);
+    }
+    colorCache.set(deSequence, color);
+    return color;
+  }
+
+  /** DE line font → pattern: 1–5 are standard fonts, negative values point at a Type 304. */
+  function resolveLineFont(value: number, owner: number): LineFont | null {
+    if (value >= 0) {
+      const pattern = STANDARD_LINE_FONTS[value];
+      return pattern ? { pattern, segments: [] } : null;
+    }
+    const deSequence = -value;
+    const cached = lineFontCache.get(deSequence);
+    if (cached !== undefined) return cached;
+
+    let lineFont: LineFont | null = null;
+    const raw = model.entities.get(deSequence);
+    if (!raw) {
+      diagnostics.push(
+        directoryDiagnostic(
+          owner,
+          "MISSING_REFERENCE",
+          `Missing line font entity at DE ${deSequence}`
+        )
+      );
+    } else if (raw.type !== 304) {
+      diagnostics.push(
+        directoryDiagnostic(
+          owner,
+          "WRONG_REFERENCE_TYPE",
+          `DE ${deSequence} is not type 304 (got ${raw.type})`
+        )
+      );
+    } else {
+      lineFont = parseLineFont304(raw);
+      if (!lineFont) {
+        diagnostics.push(
+          directoryDiagnostic(
+            deSequence,
+            "UNSUPPORTED_FORM",
+            `Type 304 DE ${deSequence}: form ${raw.form} line fonts are drawn solid`,
+            "info"
+          )
+        );
+      }
+    }
+    lineFontCache.set(deSequence, lineFont);
+    return lineFont;
+  }
+
+  /**
+   * Type 406 properties of an entity: the Definition Levels property its DE level field
+   * points at (when negative), then those listed after its parameters.
+   */
+  function resolveProperties(entity: RawEntity): IGESProperty[] {
+    const pointers = trailingPointers(entity)?.properties ?? [];
+    if (entity.de.level < 0) pointers.unshift(-entity.de.level);
+
+    const properties: IGESProperty[] = [];
+    for (const pointer of new Set(pointers)) {
+      const raw = model.entities.get(pointer);
+      let property = propertyCache.get(pointer);
+      if (property === undefined) {
+        property = raw?.type === 406 ? parseProperty406(raw) : null;
+        propertyCache.set(pointer, property);
+      }
+      // Property pointers may also name other entity types (e.g. text templates); skip those.
+      // A negative DE level, though, must name a Type 406 definition levels property.
+      if (property) properties.push(property);
+      else if (!raw) {
+        const message = `Missing property entity at DE ${pointer}`;
+        diagnostics.push(
+          pointer === -entity.de.level
+            ? directoryDiagnostic(entity.de.sequence, "MISSING_REFERENCE", message)
+            : parameterDiagnostic(entity, "MISSING_REFERENCE", message)
+        );
+      } else if (pointer === -entity.de.level && raw.type !== 406) {
+        diagnostics.push(
+          directoryDiagnostic(
+            entity.de.sequence,
+            "WRONG_REFERENCE_TYPE",
+            `DE ${pointer} is not type 406 (got ${raw.type})`
+          )
+        );
+      }
+    }
+    return properties;
+  }
+
+  function decodeAt(deSequence: number): GeometryEntity[] {
+    const cached = decodeCache.get(deSequence);
+    if (cached) return cached;
+
+    const entity = model.entities.get(deSequence);
+    if (!entity) return [];
+
+    if (decoding.has(deSequence)) {
+      diagnostics.push(
+        parameterDiagnostic(entity, "CIRCULAR_REFERENCE", `Circular reference at DE ${deSequence}`)
+      );
+      return [];
+    }
+    decoding.add(deSequence);
+
+    const matrixPtr = entity.de.transformationMatrixPointer;
+    const transform = matrixPtr > 0 ? resolveTransform(matrixPtr, deSequence) : IDENTITY_TRANSFORM;
+
+    const ctx: DecodeContext = {
+      entity,
+      transform,
+      color: resolveColor(entity.de.colorNumber, deSequence),
+      lineFont: resolveLineFont(entity.de.lineFontPattern, deSequence),
+      properties: resolveProperties(entity),
+      global: model.global,
+      diagnostics,
+      decodeReference: (pointer) => decodeReference(pointer, entity),
+    };
+    let decoded: ReturnType<typeof decodeEntity> = null;
+    try {
+      decoded = decodeEntity(ctx);
+    } catch (e) {
+      if (mode === "strict") throw e;
+      const reason = e instanceof Error ? e.message : String(e);
+      diagnostics.push(
+        parameterDiagnostic(
+          entity,
+          "DECODE_FAILED",
+          `Type ${entity.type} DE ${deSequence}: ${reason}`,
+          "error"
+        )
+      );
+    }
+    const items = decoded ? (Array.isArray(decoded) ? decoded : [decoded]) : [];
+    const result = items.map(applyWorldTransform);
+
+    decoding.delete(deSequence);
+    decodeCache.set(deSequence, result);
+    return result;
+  }
+
+  /** Decode the entity at `deSequence`, which `owner`'s parameters point at. */
+  function decodeReference(deSequence: number, owner: RawEntity): GeometryEntity | null {
+    const entity = model.entities.get(deSequence);
+    if (!entity) {
+      diagnostics.push(
+        parameterDiagnostic(
+          owner,
+          "MISSING_REFERENCE",
+          `Missing referenced entity at DE ${deSequence}`
+        )
+      );
+      return null;
+    }
+    if (!ENTITY_DECODERS.has(entity.type)) {
+      diagnostics.push(
+        parameterDiagnostic(
+          owner,
+          "UNSUPPORTED_ENTITY",
+          `Referenced entity type ${entity.type} is not supported (DE ${deSequence})`
+        )
+      );
+      return null;
+    }
+    referenced.add(deSequence);
+    return decodeAt(deSequence)[0] ?? null;
+  }
+
+  const decodedGeometry: GeometryEntity[] = [];
 
   const sorted = [...model.entities.values()].sort((a, b) => a.de.sequence - b.de.sequence);
 
   for (const entity of sorted) {
     if (META_ENTITY_TYPES.has(entity.type)) continue;
+    // Physically dependent entities exist only as part of a parent, which decodes them.
+    const { subordinate } = entity.de.status;
+    if (subordinate === "physicallyDependent" || subordinate === "bothDependent") continue;
     if (!GEOMETRY_ENTITY_TYPES.has(entity.type)) {
       if (entity.type !== 0) {
-        warnings.push(`Skipped unsupported entity type ${entity.type} (DE ${entity.de.sequence})`);
+        diagnostics.push(
+          directoryDiagnostic(
+            entity.de.sequence,
+            "UNSUPPORTED_ENTITY",
+            `Skipped unsupported entity type ${entity.type} (DE ${entity.de.sequence})`
+          )
+        );
       }
       continue;
     }
 
+    decodedGeometry.push(...decodeAt(entity.de.sequence));
+  }
+
+  const views = new Map<number, IGESView>();
+  for (const entity of sorted) {
+    if (entity.type !== 410) continue;
+    if (entity.form !== 0) {
+      diagnostics.push(
+        directoryDiagnostic(
+          entity.de.sequence,
+          "UNSUPPORTED_FORM",
+          `Type 410 DE ${entity.de.sequence}: perspective views (form ${entity.form}) are not supported`
+        )
+      );
+      continue;
+    }
     const matrixPtr = entity.de.transformationMatrixPointer;
-    const transform = matrixPtr > 0 ? resolveTransform(matrixPtr) : IDENTITY_TRANSFORM;
+    views.set(entity.de.sequence, {
+      ...parseView410(entity, (seq) => model.entities.get(seq), diagnostics),
+      orientation:
+        matrixPtr > 0 ? resolveTransform(matrixPtr, entity.de.sequence) : IDENTITY_TRANSFORM,
+      properties: resolveProperties(entity),
+    });
+  }
+
+  // Before the top-level filter: drawing annotations live on their sheet, not in the model.
+  const drawings: IGESDrawing[] = [];
+  for (const entity of sorted) {
+    if (entity.type !== 404) continue;
+    const seq = entity.de.sequence;
+    const parsed = parseDrawing404(entity);
+    const drawingViews = parsed.views.flatMap(({ view: pointer, originX, originY, rotation }) => {
+      const view = views.get(pointer);
+      if (!view) {
+        diagnostics.push(
+          parameterDiagnostic(
+            entity,
+            "WRONG_REFERENCE_TYPE",
+            `Type 404 DE ${seq}: DE ${pointer} is not a supported Type 410 view`
+          )
+        );
+        return [];
+      }
+      return [{ view, origin: { x: originX, y: originY, z: 0 }, rotation }];
+    });
+    const annotations = parsed.annotations.flatMap((pointer) => {
+      const annotation = decodeReference(pointer, entity);
+      return annotation ? [annotation] : [];
+    });
+    drawings.push({
+      deSequence: seq,
+      form: entity.form,
+      views: drawingViews,
+      annotations,
+      properties: resolveProperties(entity),
+    });
+  }
 
-    const ctx: DecodeContext = { entity, transform, warnings };
-    const decoded = decodeEntity(ctx);
-    if (!decoded) continue;
+  const geometry = decodedGeometry.filter((g) => !referenced.has(g.deSequence));
 
-    const items = Array.isArray(decoded) ? decoded : [decoded];
-    for (const item of items) {
-      geometry.push(applyWorldTransform(item));
-    }
+  const groups: IGESGroup[] = [];
+  for (const entity of sorted) {
+    if (entity.type !== 402 || !GROUP_FORMS.has(entity.form)) continue;
+    const group = parseGroup402(entity);
+    const members = group.members.filter((member) => {
+      if (model.entities.has(member)) return true;
+      // Parsing already reported a positive member pointer that names no DE.
+      if (member > 0) return false;
+      diagnostics.push(
+        parameterDiagnostic(
+          entity,
+          "MISSING_REFERENCE",
+          `Type 402 DE ${group.deSequence}: member DE ${member} is missing`
+        )
+      );
+      return false;
+    });
+    groups.push({ ...group, members, properties: resolveProperties(entity) });
   }
 
   return {
@@ -67,14 +393,21 @@ export function resolveReferences(model: IGESModel): ResolvedIGESModel {
     start: model.start,
     entities: model.entities,
     geometry,
-    warnings,
+    groups,
+    views: [...views.values()],
+    drawings,
+    diagnostics,
+    warnings: diagnostics.map((d) => d.message),
   };
 }
 
 function applyWorldTransform(entity: GeometryEntity): GeometryEntity {
   const t = entity.transform;
   if (t === IDENTITY_TRANSFORM) return entity;
+  return transformGeometry(entity, t);
+}
 
+function transformGeometry(entity: GeometryEntity, t: Transform3D): GeometryEntity {
   switch (entity.kind) {
     case "point":
       return { ...entity, position: transformPoint(t, entity.position) };
@@ -93,6 +426,8 @@ function applyWorldTransform(entity: GeometryEntity): GeometryEntity {
         center,
         start,
         end,
+        xAxis: normalize(transformDirection(t, entity.xAxis)),
+        yAxis: normalize(transformDirection(t, entity.yAxis)),
         transform: IDENTITY_TRANSFORM,
       };
     }
@@ -108,7 +443,266 @@ function applyWorldTransform(entity: GeometryEntity): GeometryEntity {
         controlPoints: entity.controlPoints.map((p) => transformPoint(t, p)),
         transform: IDENTITY_TRANSFORM,
       };
+    case "conicArc":
+      return {
+        ...entity,
+        start: transformPoint(t, entity.start),
+        end: transformPoint(t, entity.end),
+        center: transformPoint(t, entity.center),
+        axisU: transformDirection(t, entity.axisU),
+        axisV: transformDirection(t, entity.axisV),
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "parametricSplineCurve":
+      return {
+        ...entity,
+        segments: entity.segments.map((s) => ({
+          a: transformPoint(t, s.a),
+          b: transformDirection(t, s.b),
+          c: transformDirection(t, s.c),
+          d: transformDirection(t, s.d),
+        })),
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "nurbsSurface":
+      return {
+        ...entity,
+        controlPoints: entity.controlPoints.map((row) => row.map((p) => transformPoint(t, p))),
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "compositeCurve":
+      // Segments carry their own transforms already; only the parent's is applied here.
+      return {
+        ...entity,
+        segments: entity.segments.map((s) => transformGeometry(s, t) as typeof s),
+        gaps: entity.gaps.map((gap) => ({
+          ...gap,
+          from: transformPoint(t, gap.from),
+          to: transformPoint(t, gap.to),
+        })),
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "direction":
+      return {
+        ...entity,
+        vector: transformDirection(t, entity.vector),
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "planeSurface":
+    case "cylindricalSurface":
+    case "conicalSurface":
+    case "sphericalSurface":
+    case "toroidalSurface":
+      // Radii are kept as-is: the placement is assumed to be rigid.
+      return {
+        ...entity,
+        location: transformPoint(t, entity.location),
+        axis: normalize(transformDirection(t, entity.axis)),
+        refDirection: normalize(transformDirection(t, entity.refDirection)),
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "ruledSurface":
+      return {
+        ...entity,
+        curve1: transformGeometry(entity.curve1, t) as typeof entity.curve1,
+        curve2: transformGeometry(entity.curve2, t) as typeof entity.curve2,
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "surfaceOfRevolution":
+      return {
+        ...entity,
+        axis: transformGeometry(entity.axis, t) as typeof entity.axis,
+        generatrix: transformGeometry(entity.generatrix, t) as typeof entity.generatrix,
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "tabulatedCylinder":
+      return {
+        ...entity,
+        directrix: transformGeometry(entity.directrix, t) as typeof entity.directrix,
+        generatrixEnd: transformPoint(t, entity.generatrixEnd),
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "blockSolid":
+    case "wedgeSolid":
+    case "cylinderSolid":
+    case "coneSolid":
+    case "sphereSolid":
+    case "torusSolid":
+    case "ellipsoidSolid":
+      // Like the analytic surfaces, dimensions assume a rigid placement.
+      return {
+        ...entity,
+        location: transformPoint(t, entity.location),
+        axis: normalize(transformDirection(t, entity.axis)),
+        refDirection: normalize(transformDirection(t, entity.refDirection)),
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "revolutionSolid":
+      return {
+        ...entity,
+        curve: transformGeometry(entity.curve, t) as typeof entity.curve,
+        location: transformPoint(t, entity.location),
+        axis: normalize(transformDirection(t, entity.axis)),
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "extrusionSolid":
+      return {
+        ...entity,
+        curve: transformGeometry(entity.curve, t) as typeof entity.curve,
+        direction: normalize(transformDirection(t, entity.direction)),
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "solidInstance":
+      return {
+        ...entity,
+        solid: transformGeometry(entity.solid, t) as typeof entity.solid,
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "booleanTree":
+      return {
+        ...entity,
+        root: transformBooleanNode(entity.root, t),
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "curveOnSurface":
+      // The parameter-space curve lives in (u, v) and is left untouched.
+      return {
+        ...entity,
+        surface: entity.surface && (transformGeometry(entity.surface, t) as typeof entity.surface),
+        modelCurve:
+          entity.modelCurve &&
+          (transformGeometry(entity.modelCurve, t) as typeof entity.modelCurve),
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "trimmedSurface":
+      return {
+        ...entity,
+        surface: transformGeometry(entity.surface, t) as typeof entity.surface,
+        outer: entity.outer && (transformGeometry(entity.outer, t) as typeof entity.outer),
+        inner: entity.inner.map((c) => transformGeometry(c, t) as typeof c),
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "vertexList":
+      return {
+        ...entity,
+        vertices: entity.vertices.map((p) => transformPoint(t, p)),
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "edgeList":
+      return {
+        ...entity,
+        edges: entity.edges.map((e) => transformEdge(e, t)),
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "brepLoop":
+      return transformLoop(entity, t);
+    case "brepFace":
+      return {
+        ...entity,
+        surface: transformGeometry(entity.surface, t) as typeof entity.surface,
+        outer: entity.outer && transformLoop(entity.outer, t),
+        inner: entity.inner.map((loop) => transformLoop(loop, t)),
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "brepShell":
+      return transformShell(entity, t);
+    case "brepSolid":
+      return {
+        ...entity,
+        shell: transformShell(entity.shell, t),
+        voids: entity.voids.map((v) => ({ ...v, shell: transformShell(v.shell, t) })),
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "note":
+      return {
+        ...entity,
+        strings: entity.strings.map((s) => ({
+          ...s,
+          start: transformPoint(t, s.start),
+          xAxis: transformDirection(t, s.xAxis),
+          yAxis: transformDirection(t, s.yAxis),
+        })),
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "leader":
+      return {
+        ...entity,
+        tip: transformPoint(t, entity.tip),
+        points: entity.points.map((p) => transformPoint(t, p)),
+        normal: normalize(transformDirection(t, entity.normal)),
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "dimension":
+      // Parts carry their own transforms already; only the dimension's is applied here.
+      return {
+        ...entity,
+        note: entity.note && (transformGeometry(entity.note, t) as typeof entity.note),
+        leaders: entity.leaders.map((l) => transformGeometry(l, t) as typeof l),
+        witnessLines: entity.witnessLines.map((w) => transformGeometry(w, t) as typeof w),
+        center: entity.center && transformPoint(t, entity.center),
+        outline: entity.outline && (transformGeometry(entity.outline, t) as typeof entity.outline),
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "subfigureDefinition":
+      return {
+        ...entity,
+        members: entity.members.map((m) => transformGeometry(m, t)),
+        transform: IDENTITY_TRANSFORM,
+      };
+    case "subfigureInstance":
+      // Only the placement moves; the shared definition stays in its own space.
+      return {
+        ...entity,
+        placement: multiplyTransforms(t, entity.placement),
+        transform: IDENTITY_TRANSFORM,
+      };
     default:
       return entity;
   }
 }
+
+function transformBooleanNode(node: BooleanTreeNode, t: Transform3D): BooleanTreeNode {
+  const operand = (o: BooleanTreeOperand): BooleanTreeOperand =>
+    "operation" in o
+      ? transformBooleanNode(o, t)
+      : { ...o, solid: o.solid && (transformGeometry(o.solid, t) as typeof o.solid) };
+  return { ...node, left: operand(node.left), right: operand(node.right) };
+}
+
+// B-rep vertices and edges keep their keys, so shared topology still matches after transforming.
+function transformVertex(vertex: BrepVertex, t: Transform3D): BrepVertex {
+  return { ...vertex, position: transformPoint(t, vertex.position) };
+}
+
+function transformEdge(edge: BrepEdge, t: Transform3D): BrepEdge {
+  return {
+    ...edge,
+    curve: edge.curve && (transformGeometry(edge.curve, t) as typeof edge.curve),
+    start: transformVertex(edge.start, t),
+    end: transformVertex(edge.end, t),
+  };
+}
+
+function transformLoop(loop: BrepLoopGeometry, t: Transform3D): BrepLoopGeometry {
+  // Parameter-space curves live in (u, v) and are left untouched.
+  return {
+    ...loop,
+    coedges: loop.coedges.map((c) => ({
+      ...c,
+      edge: c.edge && transformEdge(c.edge, t),
+      vertex: c.vertex && transformVertex(c.vertex, t),
+    })),
+    transform: IDENTITY_TRANSFORM,
+  };
+}
+
+function transformShell(shell: BrepShellGeometry, t: Transform3D): BrepShellGeometry {
+  return {
+    ...shell,
+    faces: shell.faces.map((f) => ({
+      ...f,
+      face: transformGeometry(f.face, t) as typeof f.face,
+    })),
+    transform: IDENTITY_TRANSFORM,
+  };
+}
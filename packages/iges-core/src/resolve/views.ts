@@ -0,0 +1,54 @@
+import { paramInt } from "../entities/decodeContext.js";
+import type {
+  GeometryEntity,
+  IGESDrawingView,
+  IGESView,
+  RawEntity,
+  ResolvedIGESModel,
+  Transform3D,
+} from "../types.js";
+
+/**
+ * Top-level geometry shown in a view: entities whose DE view field is 0 (all views),
+ * the view itself, or a Views Visible associativity (Type 402 form 3, 4 or 19) listing it.
+ * The per-view display attributes of forms 4 and 19 are not applied.
+ */
+export function viewGeometry(model: ResolvedIGESModel, view: IGESView): GeometryEntity[] {
+  return model.geometry.filter((g) => {
+    const pointer = model.entities.get(g.deSequence)?.de.view ?? 0;
+    if (pointer === 0 || pointer === view.deSequence) return true;
+    const target = model.entities.get(pointer);
+    return target?.type === 402 && visibleViews(target).includes(view.deSequence);
+  });
+}
+
+/**
+ * Where each Views Visible form keeps its view pointers: the first one and the step to the
+ * next. Form 3: NV, NE, NV views, NE entities. Form 4: NV, NE, NV blocks of (view, line
+ * font, font definition, color, line weight), NE entities. Form 19: NB, NB blocks of
+ * (view, breakpoint, display flag, color, line font, line weight).
+ */
+const VIEW_POINTERS: Record<number, { first: number; step: number }> = {
+  3: { first: 2, step: 1 },
+  4: { first: 2, step: 5 },
+  19: { first: 1, step: 6 },
+};
+
+/** View pointers of a Views Visible associativity; empty for other Type 402 forms. */
+function visibleViews({ form, params }: RawEntity): number[] {
+  const layout = VIEW_POINTERS[form];
+  if (!layout) return [];
+  return Array.from({ length: paramInt(params, 0) }, (_, i) =>
+    paramInt(params, layout.first + layout.step * i)
+  );
+}
+
+/** View space → drawing space for a placed view: scale, rotate, then move to the origin. */
+export function drawingViewPlacement({ view, origin, rotation }: IGESDrawingView): Transform3D {
+  const c = Math.cos(rotation) * view.scale;
+  const s = Math.sin(rotation) * view.scale;
+  return {
+    matrix: [c, -s, 0, s, c, 0, 0, 0, view.scale],
+    translation: { ...origin },
+  };
+}
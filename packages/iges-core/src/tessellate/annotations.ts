@@ -0,0 +1,119 @@
+import type { DimensionGeometry, LeaderGeometry, Vec3 } from "../types.js";
+import { sampleCurve } from "../math/curves.js";
+import type { CurveSampleOptions } from "../math/curves.js";
+import { add, cross, dot, normalize, scale, subtract } from "../math/vec3.js";
+
+/** Sides of the polygon drawn for circular arrowheads. */
+const CIRCLE_SIDES = 12;
+
+/**
+ * Line-segment pairs (two points per segment) for a leader and its arrowhead. With
+ * `arcCenter`, the first segment is drawn as an arc about it (angular dimensions).
+ * Filled arrowheads are drawn as outlines.
+ */
+export function leaderStrokes(
+  leader: LeaderGeometry,
+  options: { arcCenter?: Vec3 | null; arcSegments?: number } = {}
+): Vec3[] {
+  const { arcCenter, arcSegments = 48 } = options;
+  const path = [leader.tip];
+  const [first, ...rest] = leader.points;
+  if (first && arcCenter) path.push(...arcBetween(leader, arcCenter, first, arcSegments));
+  else if (first) path.push(first);
+  path.push(...rest);
+
+  const segments = polylineSegments(path);
+  if (path.length > 1) segments.push(...arrowhead(leader, path[1]!));
+  return segments;
+}
+
+/**
+ * Line-segment pairs for a dimension's leaders, arrowheads, witness lines and outline.
+ * The note is left to the caller (see `noteStrokes()`).
+ */
+export function dimensionStrokes(
+  dimension: DimensionGeometry,
+  options: CurveSampleOptions = {}
+): Vec3[] {
+  const arcCenter = dimension.dimensionType === "angular" ? dimension.center : null;
+  const segments = dimension.leaders.flatMap((leader) =>
+    leaderStrokes(leader, { arcCenter, arcSegments: options.arcSegments })
+  );
+  for (const witness of dimension.witnessLines) segments.push(...polylineSegments(witness.points));
+  if (dimension.outline) {
+    segments.push(...polylineSegments(sampleCurve(dimension.outline, options)));
+  }
+  return segments;
+}
+
+function polylineSegments(points: Vec3[]): Vec3[] {
+  const segments: Vec3[] = [];
+  for (let i = 0; i + 1 < points.length; i++) segments.push(points[i]!, points[i + 1]!);
+  return segments;
+}
+
+/** Points after the tip along the arc about `center`, ending at `end`; the radius blends. */
+function arcBetween(leader: LeaderGeometry, center: Vec3, end: Vec3, arcSegments: number): Vec3[] {
+  const from = subtract(leader.tip, center);
+  const to = subtract(end, center);
+  const r0 = Math.hypot(from.x, from.y, from.z);
+  const r1 = Math.hypot(to.x, to.y, to.z);
+  if (r0 < 1e-12 || r1 < 1e-12) return [end];
+
+  const u = scale(from, 1 / r0);
+  const v = normalize(cross(leader.normal, u));
+  const sweep = Math.atan2(dot(to, v), dot(to, u));
+  const steps = Math.max(1, Math.ceil((Math.abs(sweep) / (2 * Math.PI)) * arcSegments));
+  const points: Vec3[] = [];
+  for (let i = 1; i < steps; i++) {
+    const f = i / steps;
+    const angle = sweep * f;
+    const r = r0 + (r1 - r0) * f;
+    points.push(add(center, add(scale(u, r * Math.cos(angle)), scale(v, r * Math.sin(angle)))));
+  }
+  points.push(end);
+  return points;
+}
+
+/** Arrowhead outline at the leader tip, pointing away from `toward`. */
+function arrowhead(leader: LeaderGeometry, toward: Vec3): Vec3[] {
+  const { tip, arrowHeight: h, arrowWidth: w } = leader;
+  const d = subtract(toward, tip);
+  if (Math.hypot(d.x, d.y, d.z) < 1e-12 || h <= 0) return [];
+  const along = normalize(d);
+  const across = normalize(cross(leader.normal, along));
+  const at = (a: number, b: number) => add(tip, add(scale(along, a), scale(across, b)));
+
+  switch (leader.arrowhead) {
+    case "none":
+      return [];
+    case "wedge":
+    case "openTriangle":
+      return [tip, at(h, w / 2), tip, at(h, -w / 2)];
+    case "triangle":
+    case "filledTriangle":
+      return polylineSegments([tip, at(h, w / 2), at(h, -w / 2), tip]);
+    case "rectangle":
+    case "filledRectangle":
+      return polylineSegments([
+        at(0, w / 2),
+        at(h, w / 2),
+        at(h, -w / 2),
+        at(0, -w / 2),
+        at(0, w / 2),
+      ]);
+    case "slash":
+    case "integralSign":
+      return [at(-h / 2, -h / 2), at(h / 2, h / 2)];
+    case "circle":
+    case "filledCircle":
+    case "dimensionOrigin": {
+      const ring: Vec3[] = [];
+      for (let i = 0; i <= CIRCLE_SIDES; i++) {
+        const angle = (2 * Math.PI * i) / CIRCLE_SIDES;
+        ring.push(at((h / 2) * Math.cos(angle), (h / 2) * Math.sin(angle)));
+      }
+      return polylineSegments(ring);
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import type {
+  BrepEdge,
+  BrepFaceGeometry,
+  BrepLoopGeometry,
+  BrepShellGeometry,
+  BrepSolidGeometry,
+  MeshData,
+  Vec3,
+} from "../types.js";
+import { sampleCurve } from "../math/curves.js";
+import { boundedDomain, closestSurfaceParameter, surfaceEvaluator } from "../math/surfaces.js";
+import type { SurfaceEvaluator } from "../math/surfaces.js";
+import { distance3D } from "../math/vec3.js";
+import { mergeMeshData } from "./mesh.js";
+import { domainLoop, tessellateTrimmedRegion } from "./trimmed.js";
+import type { TrimLoop, TrimmedTessellationOptions } from "./trimmed.js";
+import type { Point2 } from "./triangulate.js";
+
+/** Edge samples keyed by `BrepEdge.key`, shared by every face of a solid. */
+type EdgeSamples = Map<string, Vec3[]>;
+
+/**
+ * One mesh for a Type 186 solid: the outer shell and any void shells, each face
+ * oriented by its shell flags. Every edge is sampled once and reused verbatim by
+ * both faces that share it, so face boundaries coincide exactly (no cracks or
+ * T-junctions). Vertices are not merged across faces, keeping crease normals sharp.
+ */
+export function tessellateBrepSolid(
+  solid: BrepSolidGeometry,
+  options: TrimmedTessellationOptions = {}
+): MeshData {
+  const edges: EdgeSamples = new Map();
+  return mergeMeshData([
+    shellMesh(solid.shell, !solid.shellSameSense, edges, options),
+    ...solid.voids.map((v) => shellMesh(v.shell, !v.sameSense, edges, options)),
+  ]);
+}
+
+/** One mesh for a Type 514 shell (see {@link tessellateBrepSolid}). */
+export function tessellateBrepShell(
+  shell: BrepShellGeometry,
+  options: TrimmedTessellationOptions = {}
+): MeshData {
+  return shellMesh(shell, false, new Map(), options);
+}
+
+/** Tessellate a single Type 510 face in its surface's orientation. */
+export function tessellateBrepFace(
+  face: BrepFaceGeometry,
+  options: TrimmedTessellationOptions = {}
+): MeshData {
+  return faceMesh(face, new Map(), options);
+}
+
+function shellMesh(
+  shell: BrepShellGeometry,
+  flip: boolean,
+  edges: EdgeSamples,
+  options: TrimmedTessellationOptions
+): MeshData {
+  return mergeMeshData(
+    shell.faces.map(({ face, sameSense }) => {
+      const mesh = faceMesh(face, edges, options);
+      return sameSense === flip ? reverseMesh(mesh) : mesh;
+    })
+  );
+}
+
+function faceMesh(
+  face: BrepFaceGeometry,
+  edges: EdgeSamples,
+  options: TrimmedTessellationOptions
+): MeshData {
+  const { uSegments = 24, vSegments = 24, unboundedExtent = 1 } = options;
+  const evaluator = surfaceEvaluator(face.surface);
+  const outer =
+    (face.outer && loopToTrim(face.outer, evaluator, edges, options)) ??
+    domainLoop(boundedDomain(evaluator.domain, unboundedExtent), uSegments, vSegments);
+  const holes = face.inner
+    .map((loop) => loopToTrim(loop, evaluator, edges, options))
+    .filter((loop): loop is TrimLoop => loop !== null);
+  return tessellateTrimmedRegion(evaluator, outer, holes, options);
+}
+
+/** Walk a loop's coedges into one polyline and project it to (u, v) with continuous seeds. */
+function loopToTrim(
+  loop: BrepLoopGeometry,
+  evaluator: SurfaceEvaluator,
+  edges: EdgeSamples,
+  options: TrimmedTessellationOptions
+): TrimLoop | null {
+  const points: Vec3[] = [];
+  const append = (samples: Vec3[]) => {
+    for (const p of samples) {
+      const last = points[points.length - 1];
+      if (!last || distance3D(last, p) > 0) points.push(p);
+    }
+  };
+
+  for (const coedge of loop.coedges) {
+    if (coedge.edge) {
+      const samples = edgeSamples(coedge.edge, edges, options);
+      append(coedge.sameSense ? samples : [...samples].reverse());
+    } else if (coedge.vertex) {
+      append([coedge.vertex.position]);
+    }
+  }
+  if (points.length < 3) return null;
+
+  const uv: Point2[] = [];
+  let seed: { u: number; v: number } | undefined;
+  for (const point of points) {
+    seed = closestSurfaceParameter(evaluator, point, seed);
+    uv.push({ x: seed.u, y: seed.v });
+  }
+  return { uv, points };
+}
+
+/** Samples from the edge's start vertex to its end vertex, with the vertices placed exactly. */
+function edgeSamples(edge: BrepEdge, cache: EdgeSamples, options: TrimmedTessellationOptions) {
+  const cached = cache.get(edge.key);
+  if (cached) return cached;
+
+  const start = edge.start.position;
+  const end = edge.end.position;
+  let samples = edge.curve ? sampleCurve(edge.curve, options) : [start, end];
+  const first = samples[0];
+  if (first && start !== end && distance3D(first, end) < distance3D(first, start)) {
+    // Curve stored against the edge direction.
+    samples = [...samples].reverse();
+  }
+  samples = [start, ...samples.slice(1, -1), end];
+
+  cache.set(edge.key, samples);
+  return samples;
+}
+
+function reverseMesh(mesh: MeshData): MeshData {
+  const indices: number[] = [];
+  for (let i = 0; i + 2 < mesh.indices.length; i += 3) {
+    indices.push(mesh.indices[i]!, mesh.indices[i + 2]!, mesh.indices[i + 1]!);
+  }
+  return { positions: mesh.positions, normals: mesh.normals.map((n) => -n), indices };
+}
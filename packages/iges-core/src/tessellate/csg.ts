@@ -0,0 +1,275 @@
+import type { BooleanOperation, MeshData, Vec3 } from "../types.js";
+import { add, cross, dot, normalize, scale, subtract } from "../math/vec3.js";
+
+/**
+ * Boolean of two closed, outward-oriented triangle meshes by BSP-tree clipping
+ * (after Naylor, and Wallace's csg.js). `difference` is `a − b`. Vertex normals are
+ * interpolated along cut edges, so smooth surfaces stay smooth after the cut.
+ */
+export function booleanMesh(a: MeshData, b: MeshData, operation: BooleanOperation): MeshData {
+  const empty = (mesh: MeshData) => mesh.indices.length === 0;
+  if (empty(a) || empty(b)) {
+    if (operation === "intersection") return { positions: [], normals: [], indices: [] };
+    if (operation === "difference" || empty(b)) return a;
+    return b;
+  }
+
+  const epsilon = 1e-7 * Math.max(meshSize(a), meshSize(b), 1);
+  const nodeA = new BspNode(epsilon, toPolygons(a, epsilon));
+  const nodeB = new BspNode(epsilon, toPolygons(b, epsilon));
+
+  switch (operation) {
+    case "union":
+      nodeA.clipTo(nodeB);
+      nodeB.clipTo(nodeA);
+      nodeB.invert();
+      nodeB.clipTo(nodeA);
+      nodeB.invert();
+      nodeA.build(nodeB.allPolygons());
+      break;
+    case "difference":
+      nodeA.invert();
+      nodeA.clipTo(nodeB);
+      nodeB.clipTo(nodeA);
+      nodeB.invert();
+      nodeB.clipTo(nodeA);
+      nodeB.invert();
+      nodeA.build(nodeB.allPolygons());
+      nodeA.invert();
+      break;
+    case "intersection":
+      nodeA.invert();
+      nodeB.clipTo(nodeA);
+      nodeB.invert();
+      nodeA.clipTo(nodeB);
+      nodeB.clipTo(nodeA);
+      nodeA.build(nodeB.allPolygons());
+      nodeA.invert();
+      break;
+  }
+  return fromPolygons(nodeA.allPolygons());
+}
+
+interface Vertex {
+  position: Vec3;
+  normal: Vec3;
+}
+
+interface Plane {
+  normal: Vec3;
+  w: number;
+}
+
+interface Polygon {
+  vertices: Vertex[];
+  plane: Plane;
+}
+
+const COPLANAR = 0;
+const FRONT = 1;
+const BACK = 2;
+const SPANNING = 3;
+
+function meshSize({ positions }: MeshData): number {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i++) {
+    const axis = i % 3;
+    min[axis] = Math.min(min[axis]!, positions[i]!);
+    max[axis] = Math.max(max[axis]!, positions[i]!);
+  }
+  return Math.hypot(max[0]! - min[0]!, max[1]! - min[1]!, max[2]! - min[2]!);
+}
+
+/** Triangles as polygons; degenerate (zero-area) triangles are dropped. */
+function toPolygons({ positions, normals, indices }: MeshData, epsilon: number): Polygon[] {
+  const vertex = (i: number): Vertex => ({
+    position: { x: positions[3 * i]!, y: positions[3 * i + 1]!, z: positions[3 * i + 2]! },
+    normal: { x: normals[3 * i] ?? 0, y: normals[3 * i + 1] ?? 0, z: normals[3 * i + 2] ?? 0 },
+  });
+  const polygons: Polygon[] = [];
+  for (let t = 0; t + 2 < indices.length; t += 3) {
+    const vertices = [vertex(indices[t]!), vertex(indices[t + 1]!), vertex(indices[t + 2]!)];
+    const [p, q, r] = vertices.map((v) => v.position) as [Vec3, Vec3, Vec3];
+    const n = cross(subtract(q, p), subtract(r, p));
+    const length = Math.sqrt(dot(n, n));
+    if (length <= epsilon * epsilon) continue;
+    const normal = scale(n, 1 / length);
+    polygons.push({ vertices, plane: { normal, w: dot(normal, p) } });
+  }
+  return polygons;
+}
+
+/** Fan-triangulate the (convex) result polygons. */
+function fromPolygons(polygons: Polygon[]): MeshData {
+  const mesh: MeshData = { positions: [], normals: [], indices: [] };
+  for (const polygon of polygons) {
+    const offset = mesh.positions.length / 3;
+    for (const { position, normal } of polygon.vertices) {
+      const n = normalize(normal);
+      mesh.positions.push(position.x, position.y, position.z);
+      mesh.normals.push(n.x, n.y, n.z);
+    }
+    for (let i = 1; i + 1 < polygon.vertices.length; i++) {
+      mesh.indices.push(offset, offset + i, offset + i + 1);
+    }
+  }
+  return mesh;
+}
+
+function flip(polygon: Polygon): Polygon {
+  return {
+    vertices: polygon.vertices
+      .map((v) => ({ position: v.position, normal: scale(v.normal, -1) }))
+      .reverse(),
+    plane: { normal: scale(polygon.plane.normal, -1), w: -polygon.plane.w },
+  };
+}
+
+/** Sort `polygon` into the four lists relative to `plane`, splitting it when it spans. */
+function splitPolygon(
+  plane: Plane,
+  polygon: Polygon,
+  epsilon: number,
+  coplanarFront: Polygon[],
+  coplanarBack: Polygon[],
+  front: Polygon[],
+  back: Polygon[]
+): void {
+  let polygonType = 0;
+  const types = polygon.vertices.map((v) => {
+    const t = dot(plane.normal, v.position) - plane.w;
+    const type = t < -epsilon ? BACK : t > epsilon ? FRONT : COPLANAR;
+    polygonType |= type;
+    return type;
+  });
+
+  switch (polygonType) {
+    case COPLANAR:
+      (dot(plane.normal, polygon.plane.normal) > 0 ? coplanarFront : coplanarBack).push(polygon);
+      return;
+    case FRONT:
+      front.push(polygon);
+      return;
+    case BACK:
+      back.push(polygon);
+      return;
+    case SPANNING: {
+      const f: Vertex[] = [];
+      const b: Vertex[] = [];
+      const count = polygon.vertices.length;
+      for (let i = 0; i < count; i++) {
+        const j = (i + 1) % count;
+        const ti = types[i]!;
+        const tj = types[j]!;
+        const vi = polygon.vertices[i]!;
+        const vj = polygon.vertices[j]!;
+        if (ti !== BACK) f.push(vi);
+        if (ti !== FRONT) b.push(vi);
+        if ((ti | tj) === SPANNING) {
+          const d = subtract(vj.position, vi.position);
+          const t = (plane.w - dot(plane.normal, vi.position)) / dot(plane.normal, d);
+          const v: Vertex = {
+            position: add(vi.position, scale(d, t)),
+            normal: add(vi.normal, scale(subtract(vj.normal, vi.normal), t)),
+          };
+          f.push(v);
+          b.push(v);
+        }
+      }
+      if (f.length >= 3) front.push({ vertices: f, plane: polygon.plane });
+      if (b.length >= 3) back.push({ vertices: b, plane: polygon.plane });
+    }
+  }
+}
+
+/**
+ * BSP tree node. Traversals use explicit stacks: a convex mesh degenerates into a
+ * chain as deep as its face count.
+ */
+class BspNode {
+  plane: Plane | null = null;
+  polygons: Polygon[] = [];
+  front: BspNode | null = null;
+  back: BspNode | null = null;
+
+  constructor(
+    private readonly epsilon: number,
+    polygons: Polygon[] = []
+  ) {
+    if (polygons.length > 0) this.build(polygons);
+  }
+
+  private nodes(): BspNode[] {
+    const all: BspNode[] = [];
+    const stack: BspNode[] = [this];
+    for (let node = stack.pop(); node; node = stack.pop()) {
+      all.push(node);
+      if (node.front) stack.push(node.front);
+      if (node.back) stack.push(node.back);
+    }
+    return all;
+  }
+
+  /** Swap solid space and empty space. */
+  invert(): void {
+    for (const node of this.nodes()) {
+      node.polygons = node.polygons.map(flip);
+      if (node.plane) node.plane = { normal: scale(node.plane.normal, -1), w: -node.plane.w };
+      [node.front, node.back] = [node.back, node.front];
+    }
+  }
+
+  /** Remove the parts of `polygons` that lie inside this tree's solid. */
+  clipPolygons(polygons: Polygon[]): Polygon[] {
+    const kept: Polygon[] = [];
+    const stack: [BspNode, Polygon[]][] = [[this, polygons]];
+    for (let item = stack.pop(); item; item = stack.pop()) {
+      const [node, list] = item;
+      if (!node.plane) {
+        kept.push(...list);
+        continue;
+      }
+      const front: Polygon[] = [];
+      const back: Polygon[] = [];
+      for (const polygon of list) {
+        splitPolygon(node.plane, polygon, this.epsilon, front, back, front, back);
+      }
+      if (node.front) stack.push([node.front, front]);
+      else kept.push(...front);
+      if (node.back) stack.push([node.back, back]);
+    }
+    return kept;
+  }
+
+  /** Remove the parts of this tree's polygons that lie inside `other`. */
+  clipTo(other: BspNode): void {
+    for (const node of this.nodes()) node.polygons = other.clipPolygons(node.polygons);
+  }
+
+  allPolygons(): Polygon[] {
+    return this.nodes().flatMap((node) => node.polygons);
+  }
+
+  build(polygons: Polygon[]): void {
+    const stack: [BspNode, Polygon[]][] = [[this, polygons]];
+    for (let item = stack.pop(); item; item = stack.pop()) {
+      const [node, list] = item;
+      if (list.length === 0) continue;
+      node.plane ??= list[0]!.plane;
+      const front: Polygon[] = [];
+      const back: Polygon[] = [];
+      for (const polygon of list) {
+        splitPolygon(node.plane, polygon, this.epsilon, node.polygons, node.polygons, front, back);
+      }
+      if (front.length > 0) {
+        node.front ??= new BspNode(this.epsilon);
+        stack.push([node.front, front]);
+      }
+      if (back.length > 0) {
+        node.back ??= new BspNode(this.epsilon);
+        stack.push([node.back, back]);
+      }
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import type { MeshData } from "../types.js";
+
+/**
+ * Area-weighted vertex normals for an indexed triangle mesh.
+ * Vertices shared between triangles get smooth normals.
+ */
+export function computeVertexNormals(positions: number[], indices: number[]): number[] {
+  const normals = new Array<number>(positions.length).fill(0);
+
+  for (let i = 0; i + 2 < indices.length; i += 3) {
+    const a = indices[i]! * 3;
+    const b = indices[i + 1]! * 3;
+    const c = indices[i + 2]! * 3;
+    const abx = positions[b]! - positions[a]!;
+    const aby = positions[b + 1]! - positions[a + 1]!;
+    const abz = positions[b + 2]! - positions[a + 2]!;
+    const acx = positions[c]! - positions[a]!;
+    const acy = positions[c + 1]! - positions[a + 1]!;
+    const acz = positions[c + 2]! - positions[a + 2]!;
+    const nx = aby * acz - abz * acy;
+    const ny = abz * acx - abx * acz;
+    const nz = abx * acy - aby * acx;
+    for (const v of [a, b, c]) {
+      normals[v] = normals[v]! + nx;
+      normals[v + 1] = normals[v + 1]! + ny;
+      normals[v + 2] = normals[v + 2]! + nz;
+    }
+  }
+
+  for (let v = 0; v < normals.length; v += 3) {
+    const length = Math.hypot(normals[v]!, normals[v + 1]!, normals[v + 2]!);
+    if (length > 0) {
+      normals[v] = normals[v]! / length;
+      normals[v + 1] = normals[v + 1]! / length;
+      normals[v + 2] = normals[v + 2]! / length;
+    }
+  }
+
+  return normals;
+}
+
+/** Concatenate meshes into one, offsetting indices. */
+export function mergeMeshData(meshes: MeshData[]): MeshData {
+  const merged: MeshData = { positions: [], normals: [], indices: [] };
+  for (const mesh of meshes) {
+    const offset = merged.positions.length / 3;
+    // Element-wise pushes: spreading large arrays overflows the call stack.
+    for (const value of mesh.positions) merged.positions.push(value);
+    for (const value of mesh.normals) merged.normals.push(value);
+    for (const index of mesh.indices) merged.indices.push(index + offset);
+  }
+  return merged;
+}
@@ -0,0 +1,392 @@
+import type {
+  ExtrusionSolidGeometry,
+  MeshData,
+  PrimitiveSolidBase,
+  PrimitiveSolidGeometry,
+  RevolutionSolidGeometry,
+  Vec3,
+} from "../types.js";
+import { sampleCurve } from "../math/curves.js";
+import { add, cross, dot, normalize, scale, subtract, vec3 } from "../math/vec3.js";
+import { perpendicular } from "../entities/placement.js";
+import { mergeMeshData } from "./mesh.js";
+import type { TrimmedTessellationOptions } from "./trimmed.js";
+import { orientLoop, signedArea, triangulateRegion } from "./triangulate.js";
+import type { Point2 } from "./triangulate.js";
+
+/**
+ * `uSegments` divides every full turn about an axis and `vSegments` every curved
+ * profile (sphere meridian, torus tube); curves are sampled with the curve options.
+ */
+export type SolidTessellationOptions = TrimmedTessellationOptions;
+
+/** Adjacent faces meeting at more than this angle keep separate (sharp) normals. */
+const CREASE_COS = Math.cos((30 * Math.PI) / 180);
+
+/**
+ * Closed, outward-oriented mesh of a CSG primitive (Types 150–168). Flat faces and
+ * creases get their own vertices so edges shade sharply; curved faces use exact normals.
+ */
+export function tessellatePrimitiveSolid(
+  solid: PrimitiveSolidGeometry | RevolutionSolidGeometry | ExtrusionSolidGeometry,
+  options: SolidTessellationOptions = {}
+): MeshData {
+  const { uSegments = 24, vSegments = 24 } = options;
+  switch (solid.kind) {
+    case "blockSolid": {
+      const { x, y, z } = solid.size;
+      const outline = [vec3(0, 0, 0), vec3(x, 0, 0), vec3(x, y, 0), vec3(0, y, 0)];
+      return place(solid, extrudeLoop(outline, vec3(0, 0, 1), vec3(0, 0, z), false));
+    }
+    case "wedgeSolid": {
+      const { x, y, z } = solid.size;
+      const top = solid.topLength;
+      const outline =
+        top > 0
+          ? [vec3(0, 0, 0), vec3(x, 0, 0), vec3(top, y, 0), vec3(0, y, 0)]
+          : [vec3(0, 0, 0), vec3(x, 0, 0), vec3(0, y, 0)];
+      return place(solid, extrudeLoop(outline, vec3(0, 0, 1), vec3(0, 0, z), false));
+    }
+    case "cylinderSolid": {
+      const { height: h, radius: r } = solid;
+      return place(
+        solid,
+        lathe(
+          [
+            [point(0, h, 0, 1), point(r, h, 0, 1)],
+            [point(r, h, 1, 0), point(r, 0, 1, 0)],
+            [point(r, 0, 0, -1), point(0, 0, 0, -1)],
+          ],
+          uSegments
+        )
+      );
+    }
+    case "coneSolid": {
+      const { height: h, radius: r1, topRadius: r2 } = solid;
+      const slope = normalize(vec3(h, r1 - r2, 0));
+      const runs = [
+        [point(r2, h, slope.x, slope.y), point(r1, 0, slope.x, slope.y)],
+        [point(r1, 0, 0, -1), point(0, 0, 0, -1)],
+      ];
+      if (r2 > 0) runs.unshift([point(0, h, 0, 1), point(r2, h, 0, 1)]);
+      return place(solid, lathe(runs, uSegments));
+    }
+    case "sphereSolid":
+      return place(
+        solid,
+        lathe([arcProfile(0, solid.radius, Math.PI / 2, -Math.PI / 2, vSegments)], uSegments)
+      );
+    case "torusSolid":
+      return place(
+        solid,
+        lathe(
+          [arcProfile(solid.majorRadius, solid.minorRadius, Math.PI, -Math.PI, vSegments)],
+          uSegments
+        )
+      );
+    case "ellipsoidSolid": {
+      const unit = lathe([arcProfile(0, 1, Math.PI / 2, -Math.PI / 2, vSegments)], uSegments);
+      const { x, y, z } = solid.size;
+      return place(solid, {
+        positions: unit.positions.map((value, i) => value * [x, y, z][i % 3]!),
+        // Normals of a scaled surface scale by the inverse.
+        normals: renormalize(unit.normals.map((value, i) => value / [x, y, z][i % 3]!)),
+        indices: unit.indices,
+      });
+    }
+    case "revolutionSolid":
+      return revolutionMesh(solid, options);
+    case "extrusionSolid":
+      return extrusionMesh(solid, options);
+  }
+}
+
+/** Point of a lathe profile: radius, height and the 2D outward normal (nr, nz). */
+interface ProfilePoint {
+  r: number;
+  z: number;
+  nr: number;
+  nz: number;
+}
+
+function point(r: number, z: number, nr: number, nz: number): ProfilePoint {
+  return { r, z, nr, nz };
+}
+
+/** Circle of `radius` about (`centerR`, 0) from angle `from` to `to`, with radial normals. */
+function arcProfile(
+  centerR: number,
+  radius: number,
+  from: number,
+  to: number,
+  segments: number
+): ProfilePoint[] {
+  return Array.from({ length: segments + 1 }, (_, i) => {
+    const angle = from + (to - from) * (i / segments);
+    const c = Math.cos(angle);
+    const s = Math.sin(angle);
+    const r = centerR + radius * c;
+    // Snap the poles onto the axis so the lathe closes them with fans.
+    return point(Math.abs(r) < 1e-12 * radius ? 0 : r, radius * s, c, s);
+  });
+}
+
+/**
+ * Revolve profile runs counter-clockwise about local +Z through `turn` radians.
+ * Each run is a smooth strip; runs meet at creases. Profiles must run clockwise in
+ * the (r, z) half-plane so that faces point outwards. Points on the axis become fans.
+ */
+function lathe(runs: ProfilePoint[][], segments: number, turn = 2 * Math.PI): MeshData {
+  const ring = segments + 1;
+  return mergeMeshData(
+    runs.map((run) => {
+      const mesh: MeshData = { positions: [], normals: [], indices: [] };
+      for (const p of run) {
+        for (let j = 0; j <= segments; j++) {
+          const angle = (turn * j) / segments;
+          const c = Math.cos(angle);
+          const s = Math.sin(angle);
+          mesh.positions.push(p.r * c, p.r * s, p.z);
+          mesh.normals.push(p.nr * c, p.nr * s, p.nz);
+        }
+      }
+      for (let i = 0; i + 1 < run.length; i++) {
+        const onAxisA = run[i]!.r === 0;
+        const onAxisB = run[i + 1]!.r === 0;
+        if (onAxisA && onAxisB) continue;
+        for (let j = 0; j < segments; j++) {
+          const a = i * ring + j;
+          const b = a + ring;
+          if (onAxisA) mesh.indices.push(a, b, b + 1);
+          else if (onAxisB) mesh.indices.push(a, b, a + 1);
+          else mesh.indices.push(a, b, b + 1, a, b + 1, a + 1);
+        }
+      }
+      return mesh;
+    })
+  );
+}
+
+/**
+ * Sweep a closed planar loop by `offset`, with flat caps. `planeNormal` orients the
+ * loop; side normals are smoothed across vertices where `smooth` and the turn is gentle.
+ */
+function extrudeLoop(loop: Vec3[], planeNormal: Vec3, offset: Vec3, smooth: boolean): MeshData {
+  const xAxis = perpendicular(planeNormal);
+  const yAxis = cross(planeNormal, xAxis);
+  const flat = loop.map((p) => ({ x: dot(p, xAxis), y: dot(p, yAxis) }));
+  // Counter-clockwise about the normal that points along the sweep.
+  const up = dot(planeNormal, offset) >= 0 ? planeNormal : scale(planeNormal, -1);
+  const ccw = signedArea(flat) > 0 === (up === planeNormal);
+  const points = ccw ? loop : [...loop].reverse();
+  const plane = ccw ? flat : [...flat].reverse();
+
+  const count = points.length;
+  const edgeNormals = points.map((p, i) =>
+    normalize(cross(subtract(points[(i + 1) % count]!, p), offset))
+  );
+  const sides: MeshData = { positions: [], normals: [], indices: [] };
+  for (const run of loopRuns(edgeNormals, smooth)) {
+    const offsetIndex = sides.positions.length / 3;
+    for (const { index, normal } of run) {
+      const bottom = points[index % count]!;
+      const top = add(bottom, offset);
+      sides.positions.push(bottom.x, bottom.y, bottom.z, top.x, top.y, top.z);
+      sides.normals.push(normal.x, normal.y, normal.z, normal.x, normal.y, normal.z);
+    }
+    for (let k = 0; k + 1 < run.length; k++) {
+      const a = offsetIndex + 2 * k;
+      sides.indices.push(a, a + 2, a + 3, a, a + 3, a + 1);
+    }
+  }
+
+  // Counter-clockwise about `up` in 2D too, so triangle indices follow `points`.
+  const upward = up === planeNormal ? plane : plane.map((p) => ({ x: p.x, y: -p.y }));
+  const { triangles } = triangulateRegion(upward);
+  const cap = (lift: Vec3, normal: Vec3, reverse: boolean): MeshData => ({
+    positions: points.flatMap((p) => {
+      const q = add(p, lift);
+      return [q.x, q.y, q.z];
+    }),
+    normals: points.flatMap(() => [normal.x, normal.y, normal.z]),
+    indices: reverse ? [...triangles].reverse() : triangles,
+  });
+  return mergeMeshData([sides, cap(vec3(0, 0, 0), scale(up, -1), true), cap(offset, up, false)]);
+}
+
+/**
+ * Split a closed loop (edge i runs from vertex i to i + 1) into runs between creases.
+ * Each entry gives a vertex index (possibly ≥ count, meaning wrapped) and its normal:
+ * the edge normal at creases, the average of both edge normals elsewhere.
+ */
+function loopRuns(edgeNormals: Vec3[], smooth: boolean): { index: number; normal: Vec3 }[][] {
+  const count = edgeNormals.length;
+  const edge = (i: number) => edgeNormals[((i % count) + count) % count]!;
+  const crease = (i: number) => !smooth || dot(edge(i - 1), edge(i)) < CREASE_COS;
+  let start = 0;
+  while (start < count && !crease(start)) start++;
+  if (start === count) start = 0;
+
+  const runs: { index: number; normal: Vec3 }[][] = [];
+  let run: { index: number; normal: Vec3 }[] = [];
+  for (let k = 0; k <= count; k++) {
+    const index = start + k;
+    const averaged = normalize(add(edge(index - 1), edge(index)));
+    if (k === 0) {
+      run.push({ index, normal: crease(index) ? edge(index) : averaged });
+    } else if (k === count) {
+      run.push({ index, normal: crease(index) ? edge(index - 1) : averaged });
+      runs.push(run);
+    } else if (crease(index)) {
+      run.push({ index, normal: edge(index - 1) });
+      runs.push(run);
+      run = [{ index, normal: edge(index) }];
+    } else {
+      run.push({ index, normal: averaged });
+    }
+  }
+  return runs;
+}
+
+/** Type 162: the profile in the (r, z) half-plane of the axis, revolved by F · 2π. */
+function revolutionMesh(
+  solid: RevolutionSolidGeometry,
+  options: SolidTessellationOptions
+): MeshData {
+  const { uSegments = 24 } = options;
+  const { location, axis } = solid;
+  const samples = sampleCurve(solid.curve, options);
+  const radial = (p: Vec3) => {
+    const d = subtract(p, location);
+    return subtract(d, scale(axis, dot(d, axis)));
+  };
+  const offAxis = samples.map(radial).find((r) => dot(r, r) > 1e-18);
+  if (!offAxis) return { positions: [], normals: [], indices: [] };
+  const xAxis = normalize(offAxis);
+
+  const size = Math.max(...samples.map((p) => Math.sqrt(dot(radial(p), radial(p)))));
+  let profile: Point2[] = samples.map((p) => {
+    const d = subtract(p, location);
+    const r = dot(d, xAxis);
+    // Points on the axis must be exactly r = 0 for the lathe to close them with fans.
+    return { x: Math.abs(r) < 1e-9 * size ? 0 : r, y: dot(d, axis) };
+  });
+  profile = dedupeLoop(profile);
+  if (solid.closedToAxis) {
+    const first = profile[0];
+    const last = profile[profile.length - 1];
+    if (first && last) profile.push({ x: 0, y: last.y }, { x: 0, y: first.y });
+    profile = dedupeLoop(profile);
+  }
+  if (profile.length < 3) return { positions: [], normals: [], indices: [] };
+  const clockwise = orientLoop(profile, false);
+
+  // Outward normal of a clockwise (r, z) loop edge (dr, dz) is (−dz, dr).
+  const edgeNormals = clockwise.map((p, i) => {
+    const q = clockwise[(i + 1) % clockwise.length]!;
+    return normalize(vec3(-(q.y - p.y), q.x - p.x, 0));
+  });
+  const runs = loopRuns(edgeNormals, true).map((run) =>
+    run.map(({ index, normal }) => {
+      const p = clockwise[index % clockwise.length]!;
+      return point(p.x, p.y, normal.x, normal.y);
+    })
+  );
+  const turn = 2 * Math.PI * solid.fraction;
+  const segments = Math.max(1, Math.ceil(uSegments * solid.fraction));
+  const meshes = [lathe(runs, segments, turn)];
+
+  if (solid.fraction < 1) {
+    // The first cap lies in the (r, z) half-plane at angle 0 and faces −Y.
+    const ccw = orientLoop(profile, true);
+    const { triangles } = triangulateRegion(ccw);
+    const c = Math.cos(turn);
+    const s = Math.sin(turn);
+    meshes.push(
+      {
+        positions: ccw.flatMap((p) => [p.x, 0, p.y]),
+        normals: ccw.flatMap(() => [0, -1, 0]),
+        indices: triangles,
+      },
+      {
+        positions: ccw.flatMap((p) => [p.x * c, p.x * s, p.y]),
+        normals: ccw.flatMap(() => [-s, c, 0]),
+        indices: [...triangles].reverse(),
+      }
+    );
+  }
+  const yAxis = cross(axis, xAxis);
+  return toWorld(mergeMeshData(meshes), location, xAxis, yAxis, axis);
+}
+
+/** Type 164: the closed curve swept by L along its direction. */
+function extrusionMesh(solid: ExtrusionSolidGeometry, options: SolidTessellationOptions): MeshData {
+  const loop = dedupeLoop(sampleCurve(solid.curve, options));
+  if (loop.length < 3) return { positions: [], normals: [], indices: [] };
+  return extrudeLoop(loop, newellNormal(loop), scale(solid.direction, solid.length), true);
+}
+
+/** Drop repeated vertices and the closing duplicate. */
+function dedupeLoop<T extends Point2 | Vec3>(loop: T[]): T[] {
+  const same = (a: T, b: T) =>
+    Math.abs(a.x - b.x) < 1e-12 &&
+    Math.abs(a.y - b.y) < 1e-12 &&
+    Math.abs(("z" in a ? a.z : 0) - ("z" in b ? b.z : 0)) < 1e-12;
+  const out: T[] = [];
+  for (const p of loop) {
+    const last = out[out.length - 1];
+    if (!last || !same(last, p)) out.push(p);
+  }
+  const first = out[0];
+  const last = out[out.length - 1];
+  if (out.length > 1 && first && last && same(first, last)) out.pop();
+  return out;
+}
+
+/** Unit normal of a planar polygon (Newell's method). */
+function newellNormal(loop: Vec3[]): Vec3 {
+  let n = vec3(0, 0, 0);
+  loop.forEach((a, i) => {
+    const b = loop[(i + 1) % loop.length]!;
+    n = add(
+      n,
+      vec3((a.y - b.y) * (a.z + b.z), (a.z - b.z) * (a.x + b.x), (a.x - b.x) * (a.y + b.y))
+    );
+  });
+  return normalize(n);
+}
+
+function renormalize(normals: number[]): number[] {
+  for (let i = 0; i < normals.length; i += 3) {
+    const length = Math.hypot(normals[i]!, normals[i + 1]!, normals[i + 2]!);
+    if (length > 0) {
+      normals[i] = normals[i]! / length;
+      normals[i + 1] = normals[i + 1]! / length;
+      normals[i + 2] = normals[i + 2]! / length;
+    }
+  }
+  return normals;
+}
+
+/** Map a mesh from a primitive's local frame into model space. */
+function place(solid: PrimitiveSolidBase, mesh: MeshData): MeshData {
+  const { location, axis, refDirection } = solid;
+  return toWorld(mesh, location, refDirection, cross(axis, refDirection), axis);
+}
+
+function toWorld(mesh: MeshData, origin: Vec3, x: Vec3, y: Vec3, z: Vec3): MeshData {
+  const map = (values: number[], base: Vec3 | null) => {
+    const out: number[] = [];
+    for (let i = 0; i < values.length; i += 3) {
+      let p = add(add(scale(x, values[i]!), scale(y, values[i + 1]!)), scale(z, values[i + 2]!));
+      if (base) p = add(base, p);
+      out.push(p.x, p.y, p.z);
+    }
+    return out;
+  };
+  return {
+    positions: map(mesh.positions, origin),
+    normals: map(mesh.normals, null),
+    indices: mesh.indices,
+  };
+}
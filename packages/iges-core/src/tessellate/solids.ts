@@ -0,0 +1,42 @@
+import type { BooleanTreeGeometry, BooleanTreeOperand, MeshData, SolidGeometry } from "../types.js";
+import { tessellateBrepSolid } from "./brep.js";
+import { booleanMesh } from "./csg.js";
+import { tessellatePrimitiveSolid } from "./primitives.js";
+import type { SolidTessellationOptions } from "./primitives.js";
+
+/** Closed, outward-oriented mesh of any solid: primitive, B-rep, instance or Boolean tree. */
+export function tessellateSolid(
+  solid: SolidGeometry,
+  options: SolidTessellationOptions = {}
+): MeshData {
+  switch (solid.kind) {
+    case "brepSolid":
+      return tessellateBrepSolid(solid, options);
+    case "solidInstance":
+      return tessellateSolid(solid.solid, options);
+    case "booleanTree":
+      return tessellateBooleanTree(solid, options);
+    default:
+      return tessellatePrimitiveSolid(solid, options);
+  }
+}
+
+/**
+ * Evaluate a Type 180 tree bottom-up with mesh Booleans. Operands that could not be
+ * decoded (`unevaluatedOperands`) count as empty: a union ignores them, a difference
+ * keeps its left side, an intersection with them is empty.
+ */
+export function tessellateBooleanTree(
+  tree: BooleanTreeGeometry,
+  options: SolidTessellationOptions = {}
+): MeshData {
+  const evaluate = (operand: BooleanTreeOperand): MeshData => {
+    if (!("operation" in operand)) {
+      return operand.solid
+        ? tessellateSolid(operand.solid, options)
+        : { positions: [], normals: [], indices: [] };
+    }
+    return booleanMesh(evaluate(operand.left), evaluate(operand.right), operand.operation);
+  };
+  return evaluate(tree.root);
+}
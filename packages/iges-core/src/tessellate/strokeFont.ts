@@ -0,0 +1,141 @@
+import type { NoteGeometry, NoteText, Vec3 } from "../types.js";
+import { add, scale } from "../math/vec3.js";
+
+/**
+ * Single-stroke glyphs on a 4 × 6 grid (baseline at y = 0, cap height at y = 6). Each
+ * glyph is a space-separated list of polylines written as "xy" digit pairs.
+ */
+const GLYPHS: Record<string, string> = {
+  A: "002640 1333",
+  B: "00063645443303 3342413000",
+  C: "4536160501103041",
+  D: "00063645413000",
+  E: "40000646 0333",
+  F: "000646 0333",
+  G: "45361605011030414323",
+  H: "0006 4046 0343",
+  I: "1636 2620 1030",
+  J: "0110304146",
+  K: "0006 460340",
+  L: "060040",
+  M: "0006244640",
+  N: "00064046",
+  O: "100105163645413010",
+  P: "00063645443303",
+  Q: "100105163645413010 2240",
+  R: "00063645443303 2340",
+  S: "453616050413334241301001",
+  T: "0646 2620",
+  U: "060110304146",
+  V: "062046",
+  W: "0610233046",
+  X: "0046 0640",
+  Y: "062346 2320",
+  Z: "06460040",
+  "0": "100105163645413010 4105",
+  "1": "152620 1030",
+  "2": "05163645440040",
+  "3": "0516364544334241301001 1333",
+  "4": "30360242",
+  "5": "460603334241301001",
+  "6": "4536160501103041423303",
+  "7": "064610",
+  "8": "13040516364544331302011030414233",
+  "9": "4313040516364541301001",
+  ".": "2021",
+  ",": "2110",
+  "-": "0343",
+  "+": "0343 2125",
+  "=": "0242 0444",
+  _: "0040",
+  "/": "0046",
+  ":": "2021 2425",
+  "(": "36252130",
+  ")": "16252110",
+  "<": "450341",
+  ">": "054301",
+  "'": "2625",
+  '"': "1615 3635",
+  "*": "0244 0442 2125",
+  "#": "1016 3036 0242 0444",
+  "!": "2622 2021",
+  "?": "05163645442322 2021",
+  "°": "2526363525",
+  " ": "",
+};
+
+/** Drawn for characters without a glyph. */
+const MISSING_GLYPH = "0006464000";
+
+/** Glyph polylines in grid units, parsed once per character. */
+const glyphCache = new Map<string, Array<Array<[number, number]>>>();
+
+function glyph(char: string): Array<Array<[number, number]>> {
+  const key = char in GLYPHS ? char : char.toUpperCase();
+  let strokes = glyphCache.get(key);
+  if (!strokes) {
+    const source = GLYPHS[key] ?? MISSING_GLYPH;
+    strokes = source
+      .split(" ")
+      .filter((s) => s.length > 0)
+      .map((s) => {
+        const points: Array<[number, number]> = [];
+        for (let i = 0; i + 1 < s.length; i += 2) points.push([Number(s[i]), Number(s[i + 1])]);
+        return points;
+      });
+    glyphCache.set(key, strokes);
+  }
+  return strokes;
+}
+
+/**
+ * Line-segment pairs (two points per segment) drawing one note string with a simple
+ * stroke font. Characters share the text box evenly: across its width, or down its
+ * height for vertical text. Slant, mirroring and the string's axes are applied.
+ */
+export function noteTextStrokes(note: NoteText): Vec3[] {
+  const chars = Array.from(note.text);
+  const n = chars.length;
+  if (n === 0) return [];
+
+  const { boxWidth: width, boxHeight: height } = note;
+  const sin = Math.sin(note.slantAngle);
+  const shear = Math.abs(sin) > 1e-9 ? Math.cos(note.slantAngle) / sin : 0;
+
+  const toWorld = (x: number, y: number): Vec3 => {
+    let u = x;
+    let v = y;
+    if (note.mirror === 1) u = width - u;
+    if (note.mirror === 2) v = -v;
+    return add(note.start, add(scale(note.xAxis, u), scale(note.yAxis, v)));
+  };
+
+  const segments: Vec3[] = [];
+  chars.forEach((char, i) => {
+    // Cell origin and size in text-box units.
+    const cellWidth = note.vertical ? width : width / n;
+    const cellHeight = note.vertical ? height / n : height;
+    const x0 = note.vertical ? 0 : i * cellWidth;
+    const y0 = note.vertical ? height - (i + 1) * cellHeight : 0;
+    const glyphHeight = note.vertical ? 0.8 * cellHeight : cellHeight;
+    const gy0 = note.vertical ? y0 + 0.1 * cellHeight : y0;
+
+    for (const stroke of glyph(char)) {
+      for (let k = 0; k + 1 < stroke.length; k++) {
+        for (const [gx, gy] of [stroke[k]!, stroke[k + 1]!]) {
+          // Slant leans each glyph about its own baseline.
+          const rise = (gy / 6) * glyphHeight;
+          segments.push(
+            toWorld(x0 + (0.15 + (0.7 * gx) / 4) * cellWidth + rise * shear, gy0 + rise)
+          );
+        }
+      }
+    }
+  });
+  return segments;
+}
+
+/** Line-segment pairs for every string of a General Note (Type 212). */
+export function noteStrokes(note: NoteGeometry): Vec3[] {
+  return note.strings.flatMap((s) => noteTextStrokes(s));
+}
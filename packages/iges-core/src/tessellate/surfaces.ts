@@ -0,0 +1,91 @@
+import type { MeshData, SurfaceGeometry } from "../types.js";
+import { boundedDomain, surfaceEvaluator } from "../math/surfaces.js";
+import type { SurfaceEvaluator } from "../math/surfaces.js";
+import { computeVertexNormals } from "./mesh.js";
+
+export interface SurfaceTessellationOptions {
+  /** Grid divisions along U (default 24). */
+  uSegments?: number;
+  /** Grid divisions along V (default 24). */
+  vSegments?: number;
+  /** Half-size used for unbounded parameters, e.g. planes and cylinder axes (default 1). */
+  unboundedExtent?: number;
+}
+
+/**
+ * Tessellate an untrimmed surface over its full parameter domain
+ * (unbounded directions limited to ±`unboundedExtent`).
+ */
+export function tessellateSurface(
+  surface: SurfaceGeometry,
+  options: SurfaceTessellationOptions = {}
+): MeshData {
+  const { uSegments = 24, vSegments = 24, unboundedExtent = 1 } = options;
+  const evaluator = surfaceEvaluator(surface);
+  return tessellateUVGrid(
+    { ...evaluator, domain: boundedDomain(evaluator.domain, unboundedExtent) },
+    uSegments,
+    vSegments
+  );
+}
+
+/**
+ * Regular (uSegments × vSegments) grid over the evaluator's domain, two triangles per cell.
+ * The evaluator's `uBreaks` are added as extra grid columns so profile corners stay sharp.
+ * Normals come from the evaluator when it has exact ones, so seams shade smoothly.
+ */
+export function tessellateUVGrid(
+  evaluator: SurfaceEvaluator,
+  uSegments: number,
+  vSegments: number
+): MeshData {
+  const { u0, u1, v0, v1 } = evaluator.domain;
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const indices: number[] = [];
+
+  const us = gridValues(u0, u1, uSegments, evaluator.uBreaks ?? []);
+  for (let j = 0; j <= vSegments; j++) {
+    const v = v0 + (v1 - v0) * (j / vSegments);
+    for (const u of us) {
+      const p = evaluator.evaluate(u, v);
+      positions.push(p.x, p.y, p.z);
+      const n = evaluator.normal?.(u, v);
+      if (n) normals.push(n.x, n.y, n.z);
+    }
+  }
+
+  const row = us.length;
+  for (let j = 0; j < vSegments; j++) {
+    for (let i = 0; i < row - 1; i++) {
+      const a = j * row + i;
+      const b = a + 1;
+      const c = a + row;
+      const d = c + 1;
+      indices.push(a, b, d, a, d, c);
+    }
+  }
+
+  return {
+    positions,
+    normals: evaluator.normal ? normals : computeVertexNormals(positions, indices),
+    indices,
+  };
+}
+
+/** Evenly spaced values from `from` to `to`, merged with the breaks that fall strictly inside. */
+function gridValues(from: number, to: number, segments: number, breaks: number[]): number[] {
+  const values = Array.from(
+    { length: segments + 1 },
+    (_, i) => from + (to - from) * (i / segments)
+  );
+  const tolerance = Math.abs(to - from) * 1e-9;
+  const lo = Math.min(from, to);
+  const hi = Math.max(from, to);
+  for (const b of breaks) {
+    if (b - lo <= tolerance || hi - b <= tolerance) continue;
+    if (values.some((value) => Math.abs(value - b) <= tolerance)) continue;
+    values.push(b);
+  }
+  return values.sort((a, b) => (to >= from ? a - b : b - a));
+}
@@ -0,0 +1,337 @@
+export interface Point2 {
+  x: number;
+  y: number;
+}
+
+export interface Triangulation {
+  /** Outer loop, then holes, then interior points — in input order. */
+  vertices: Point2[];
+  /** Vertex index triples, counter-clockwise. Unused interior points are not referenced. */
+  triangles: number[];
+}
+
+type Triangle = [number, number, number];
+
+const EPSILON = 1e-12;
+
+/**
+ * Constrained triangulation of a polygon with holes.
+ *
+ * Ear clipping on the boundary (holes bridged into the outer loop), Lawson flips
+ * towards a Delaunay mesh, then insertion of `interior` points. Loop edges are
+ * constraints: they are never flipped or split, so neighbouring patches that share
+ * a boundary polyline stay conforming. The outer loop should be counter-clockwise
+ * and holes clockwise (see {@link orientLoop}).
+ */
+export function triangulateRegion(
+  outer: Point2[],
+  holes: Point2[][] = [],
+  interior: Point2[] = []
+): Triangulation {
+  const vertices: Point2[] = [];
+  const constrained = new Set<string>();
+
+  const addLoop = (loop: Point2[]): number[] => {
+    const indices = loop.map((p) => vertices.push(p) - 1);
+    indices.forEach((a, i) => {
+      constrained.add(edgeKey(a, indices[(i + 1) % indices.length]!));
+    });
+    return indices;
+  };
+
+  const outerIndices = addLoop(outer);
+  const holeIndices = holes.filter((h) => h.length >= 3).map(addLoop);
+  const polygon = bridgeHoles(vertices, outerIndices, holeIndices);
+
+  const mesh = new TriangleMesh(vertices, constrained);
+  for (const tri of earClip(vertices, polygon)) mesh.add(tri);
+  mesh.legalizeAll();
+
+  for (const p of interior) {
+    mesh.insert(vertices.push(p) - 1);
+  }
+
+  return { vertices, triangles: mesh.toIndexArray() };
+}
+
+/** Signed area (positive when counter-clockwise). */
+export function signedArea(loop: Point2[]): number {
+  let area = 0;
+  for (let i = 0; i < loop.length; i++) {
+    const a = loop[i]!;
+    const b = loop[(i + 1) % loop.length]!;
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+}
+
+/** Return the loop in the requested winding (counter-clockwise or clockwise). */
+export function orientLoop<T extends Point2>(loop: T[], counterClockwise: boolean): T[] {
+  const ccw = signedArea(loop) > 0;
+  return ccw === counterClockwise ? loop : [...loop].reverse();
+}
+
+export function pointInLoop(p: Point2, loop: Point2[]): boolean {
+  let inside = false;
+  for (let i = 0, j = loop.length - 1; i < loop.length; j = i++) {
+    const a = loop[i]!;
+    const b = loop[j]!;
+    if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function distanceToSegment(p: Point2, a: Point2, b: Point2): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq;
+  const c = Math.max(0, Math.min(1, t));
+  return Math.hypot(p.x - (a.x + c * dx), p.y - (a.y + c * dy));
+}
+
+function cross(o: Point2, a: Point2, b: Point2): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+function samePoint(a: Point2, b: Point2): boolean {
+  return a.x === b.x && a.y === b.y;
+}
+
+function edgeKey(a: number, b: number): string {
+  return a < b ? `${a},${b}` : `${b},${a}`;
+}
+
+/** Merge holes into the outer loop through mutually visible bridge edges. */
+function bridgeHoles(vertices: Point2[], outer: number[], holes: number[][]): number[] {
+  let polygon = [...outer];
+  const pending = holes
+    .map((hole) => {
+      let start = 0;
+      hole.forEach((v, i) => {
+        if (vertices[v]!.x > vertices[hole[start]!]!.x) start = i;
+      });
+      return [...hole.slice(start), ...hole.slice(0, start)];
+    })
+    .sort((a, b) => vertices[b[0]!]!.x - vertices[a[0]!]!.x);
+
+  pending.forEach((hole, holeIndex) => {
+    const m = hole[0]!;
+    const pm = vertices[m]!;
+    const others = pending.slice(holeIndex + 1);
+
+    const candidates = polygon
+      .map((v, i) => ({ i, d: Math.hypot(vertices[v]!.x - pm.x, vertices[v]!.y - pm.y) }))
+      .sort((a, b) => a.d - b.d);
+
+    const visible = candidates.find(({ i }) => {
+      const pv = vertices[polygon[i]!]!;
+      const prev = vertices[polygon[(i - 1 + polygon.length) % polygon.length]!]!;
+      const next = vertices[polygon[(i + 1) % polygon.length]!]!;
+      if (!locallyInside(prev, pv, next, pm)) return false;
+      if (crossesLoop(vertices, polygon, pv, pm)) return false;
+      if (crossesLoop(vertices, hole, pv, pm)) return false;
+      return !others.some((h) => crossesLoop(vertices, h, pv, pm));
+    });
+    const at = visible?.i ?? candidates[0]?.i ?? 0;
+
+    polygon = [...polygon.slice(0, at + 1), ...hole, m, polygon[at]!, ...polygon.slice(at + 1)];
+  });
+
+  return polygon;
+}
+
+/** Whether direction p→m points into the polygon interior at vertex p. */
+function locallyInside(prev: Point2, p: Point2, next: Point2, m: Point2): boolean {
+  if (cross(prev, p, next) >= 0) {
+    return cross(prev, p, m) >= 0 && cross(p, next, m) >= 0;
+  }
+  return cross(prev, p, m) >= 0 || cross(p, next, m) >= 0;
+}
+
+/** Segment a–b properly crosses an edge of the loop (shared end points ignored). */
+function crossesLoop(vertices: Point2[], loop: number[], a: Point2, b: Point2): boolean {
+  for (let i = 0; i < loop.length; i++) {
+    const p = vertices[loop[i]!]!;
+    const q = vertices[loop[(i + 1) % loop.length]!]!;
+    if (samePoint(p, a) || samePoint(p, b) || samePoint(q, a) || samePoint(q, b)) continue;
+    const d1 = cross(a, b, p);
+    const d2 = cross(a, b, q);
+    const d3 = cross(p, q, a);
+    const d4 = cross(p, q, b);
+    if (d1 * d2 < 0 && d3 * d4 < 0) return true;
+  }
+  return false;
+}
+
+function earClip(vertices: Point2[], polygon: number[]): Triangle[] {
+  const triangles: Triangle[] = [];
+  const ring = [...polygon];
+  let stalled = 0;
+  let i = 0;
+
+  while (ring.length > 3 && stalled <= ring.length) {
+    const n = ring.length;
+    const ia = ring[(i - 1 + n) % n]!;
+    const ib = ring[i % n]!;
+    const ic = ring[(i + 1) % n]!;
+
+    if (isEar(vertices, ring, ia, ib, ic)) {
+      triangles.push([ia, ib, ic]);
+      ring.splice(i % n, 1);
+      stalled = 0;
+      i = Math.max(0, (i % n) - 1);
+    } else {
+      i = (i + 1) % n;
+      stalled++;
+    }
+  }
+
+  if (ring.length > 3) {
+    // Self-intersecting or degenerate input: fan out the remainder rather than drop it.
+    for (let k = 1; k < ring.length - 1; k++) {
+      triangles.push([ring[0]!, ring[k]!, ring[k + 1]!]);
+    }
+  } else if (ring.length === 3) {
+    triangles.push([ring[0]!, ring[1]!, ring[2]!]);
+  }
+
+  return triangles.filter(([a, b, c]) => cross(vertices[a]!, vertices[b]!, vertices[c]!) > EPSILON);
+}
+
+function isEar(vertices: Point2[], ring: number[], ia: number, ib: number, ic: number): boolean {
+  const a = vertices[ia]!;
+  const b = vertices[ib]!;
+  const c = vertices[ic]!;
+  if (cross(a, b, c) <= EPSILON) return false;
+
+  for (const iv of ring) {
+    const p = vertices[iv]!;
+    if (samePoint(p, a) || samePoint(p, b) || samePoint(p, c)) continue;
+    if (cross(a, b, p) >= 0 && cross(b, c, p) >= 0 && cross(c, a, p) >= 0) return false;
+  }
+  return true;
+}
+
+function inCircle(a: Point2, b: Point2, c: Point2, d: Point2): number {
+  const adx = a.x - d.x;
+  const ady = a.y - d.y;
+  const bdx = b.x - d.x;
+  const bdy = b.y - d.y;
+  const cdx = c.x - d.x;
+  const cdy = c.y - d.y;
+  return (
+    (adx * adx + ady * ady) * (bdx * cdy - cdx * bdy) -
+    (bdx * bdx + bdy * bdy) * (adx * cdy - cdx * ady) +
+    (cdx * cdx + cdy * cdy) * (adx * bdy - bdx * ady)
+  );
+}
+
+/** Triangle soup with directed-edge adjacency for flips and point insertion. */
+class TriangleMesh {
+  private readonly triangles: (Triangle | null)[] = [];
+  private readonly edges = new Map<string, number>();
+
+  constructor(
+    private readonly vertices: Point2[],
+    private readonly constrained: Set<string>
+  ) {}
+
+  add(tri: Triangle): void {
+    const id = this.triangles.push(tri) - 1;
+    for (let k = 0; k < 3; k++) {
+      this.edges.set(`${tri[k]},${tri[(k + 1) % 3]}`, id);
+    }
+  }
+
+  private remove(id: number): void {
+    const tri = this.triangles[id];
+    if (!tri) return;
+    for (let k = 0; k < 3; k++) {
+      this.edges.delete(`${tri[k]},${tri[(k + 1) % 3]}`);
+    }
+    this.triangles[id] = null;
+  }
+
+  /** Triangle [a, b, opposite] owning directed edge a→b. */
+  private across(a: number, b: number): { id: number; opposite: number } | null {
+    const id = this.edges.get(`${a},${b}`);
+    if (id === undefined) return null;
+    const tri = this.triangles[id]!;
+    const opposite = tri.find((v) => v !== a && v !== b);
+    return opposite === undefined ? null : { id, opposite };
+  }
+
+  legalizeAll(): void {
+    const stack: [number, number][] = [];
+    for (const tri of this.triangles) {
+      if (!tri) continue;
+      stack.push([tri[0], tri[1]], [tri[1], tri[2]], [tri[2], tri[0]]);
+    }
+    this.legalize(stack);
+  }
+
+  /** Split the triangle containing vertex `index`; points outside the region or on an edge are skipped. */
+  insert(index: number): void {
+    const p = this.vertices[index]!;
+    for (let id = 0; id < this.triangles.length; id++) {
+      const tri = this.triangles[id];
+      if (!tri) continue;
+      const [a, b, c] = tri;
+      const va = this.vertices[a]!;
+      const vb = this.vertices[b]!;
+      const vc = this.vertices[c]!;
+      const area = cross(va, vb, vc);
+      const eps = area * 1e-9;
+      if (cross(va, vb, p) <= eps || cross(vb, vc, p) <= eps || cross(vc, va, p) <= eps) {
+        continue;
+      }
+      this.remove(id);
+      this.add([a, b, index]);
+      this.add([b, c, index]);
+      this.add([c, a, index]);
+      this.legalize([
+        [a, b],
+        [b, c],
+        [c, a],
+      ]);
+      return;
+    }
+  }
+
+  private legalize(stack: [number, number][]): void {
+    let budget = 64 * (this.triangles.length + 16);
+    while (stack.length > 0 && budget-- > 0) {
+      const [a, b] = stack.pop()!;
+      if (this.constrained.has(edgeKey(a, b))) continue;
+      const left = this.across(a, b);
+      const right = this.across(b, a);
+      if (!left || !right) continue;
+
+      const p = left.opposite;
+      const d = right.opposite;
+      const va = this.vertices[a]!;
+      const vb = this.vertices[b]!;
+      const vp = this.vertices[p]!;
+      const vd = this.vertices[d]!;
+      if (inCircle(va, vb, vp, vd) <= EPSILON) continue;
+      if (cross(va, vd, vp) <= EPSILON || cross(vd, vb, vp) <= EPSILON) continue;
+
+      this.remove(left.id);
+      this.remove(right.id);
+      this.add([a, d, p]);
+      this.add([d, b, p]);
+      stack.push([a, d], [d, b], [b, p], [p, a]);
+    }
+  }
+
+  toIndexArray(): number[] {
+    const out: number[] = [];
+    for (const tri of this.triangles) {
+      if (tri) out.push(tri[0], tri[1], tri[2]);
+    }
+    return out;
+  }
+}
@@ -0,0 +1,165 @@
+import type { CurveOnSurfaceGeometry, MeshData, TrimmedSurfaceGeometry, Vec3 } from "../types.js";
+import { sampleCurve } from "../math/curves.js";
+import type { CurveSampleOptions } from "../math/curves.js";
+import { boundedDomain, closestSurfaceParameter, surfaceEvaluator } from "../math/surfaces.js";
+import type { SurfaceEvaluator, UVDomain } from "../math/surfaces.js";
+import { computeVertexNormals } from "./mesh.js";
+import type { SurfaceTessellationOptions } from "./surfaces.js";
+import { distanceToSegment, orientLoop, triangulateRegion } from "./triangulate.js";
+import type { Point2 } from "./triangulate.js";
+
+export type TrimmedTessellationOptions = SurfaceTessellationOptions & CurveSampleOptions;
+
+/** Closed boundary polyline in parameter space. */
+export interface TrimLoop {
+  /** (u, v) vertices; the closing vertex is optional. */
+  uv: Point2[];
+  /**
+   * Model-space positions parallel to `uv`, used verbatim instead of evaluating the
+   * surface — lets faces that share an edge emit identical boundary vertices.
+   */
+  points?: Vec3[];
+}
+
+/** Tessellate a Type 144 trimmed surface: outer boundary minus inner holes, in UV space. */
+export function tessellateTrimmedSurface(
+  trimmed: TrimmedSurfaceGeometry,
+  options: TrimmedTessellationOptions = {}
+): MeshData {
+  const { uSegments = 24, vSegments = 24, unboundedExtent = 1 } = options;
+  const evaluator = surfaceEvaluator(trimmed.surface);
+  const outer =
+    (trimmed.outer && trimLoopFromCurveOnSurface(trimmed.outer, evaluator, options)) ??
+    domainLoop(boundedDomain(evaluator.domain, unboundedExtent), uSegments, vSegments);
+  const holes = trimmed.inner
+    .map((curve) => trimLoopFromCurveOnSurface(curve, evaluator, options))
+    .filter((loop): loop is TrimLoop => loop !== null);
+  return tessellateTrimmedRegion(evaluator, outer, holes, options);
+}
+
+/**
+ * Parameter-space loop for a Type 142 curve. Uses the UV curve when present,
+ * otherwise projects samples of the model-space curve onto the surface.
+ */
+export function trimLoopFromCurveOnSurface(
+  curve: CurveOnSurfaceGeometry,
+  evaluator: SurfaceEvaluator,
+  options: CurveSampleOptions = {}
+): TrimLoop | null {
+  if (curve.parameterCurve) {
+    return { uv: sampleCurve(curve.parameterCurve, options).map(({ x, y }) => ({ x, y })) };
+  }
+  if (!curve.modelCurve) return null;
+
+  const points = sampleCurve(curve.modelCurve, options);
+  const uv: Point2[] = [];
+  let seed: { u: number; v: number } | undefined;
+  for (const point of points) {
+    seed = closestSurfaceParameter(evaluator, point, seed);
+    uv.push({ x: seed.u, y: seed.v });
+  }
+  return { uv, points };
+}
+
+/** Boundary of the full (u, v) domain, subdivided to match the interior grid. */
+export function domainLoop(domain: UVDomain, uSegments: number, vSegments: number): TrimLoop {
+  const { u0, u1, v0, v1 } = domain;
+  const uv: Point2[] = [];
+  for (let i = 0; i < uSegments; i++) uv.push({ x: u0 + ((u1 - u0) * i) / uSegments, y: v0 });
+  for (let j = 0; j < vSegments; j++) uv.push({ x: u1, y: v0 + ((v1 - v0) * j) / vSegments });
+  for (let i = uSegments; i > 0; i--) uv.push({ x: u0 + ((u1 - u0) * i) / uSegments, y: v1 });
+  for (let j = vSegments; j > 0; j--) uv.push({ x: u0, y: v0 + ((v1 - v0) * j) / vSegments });
+  return { uv };
+}
+
+/**
+ * Triangulate the region inside `outer` and outside every hole, refined with the
+ * interior points of a (uSegments × vSegments) grid over the outer loop's UV bounds.
+ * Loop vertices are kept as-is and loop edges are never split.
+ */
+export function tessellateTrimmedRegion(
+  evaluator: SurfaceEvaluator,
+  outer: TrimLoop,
+  holes: TrimLoop[],
+  options: SurfaceTessellationOptions = {}
+): MeshData {
+  const { uSegments = 24, vSegments = 24 } = options;
+  const us = outer.uv.map((p) => p.x);
+  const vs = outer.uv.map((p) => p.y);
+  const u0 = Math.min(...us);
+  const v0 = Math.min(...vs);
+  // Triangulate in a unit square so Delaunay flips are not skewed by the loop's aspect ratio.
+  const su = Math.max(...us) - u0 || 1;
+  const sv = Math.max(...vs) - v0 || 1;
+  const normalize = (p: Point2): Point2 => ({ x: (p.x - u0) / su, y: (p.y - v0) / sv });
+
+  const outerLoop = orientLoop(cleanLoop(outer, normalize), true);
+  const holeLoops = holes
+    .map((hole) => orientLoop(cleanLoop(hole, normalize), false))
+    .filter((hole) => hole.length >= 3);
+  if (outerLoop.length < 3) return { positions: [], normals: [], indices: [] };
+
+  const boundary = [outerLoop, ...holeLoops];
+  const clearance = 0.4 * Math.min(1 / uSegments, 1 / vSegments);
+  const interior: Point2[] = [];
+  for (let j = 1; j < vSegments; j++) {
+    for (let i = 1; i < uSegments; i++) {
+      const p = { x: i / uSegments, y: j / vSegments };
+      if (!nearBoundary(p, boundary, clearance)) interior.push(p);
+    }
+  }
+
+  const { vertices, triangles } = triangulateRegion(outerLoop, holeLoops, interior);
+
+  const fixed = boundary.flat();
+  const remap = new Map<number, number>();
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const indices: number[] = [];
+  for (const index of triangles) {
+    let mapped = remap.get(index);
+    if (mapped === undefined) {
+      const uv = vertices[index]!;
+      const u = u0 + uv.x * su;
+      const v = v0 + uv.y * sv;
+      const p = fixed[index]?.point ?? evaluator.evaluate(u, v);
+      mapped = positions.length / 3;
+      positions.push(p.x, p.y, p.z);
+      const n = evaluator.normal?.(u, v);
+      if (n) normals.push(n.x, n.y, n.z);
+      remap.set(index, mapped);
+    }
+    indices.push(mapped);
+  }
+
+  return {
+    positions,
+    normals: evaluator.normal ? normals : computeVertexNormals(positions, indices),
+    indices,
+  };
+}
+
+type LoopVertex = Point2 & { point?: Vec3 };
+
+/** Normalize, drop repeated vertices and the closing duplicate. */
+function cleanLoop(loop: TrimLoop, normalize: (p: Point2) => Point2): LoopVertex[] {
+  const out: LoopVertex[] = [];
+  loop.uv.forEach((uv, i) => {
+    const p: LoopVertex = { ...normalize(uv), point: loop.points?.[i] };
+    const last = out[out.length - 1];
+    if (last && Math.hypot(last.x - p.x, last.y - p.y) < 1e-9) return;
+    out.push(p);
+  });
+  const first = out[0];
+  const last = out[out.length - 1];
+  if (out.length > 1 && first && last && Math.hypot(last.x - first.x, last.y - first.y) < 1e-9) {
+    out.pop();
+  }
+  return out;
+}
+
+function nearBoundary(p: Point2, loops: Point2[][], clearance: number): boolean {
+  return loops.some((loop) =>
+    loop.some((a, i) => distanceToSegment(p, a, loop[(i + 1) % loop.length]!) < clearance)
+  );
+}
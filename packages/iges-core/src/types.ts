@@ -7,6 +7,76 @@
 /** IGES file section identifiers (column 73). */
 export type SectionId = "S" | "G" | "D" | "P" | "T";
 
+/** How serious a diagnostic is. */
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+/**
+ * Stable diagnostic codes, in the style of `IGESParseError.code`. Messages may change
+ * between releases; codes do not.
+ */
+export type DiagnosticCode =
+  /** The file has no T section (see `IGESParseError`). */
+  | "MISSING_TERMINATE"
+  /** A line is not 80 columns. */
+  | "LINE_LENGTH"
+  /** A line's sequence number (columns 74–80) is not the next in its section. */
+  | "SEQUENCE_NUMBER"
+  /** A T-section line count differs from its section. */
+  | "LINE_COUNT_MISMATCH"
+  /** A directory entry has no valid sequence number; it is skipped. */
+  | "INVALID_DE_SEQUENCE"
+  /** A directory entry's integer field holds something else; the entity is skipped. */
+  | "INVALID_DE_FIELD"
+  /** No P lines at a directory entry's parameter data pointer; the entity is skipped. */
+  | "MISSING_PD"
+  /** A parameter field is neither a number nor a string; the entity is skipped. */
+  | "INVALID_PD_FIELD"
+  /** A mandatory Global section field is empty (see `validateIGES()`). */
+  | "MISSING_GLOBAL_FIELD"
+  /** A directory entry field is out of its range, e.g. a status digit or color number. */
+  | "DE_FIELD_RANGE"
+  /** The form number is not defined for the entity type. */
+  | "INVALID_FORM"
+  /** A pointer is even; DE sequence numbers are always odd. */
+  | "POINTER_PARITY"
+  /** A P line's back pointer (columns 65–72) names another DE. */
+  | "PD_BACK_POINTER"
+  /** The parameter data's entity type differs from the directory entry's. */
+  | "PD_TYPE_MISMATCH"
+  /** A parameter pointer names no directory entry. */
+  | "DANGLING_POINTER"
+  /** A pointer followed while resolving (DE field, member, constituent) leads nowhere. */
+  | "MISSING_REFERENCE"
+  /** A pointer leads to an entity of the wrong type or kind. */
+  | "WRONG_REFERENCE_TYPE"
+  | "CIRCULAR_REFERENCE"
+  | "UNSUPPORTED_ENTITY"
+  | "UNSUPPORTED_FORM"
+  /** Parameters are missing or disagree with their counts. */
+  | "INVALID_PARAMETERS"
+  /** Parameters are present but describe no valid geometry (e.g. a negative radius). */
+  | "INVALID_GEOMETRY"
+  /** A decoder failed on the entity; it is skipped. */
+  | "DECODE_FAILED";
+
+/**
+ * How parsing treats spec violations: `"strict"` throws an `IGESParseError` on the first,
+ * `"lenient"` records each as a diagnostic, skipping only the entities they break.
+ */
+export type ParseMode = "strict" | "lenient";
+
+/** A non-fatal problem found while parsing or resolving, located in the file. */
+export interface Diagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  /** DE sequence of the entity the diagnostic is about. */
+  deSequence?: number;
+  section?: SectionId;
+  /** Sequence number (columns 74–80) of the line in `section`. */
+  line?: number;
+}
+
 /** Parsed value from a parameter-data field. */
 export type ParamValue = number | string | PointerValue;
 
@@ -59,6 +129,38 @@ export interface TerminateSection {
   parameterLineCount: number;
 }
 
+/** DE status digits 3–4: how the entity depends on its parents. */
+export type SubordinateSwitch =
+  | "independent" // 00
+  | "physicallyDependent" // 01
+  | "logicallyDependent" // 02
+  | "bothDependent"; // 03
+
+/** DE status digits 5–6: what the entity is used for. */
+export type EntityUse =
+  | "geometry" // 00
+  | "annotation" // 01
+  | "definition" // 02
+  | "other" // 03
+  | "logicalPositional" // 04
+  | "parametric2D" // 05
+  | "construction"; // 06
+
+/** DE status digits 7–8: how DE attributes (line font, color, …) pass to children. */
+export type Hierarchy =
+  | "globalTopDown" // 00
+  | "globalDefer" // 01
+  | "useHierarchyProperty"; // 02
+
+/** Decoded DE status number (IGES 5.3 §2.2.4.4.9): four two-digit fields. */
+export interface EntityStatus {
+  /** Digits 1–2 = 01: the entity is not displayed. */
+  blanked: boolean;
+  subordinate: SubordinateSwitch;
+  entityUse: EntityUse;
+  hierarchy: Hierarchy;
+}
+
 /**
  * Directory Entry (DE) — two 80-column records per entity.
  * Field positions follow IGES 5.3 Tables 1–2.
@@ -76,6 +178,8 @@ export interface DirectoryEntry {
   transformationMatrixPointer: number;
   labelDisplayAssociativity: number;
   statusNumber: number;
+  /** `statusNumber` decoded; out-of-range digits fall back to the 00 value. */
+  status: EntityStatus;
   lineWeight: number;
   colorNumber: number;
   parameterLineCount: number;
@@ -109,6 +213,94 @@ export interface Transform3D {
   translation: Vec3;
 }
 
+/** Display color resolved from a DE color number or a Type 314 Color Definition. */
+export interface IGESColor {
+  /** Red, green and blue in [0, 1]. */
+  r: number;
+  g: number;
+  b: number;
+  /** Type 314 CNAME, or the standard name of color numbers 1–8. */
+  name?: string;
+}
+
+/** Standard line font patterns, DE line font values 1–5. */
+export type LineFontPattern = "solid" | "dashed" | "phantom" | "centerline" | "dotted";
+
+/** One segment of a repeating Type 304 form 2 pattern. */
+export interface LineFontSegment {
+  /** Length in model units. */
+  length: number;
+  visible: boolean;
+}
+
+/** Line font resolved from a DE line font value or a Type 304 Line Font Definition. */
+export interface LineFont {
+  /** Standard pattern, or "defined" for a Type 304. */
+  pattern: LineFontPattern | "defined";
+  /** The repeating segments of a Type 304 form 2 pattern; empty for standard patterns. */
+  segments: LineFontSegment[];
+}
+
+/** Property Entity (Type 406) attached through a DE level or trailing property pointer. */
+interface PropertyBase {
+  /** DE sequence of the Type 406. */
+  deSequence: number;
+  form: number;
+}
+
+/** Form 1: the entity lies on every listed level. */
+export interface DefinitionLevelsProperty extends PropertyBase {
+  kind: "definitionLevels";
+  levels: number[];
+}
+
+/** Form 5: display width of widened lines (model units). */
+export interface LineWideningProperty extends PropertyBase {
+  kind: "lineWidening";
+  width: number;
+  /** 0 none, 1 round, 2 square. */
+  cornering: number;
+  /** 0 none, 1 one side, 2 both sides. */
+  extension: number;
+  /** 0 centre, 1 left, 2 right. */
+  justification: number;
+  extensionValue: number;
+}
+
+/** Form 15: a name for the entity, as written by most CAD systems. */
+export interface NameProperty extends PropertyBase {
+  kind: "name";
+  name: string;
+}
+
+/** Form 16: drawing size in drawing units. */
+export interface DrawingSizeProperty extends PropertyBase {
+  kind: "drawingSize";
+  width: number;
+  height: number;
+}
+
+/** Form 17: drawing units — Global unit flag and name. */
+export interface DrawingUnitsProperty extends PropertyBase {
+  kind: "drawingUnits";
+  unitsFlag: number;
+  units: string;
+}
+
+/** Any other form; values are kept as written. */
+export interface GenericProperty extends PropertyBase {
+  kind: "generic";
+  values: ParamValue[];
+}
+
+export type IGESProperty =
+  | DefinitionLevelsProperty
+  | LineWideningProperty
+  | NameProperty
+  | DrawingSizeProperty
+  | DrawingUnitsProperty
+  | GenericProperty;
+
 export const IDENTITY_TRANSFORM: Transform3D = {
   matrix: [1, 0, 0, 0, 1, 0, 0, 0, 1],
   translation: { x: 0, y: 0, z: 0 },
@@ -120,6 +312,43 @@ export type GeometryKind =
   | "circularArc"
   | "polyline"
   | "nurbsCurve"
+  | "compositeCurve"
+  | "conicArc"
+  | "parametricSplineCurve"
+  | "nurbsSurface"
+  | "direction"
+  | "planeSurface"
+  | "cylindricalSurface"
+  | "conicalSurface"
+  | "sphericalSurface"
+  | "toroidalSurface"
+  | "ruledSurface"
+  | "surfaceOfRevolution"
+  | "tabulatedCylinder"
+  | "curveOnSurface"
+  | "trimmedSurface"
+  | "vertexList"
+  | "edgeList"
+  | "brepLoop"
+  | "brepFace"
+  | "brepShell"
+  | "brepSolid"
+  | "blockSolid"
+  | "wedgeSolid"
+  | "cylinderSolid"
+  | "coneSolid"
+  | "sphereSolid"
+  | "torusSolid"
+  | "ellipsoidSolid"
+  | "revolutionSolid"
+  | "extrusionSolid"
+  | "solidInstance"
+  | "booleanTree"
+  | "subfigureDefinition"
+  | "subfigureInstance"
+  | "note"
+  | "leader"
+  | "dimension"
   | "unsupported";
 
 export interface BaseGeometry {
@@ -129,8 +358,19 @@ export interface BaseGeometry {
   form: number;
   /** World transform after resolving DE matrix pointer chain. */
   transform: Transform3D;
+  /** Raw DE color field: 0 (none), 1–8 (standard) or a negated Type 314 pointer. */
   colorNumber: number;
+  /** Resolved `colorNumber`; null when the entity has no color of its own. */
+  color: IGESColor | null;
+  /** Resolved DE line font (1–5 or a Type 304 pointer); null when unspecified. */
+  lineFont: LineFont | null;
+  /** Raw DE line weight number; see `lineThickness()`. */
+  lineWeight: number;
   level: number;
+  /** DE status; blanked and construction entities are kept so consumers can choose. */
+  status: EntityStatus;
+  /** Type 406 properties from the DE level pointer and the trailing property pointers. */
+  properties: IGESProperty[];
 }
 
 export interface PointGeometry extends BaseGeometry {
@@ -153,6 +393,9 @@ export interface CircularArcGeometry extends BaseGeometry {
   end: Vec3;
   /** Computed radius from center to start. */
   radius: number;
+  /** Unit X and Y of the arc's definition plane (world X / Y until a transform rotates them). */
+  xAxis: Vec3;
+  yAxis: Vec3;
 }
 
 export interface PolylineGeometry extends BaseGeometry {
@@ -172,6 +415,514 @@ export interface NurbsCurveGeometry extends BaseGeometry {
   t1: number;
 }
 
+export type ConicType = "ellipse" | "hyperbola" | "parabola";
+
+/**
+ * Conic arc (Type 104). Evaluated as P(t) = center + f(t)·axisU + g(t)·axisV,
+ * where (f, g) is (cos, sin) for ellipses, (cosh, sinh) for hyperbolas and (t², t) for parabolas.
+ */
+export interface ConicArcGeometry extends BaseGeometry {
+  kind: "conicArc";
+  conicType: ConicType;
+  /** A–F of A·x² + B·xy + C·y² + D·x + E·y + F = 0, in the definition plane. */
+  coefficients: [number, number, number, number, number, number];
+  /** Arc plane offset ZT (displacement along Z). */
+  zDisplacement: number;
+  start: Vec3;
+  end: Vec3;
+  /** Ellipse / hyperbola centre, or parabola vertex. */
+  center: Vec3;
+  axisU: Vec3;
+  axisV: Vec3;
+  /** Parameter range from start to end point. */
+  t0: number;
+  t1: number;
+}
+
+/** One cubic piece: P(s) = a + b·s + c·s² + d·s³, with s measured from the segment's breakpoint. */
+export interface ParametricSplineSegment {
+  a: Vec3;
+  b: Vec3;
+  c: Vec3;
+  d: Vec3;
+}
+
+export interface ParametricSplineCurveGeometry extends BaseGeometry {
+  kind: "parametricSplineCurve";
+  /** CTYPE: 1 linear, 2 quadratic, 3 cubic, 4 Wilson-Fowler, 5 modified Wilson-Fowler, 6 B-spline. */
+  ctype: number;
+  /** H — degree of continuity with respect to arc length (not the polynomial degree). */
+  continuity: number;
+  /** 2 = planar, 3 = non-planar. */
+  ndim: number;
+  /** N+1 breakpoints T(1)…T(N+1). */
+  breakpoints: number[];
+  segments: ParametricSplineSegment[];
+}
+
+export interface NurbsSurfaceGeometry extends BaseGeometry {
+  kind: "nurbsSurface";
+  degreeU: number;
+  degreeV: number;
+  knotsU: number[];
+  knotsV: number[];
+  /** `weights[i][j]` — i along U (0…K1), j along V (0…K2). */
+  weights: number[][];
+  /** `controlPoints[i][j]` — same indexing as `weights`. */
+  controlPoints: Vec3[][];
+  closedU: boolean;
+  closedV: boolean;
+  /** PROP3: all weights equal (non-rational). */
+  polynomial: boolean;
+  periodicU: boolean;
+  periodicV: boolean;
+  /** Parameter range for evaluation. */
+  u0: number;
+  u1: number;
+  v0: number;
+  v1: number;
+}
+
+/** Direction (Type 123) — referenced by analytic surfaces, not drawn. */
+export interface DirectionGeometry extends BaseGeometry {
+  kind: "direction";
+  vector: Vec3;
+}
+
+/**
+ * Placement shared by the analytic surfaces (Types 190–198): `axis` is the local Z,
+ * `refDirection` the local X (u = 0), and `axis × refDirection` the local Y.
+ */
+export interface AnalyticSurfaceBase extends BaseGeometry {
+  location: Vec3;
+  /** Unit axis (the normal for planes). */
+  axis: Vec3;
+  /** Unit reference direction — REFDIR for form 1, or a perpendicular chosen for form 0. */
+  refDirection: Vec3;
+  /** Form 1 — parameterized surface with an explicit REFDIR. */
+  parameterized: boolean;
+}
+
+/** Plane Surface (Type 190): S(u, v) = L + u·X + v·Y, unbounded. */
+export interface PlaneSurfaceGeometry extends AnalyticSurfaceBase {
+  kind: "planeSurface";
+}
+
+/** Right Circular Cylindrical Surface (Type 192): u ∈ [0, 2π], v along the axis (unbounded). */
+export interface CylindricalSurfaceGeometry extends AnalyticSurfaceBase {
+  kind: "cylindricalSurface";
+  radius: number;
+}
+
+/** Right Circular Conical Surface (Type 194): radius at `location`, widening by tan(semiAngle) per unit of v. */
+export interface ConicalSurfaceGeometry extends AnalyticSurfaceBase {
+  kind: "conicalSurface";
+  radius: number;
+  /** SANGLE in degrees, as stored in the file. */
+  semiAngle: number;
+}
+
+/** Spherical Surface (Type 196): u ∈ [0, 2π] around the axis, v ∈ [−π/2, π/2] latitude. */
+export interface SphericalSurfaceGeometry extends AnalyticSurfaceBase {
+  kind: "sphericalSurface";
+  radius: number;
+}
+
+/** Toroidal Surface (Type 198): u ∈ [0, 2π] around the axis, v ∈ [0, 2π] around the tube. */
+export interface ToroidalSurfaceGeometry extends AnalyticSurfaceBase {
+  kind: "toroidalSurface";
+  majorRadius: number;
+  minorRadius: number;
+}
+
+/**
+ * Ruled Surface (Type 118): S(u, v) = (1 − v)·C1(u) + v·C2(u), u, v ∈ [0, 1].
+ * Form 0 matches points of equal relative arc length, form 1 equal relative parameter.
+ */
+export interface RuledSurfaceGeometry extends BaseGeometry {
+  kind: "ruledSurface";
+  curve1: CurveGeometry;
+  curve2: CurveGeometry;
+  /** DIRFLG = 1: the start of `curve1` is joined to the end of `curve2`. */
+  reversed: boolean;
+  /** DEVFLG = 1: the surface is flagged developable. */
+  developable: boolean;
+}
+
+/**
+ * Surface of Revolution (Type 120): the generatrix rotated counter-clockwise about the
+ * axis line (start → end). u is the generatrix parameter, v ∈ [startAngle, endAngle].
+ */
+export interface SurfaceOfRevolutionGeometry extends BaseGeometry {
+  kind: "surfaceOfRevolution";
+  axis: LineGeometry;
+  generatrix: CurveGeometry;
+  /** SA in radians. */
+  startAngle: number;
+  /** TA in radians. */
+  endAngle: number;
+}
+
+/**
+ * Tabulated Cylinder (Type 122): S(u, v) = C(u) + v·(L − C(0)), u, v ∈ [0, 1],
+ * with u the directrix's relative parameter and L the end of the generatrix.
+ */
+export interface TabulatedCylinderGeometry extends BaseGeometry {
+  kind: "tabulatedCylinder";
+  directrix: CurveGeometry;
+  /** (LX, LY, LZ): where the generatrix through the directrix start ends. */
+  generatrixEnd: Vec3;
+}
+
+/** Gap between two consecutive composite-curve segments that do not meet. */
+export interface CompositeCurveGap {
+  /** Index of the segment whose end point starts the gap. */
+  afterSegment: number;
+  from: Vec3;
+  to: Vec3;
+  distance: number;
+}
+
+export interface CompositeCurveGeometry extends BaseGeometry {
+  kind: "compositeCurve";
+  /** Constituent curves in pointer order (child transforms already applied). */
+  segments: CurveGeometry[];
+  /** Discontinuities larger than the model resolution. Empty for a connected chain. */
+  gaps: CompositeCurveGap[];
+  /** Last segment ends where the first one starts. */
+  closed: boolean;
+}
+
+/**
+ * Curve on a Parametric Surface (Type 142). `parameterCurve` lives in the surface's
+ * (u, v) space (x = u, y = v) and is never transformed; `modelCurve` is in model space.
+ */
+export interface CurveOnSurfaceGeometry extends BaseGeometry {
+  kind: "curveOnSurface";
+  /** CRTN: 0 unspecified, 1 projection, 2 intersection, 3 isoparametric. */
+  creation: number;
+  /** PREF: 0 unspecified, 1 parameter curve, 2 model curve, 3 either. */
+  preferred: number;
+  surface: SurfaceGeometry | null;
+  parameterCurve: CurveGeometry | null;
+  modelCurve: CurveGeometry | null;
+}
+
+export interface TrimmedSurfaceGeometry extends BaseGeometry {
+  kind: "trimmedSurface";
+  surface: SurfaceGeometry;
+  /** Outer boundary, or null when it is the boundary of the surface's domain (N1 = 0). */
+  outer: CurveOnSurfaceGeometry | null;
+  /** Boundaries of holes cut from the region inside `outer`. */
+  inner: CurveOnSurfaceGeometry[];
+}
+
+/** Vertex List (Type 502). Vertices are addressed by 1-based index from edges and loops. */
+export interface VertexListGeometry extends BaseGeometry {
+  kind: "vertexList";
+  vertices: Vec3[];
+}
+
+/** B-rep vertex — an entry of a Type 502 list. */
+export interface BrepVertex {
+  /** `"<vertex list DE>:<1-based index>"`, shared by every edge that uses the vertex. */
+  key: string;
+  position: Vec3;
+}
+
+/** B-rep edge — an entry of a Type 504 list, bounded by two vertices. */
+export interface BrepEdge {
+  /** `"<edge list DE>:<1-based index>"`, identical for both faces that share the edge. */
+  key: string;
+  /** Model-space curve, running from `start` to `end`. */
+  curve: CurveGeometry | null;
+  start: BrepVertex;
+  end: BrepVertex;
+}
+
+/** Edge List (Type 504). */
+export interface EdgeListGeometry extends BaseGeometry {
+  kind: "edgeList";
+  edges: BrepEdge[];
+}
+
+/** One entry of a Type 508 loop: an edge used in a given direction, or a single vertex. */
+export interface BrepCoedge {
+  edge: BrepEdge | null;
+  /** Set for TYPE 1 (vertex) entries, which describe a degenerate edge. */
+  vertex: BrepVertex | null;
+  /** OF: the loop runs along the edge curve (start → end). */
+  sameSense: boolean;
+  /** Optional curves in the face surface's (u, v) space (x = u, y = v). */
+  parameterCurves: CurveGeometry[];
+}
+
+/** Loop (Type 508) — closed chain of coedges bounding a face. */
+export interface BrepLoopGeometry extends BaseGeometry {
+  kind: "brepLoop";
+  coedges: BrepCoedge[];
+}
+
+/** Face (Type 510) — a region of a surface bounded by loops. */
+export interface BrepFaceGeometry extends BaseGeometry {
+  kind: "brepFace";
+  surface: SurfaceGeometry;
+  /** Null when the face has no outer loop (OF = 0): it spans the surface domain. */
+  outer: BrepLoopGeometry | null;
+  inner: BrepLoopGeometry[];
+}
+
+export interface BrepShellFace {
+  face: BrepFaceGeometry;
+  /** OF: the face's outward normal agrees with the surface normal. */
+  sameSense: boolean;
+}
+
+/** Shell (Type 514); form 1 closed, form 2 open. */
+export interface BrepShellGeometry extends BaseGeometry {
+  kind: "brepShell";
+  faces: BrepShellFace[];
+  closed: boolean;
+}
+
+/** Manifold Solid B-Rep Object (Type 186). */
+export interface BrepSolidGeometry extends BaseGeometry {
+  kind: "brepSolid";
+  shell: BrepShellGeometry;
+  /** SOF: the shell's orientation agrees with its faces' orientation flags. */
+  shellSameSense: boolean;
+  voids: { shell: BrepShellGeometry; sameSense: boolean }[];
+}
+
+/**
+ * Local frame of a CSG primitive (Types 150–160, 168): `axis` is the local Z and
+ * `refDirection` the local X; the local Y is `axis × refDirection`.
+ */
+export interface PrimitiveSolidBase extends BaseGeometry {
+  location: Vec3;
+  axis: Vec3;
+  refDirection: Vec3;
+}
+
+/** Block (Type 150): [0, LX] × [0, LY] × [0, LZ] from the corner at `location`. */
+export interface BlockSolidGeometry extends PrimitiveSolidBase {
+  kind: "blockSolid";
+  /** LX, LY, LZ. */
+  size: Vec3;
+}
+
+/**
+ * Right Angular Wedge (Type 152): a block of `size` whose local X length tapers
+ * linearly from LX at y = 0 to `topLength` (LTX) at y = LY.
+ */
+export interface WedgeSolidGeometry extends PrimitiveSolidBase {
+  kind: "wedgeSolid";
+  size: Vec3;
+  topLength: number;
+}
+
+/** Right Circular Cylinder (Type 154): `location` is the centre of the first face. */
+export interface CylinderSolidGeometry extends PrimitiveSolidBase {
+  kind: "cylinderSolid";
+  height: number;
+  radius: number;
+}
+
+/** Right Circular Cone Frustum (Type 156): `radius` at `location`, `topRadius` at `height`. */
+export interface ConeSolidGeometry extends PrimitiveSolidBase {
+  kind: "coneSolid";
+  height: number;
+  /** R1 — radius of the larger face, at `location`. */
+  radius: number;
+  /** R2 — radius of the smaller face; 0 for a full cone. */
+  topRadius: number;
+}
+
+/** Sphere (Type 158) centred at `location`. */
+export interface SphereSolidGeometry extends PrimitiveSolidBase {
+  kind: "sphereSolid";
+  radius: number;
+}
+
+/** Torus (Type 160) centred at `location`, around `axis`. */
+export interface TorusSolidGeometry extends PrimitiveSolidBase {
+  kind: "torusSolid";
+  majorRadius: number;
+  minorRadius: number;
+}
+
+/** Ellipsoid (Type 168) centred at `location`, with semi-axes along local X, Y, Z. */
+export interface EllipsoidSolidGeometry extends PrimitiveSolidBase {
+  kind: "ellipsoidSolid";
+  /** LX, LY, LZ semi-axis lengths. */
+  size: Vec3;
+}
+
+/** Solid of Revolution (Type 162): a planar curve revolved about an axis. */
+export interface RevolutionSolidGeometry extends BaseGeometry {
+  kind: "revolutionSolid";
+  curve: CurveGeometry;
+  /** Form 0 — the curve's ends are closed to the axis; form 1 — the curve is closed. */
+  closedToAxis: boolean;
+  /** F — fraction of a full turn, counter-clockwise about `axis`. */
+  fraction: number;
+  /** A point on the axis of revolution. */
+  location: Vec3;
+  axis: Vec3;
+}
+
+/** Solid of Linear Extrusion (Type 164): a closed planar curve swept along `direction`. */
+export interface ExtrusionSolidGeometry extends BaseGeometry {
+  kind: "extrusionSolid";
+  curve: CurveGeometry;
+  length: number;
+  /** Unit extrusion direction. */
+  direction: Vec3;
+}
+
+/** Solid Instance (Type 430): another solid placed by this entity's transform. */
+export interface SolidInstanceGeometry extends BaseGeometry {
+  kind: "solidInstance";
+  solid: SolidGeometry;
+}
+
+export type BooleanOperation = "union" | "intersection" | "difference";
+
+/** Interior node of a Type 180 tree; `difference` is `left − right`. */
+export interface BooleanTreeNode {
+  operation: BooleanOperation;
+  left: BooleanTreeOperand;
+  right: BooleanTreeOperand;
+}
+
+/** Leaf of a Type 180 tree. `solid` is null when the operand could not be decoded. */
+export interface BooleanTreeLeaf {
+  deSequence: number;
+  solid: SolidGeometry | null;
+}
+
+export type BooleanTreeOperand = BooleanTreeNode | BooleanTreeLeaf;
+
+/** Boolean Tree (Type 180), rebuilt from its post-order list into a binary tree. */
+export interface BooleanTreeGeometry extends BaseGeometry {
+  kind: "booleanTree";
+  root: BooleanTreeNode;
+  /** DE pointers of operands that could not be decoded; they count as empty solids. */
+  unevaluatedOperands: number[];
+}
+
+/**
+ * Subfigure Definition (Type 308). Members stay in definition space and are shared by
+ * every Type 408 that places them; the definition is only decoded through those references.
+ */
+export interface SubfigureDefinitionGeometry extends BaseGeometry {
+  kind: "subfigureDefinition";
+  /** Nesting depth: 0 when no member is itself a subfigure instance. */
+  depth: number;
+  name: string;
+  members: GeometryEntity[];
+}
+
+/** Singular Subfigure Instance (Type 408). */
+export interface SubfigureInstanceGeometry extends BaseGeometry {
+  kind: "subfigureInstance";
+  definition: SubfigureDefinitionGeometry;
+  translation: Vec3;
+  scale: number;
+  /**
+   * Definition space → model space: scale by `scale`, move by `translation`, then apply
+   * this entity's DE transform. Kept apart from `definition` so instances share it.
+   */
+  placement: Transform3D;
+}
+
+/** One text string of a General Note (Type 212). */
+export interface NoteText {
+  text: string;
+  /** Text box width and height; the box's lower-left corner is `start`. */
+  boxWidth: number;
+  boxHeight: number;
+  /** Font code, or a negated Type 310 pointer. */
+  fontCode: number;
+  /** Slant of the characters from the baseline, radians (π/2 = upright). */
+  slantAngle: number;
+  /** Baseline angle from the definition-space X axis, radians, as written. */
+  rotation: number;
+  /** 0 none, 1 mirrored about the axis perpendicular to the baseline, 2 about the baseline. */
+  mirror: number;
+  /** Characters stacked top to bottom instead of left to right. */
+  vertical: boolean;
+  start: Vec3;
+  /** Baseline and character-up directions in model space (rotation and transform applied). */
+  xAxis: Vec3;
+  yAxis: Vec3;
+}
+
+/** General Note (Type 212): text strings placed in the drawing or model. */
+export interface NoteGeometry extends BaseGeometry {
+  kind: "note";
+  strings: NoteText[];
+}
+
+/** Leader (Type 214) arrowhead shapes, by form number 1–12. */
+export type ArrowheadShape =
+  | "wedge"
+  | "triangle"
+  | "filledTriangle"
+  | "none"
+  | "circle"
+  | "filledCircle"
+  | "rectangle"
+  | "filledRectangle"
+  | "slash"
+  | "integralSign"
+  | "openTriangle"
+  | "dimensionOrigin";
+
+/** Leader (Arrow) (Type 214): an arrowhead at `tip` and a polyline back to the note. */
+export interface LeaderGeometry extends BaseGeometry {
+  kind: "leader";
+  arrowhead: ArrowheadShape;
+  arrowHeight: number;
+  arrowWidth: number;
+  tip: Vec3;
+  /** Segment tail points; the leader runs tip → points[0] → … */
+  points: Vec3[];
+  /** Normal of the leader's plane (definition-space +Z, transformed). */
+  normal: Vec3;
+}
+
+/** Drafting dimension types, by entity type. */
+export type DimensionType =
+  | "angular" // 202
+  | "diameter" // 206
+  | "linear" // 216
+  | "ordinate" // 218
+  | "point" // 220
+  | "radius"; // 222
+
+/** Dimension (Types 202, 206, 216, 218, 220, 222) with its note, leaders and witness lines. */
+export interface DimensionGeometry extends BaseGeometry {
+  kind: "dimension";
+  dimensionType: DimensionType;
+  note: NoteGeometry | null;
+  leaders: LeaderGeometry[];
+  /** Witness lines (Type 106 form 40). */
+  witnessLines: PolylineGeometry[];
+  /**
+   * Value measured from the annotation geometry in its definition space: distance between
+   * the arrowheads (linear, diameter), centre to arrowhead (radius, one-leader diameter) or
+   * the angle at the vertex in radians (angular). Null for ordinate and point dimensions.
+   */
+  value: number | null;
+  /** Vertex (angular) or arc centre (diameter, radius). */
+  center: Vec3 | null;
+  /** Radius of the leader arcs of an angular dimension. */
+  arcRadius: number | null;
+  /** Circle or composite curve drawn around a point dimension's note (Type 220). */
+  outline: CurveGeometry | null;
+}
+
 export interface UnsupportedGeometry extends BaseGeometry {
   kind: "unsupported";
   reason: string;
@@ -183,23 +934,183 @@ export type GeometryEntity =
   | CircularArcGeometry
   | PolylineGeometry
   | NurbsCurveGeometry
+  | CompositeCurveGeometry
+  | ConicArcGeometry
+  | ParametricSplineCurveGeometry
+  | NurbsSurfaceGeometry
+  | DirectionGeometry
+  | PlaneSurfaceGeometry
+  | CylindricalSurfaceGeometry
+  | ConicalSurfaceGeometry
+  | SphericalSurfaceGeometry
+  | ToroidalSurfaceGeometry
+  | RuledSurfaceGeometry
+  | SurfaceOfRevolutionGeometry
+  | TabulatedCylinderGeometry
+  | CurveOnSurfaceGeometry
+  | TrimmedSurfaceGeometry
+  | VertexListGeometry
+  | EdgeListGeometry
+  | BrepLoopGeometry
+  | BrepFaceGeometry
+  | BrepShellGeometry
+  | BrepSolidGeometry
+  | BlockSolidGeometry
+  | WedgeSolidGeometry
+  | CylinderSolidGeometry
+  | ConeSolidGeometry
+  | SphereSolidGeometry
+  | TorusSolidGeometry
+  | EllipsoidSolidGeometry
+  | RevolutionSolidGeometry
+  | ExtrusionSolidGeometry
+  | SolidInstanceGeometry
+  | BooleanTreeGeometry
+  | SubfigureDefinitionGeometry
+  | SubfigureInstanceGeometry
+  | NoteGeometry
+  | LeaderGeometry
+  | DimensionGeometry
   | UnsupportedGeometry;
 
+/** Geometry kinds that describe a curve (valid composite-curve constituents). */
+export type CurveGeometry =
+  | LineGeometry
+  | CircularArcGeometry
+  | PolylineGeometry
+  | NurbsCurveGeometry
+  | CompositeCurveGeometry
+  | ConicArcGeometry
+  | ParametricSplineCurveGeometry;
+
+/** Geometry kinds that describe a surface evaluable over a (u, v) domain. */
+export type SurfaceGeometry =
+  | NurbsSurfaceGeometry
+  | PlaneSurfaceGeometry
+  | CylindricalSurfaceGeometry
+  | ConicalSurfaceGeometry
+  | SphericalSurfaceGeometry
+  | ToroidalSurfaceGeometry
+  | RuledSurfaceGeometry
+  | SurfaceOfRevolutionGeometry
+  | TabulatedCylinderGeometry;
+
+/** CSG primitives (Types 150–160, 168). */
+export type PrimitiveSolidGeometry =
+  | BlockSolidGeometry
+  | WedgeSolidGeometry
+  | CylinderSolidGeometry
+  | ConeSolidGeometry
+  | SphereSolidGeometry
+  | TorusSolidGeometry
+  | EllipsoidSolidGeometry;
+
+/** Geometry kinds that describe a closed volume (valid Type 180 operands). */
+export type SolidGeometry =
+  | PrimitiveSolidGeometry
+  | RevolutionSolidGeometry
+  | ExtrusionSolidGeometry
+  | SolidInstanceGeometry
+  | BooleanTreeGeometry
+  | BrepSolidGeometry;
+
+/** Indexed triangle mesh produced by `iges-core` tessellators (display-neutral). */
+export interface MeshData {
+  /** Vertex positions as x, y, z triples. */
+  positions: number[];
+  /** Unit vertex normals, parallel to `positions`. */
+  normals: number[];
+  /** Triangle vertex indices, three per triangle. */
+  indices: number[];
+}
+
 /** Parsed file before reference resolution. */
 export interface IGESModel {
   start: string;
   global: GlobalSection;
   entities: Map<number, RawEntity>;
   terminate: TerminateSection;
+  /** Problems found while parsing, in file order. */
+  diagnostics: Diagnostic[];
+  /** Messages of `diagnostics`. */
   warnings: string[];
 }
 
+/**
+ * Associativity Instance (Type 402) forms 1, 7, 14 and 15: a group of entities.
+ * Members may themselves be groups.
+ */
+export interface IGESGroup {
+  deSequence: number;
+  form: number;
+  /** Forms 14 and 15: member order is significant. */
+  ordered: boolean;
+  /** Forms 1 and 14: members point back at the group. */
+  backPointers: boolean;
+  /** Member DE sequences in file order; missing entities are dropped. */
+  members: number[];
+  /** Type 406 properties of the group (e.g. its name). */
+  properties: IGESProperty[];
+}
+
+/** View-space clipping bounds of a Type 410 view; null sides are unbounded. */
+export interface ViewClipBox {
+  xMin: number | null;
+  xMax: number | null;
+  yMin: number | null;
+  yMax: number | null;
+  zMin: number | null;
+  zMax: number | null;
+}
+
+/** View (Type 410, form 0): an orthographic view of model space. */
+export interface IGESView {
+  deSequence: number;
+  form: number;
+  viewNumber: number;
+  /** View space → drawing space scale. */
+  scale: number;
+  /** Model space → view space, from the view's DE transform. Views look down view -Z. */
+  orientation: Transform3D;
+  clip: ViewClipBox;
+  /** Type 406 properties of the view (e.g. its name). */
+  properties: IGESProperty[];
+}
+
+/** A view placed on a drawing sheet. */
+export interface IGESDrawingView {
+  view: IGESView;
+  /** Drawing-space position of the view-space origin (z = 0). */
+  origin: Vec3;
+  /** Rotation of the view on the sheet about its origin, radians (form 1; 0 otherwise). */
+  rotation: number;
+}
+
+/** Drawing (Type 404, forms 0 and 1): a sheet of views plus drawing-space annotations. */
+export interface IGESDrawing {
+  deSequence: number;
+  form: number;
+  views: IGESDrawingView[];
+  /** Annotation entities defined directly in drawing space (title blocks, notes, …). */
+  annotations: GeometryEntity[];
+  /** Type 406 properties of the drawing (name, drawing size, drawing units). */
+  properties: IGESProperty[];
+}
+
 /** Model after pointer + transform resolution. */
 export interface ResolvedIGESModel {
   global: GlobalSection;
   start: string;
   entities: Map<number, RawEntity>;
   geometry: GeometryEntity[];
-  /** Warnings collected during parse/resolve (non-fatal). */
+  /** Type 402 groups, in DE order. */
+  groups: IGESGroup[];
+  /** Type 410 views (form 0), in DE order. */
+  views: IGESView[];
+  /** Type 404 drawings, in DE order. Their annotations are not in `geometry`. */
+  drawings: IGESDrawing[];
+  /** Problems found while parsing, then while resolving. */
+  diagnostics: Diagnostic[];
+  /** Messages of `diagnostics`. */
   warnings: string[];
 }
@@ -0,0 +1,78 @@
+const range = (from: number, to: number): number[] =>
+  Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+/** Implementor-defined forms of the Type 402 associativities and Type 406 properties. */
+const IMPLEMENTOR_FORMS = range(5001, 9999);
+
+/**
+ * Form numbers defined for each entity type (IGES 5.3 §4). Types not listed here are not
+ * checked; implementor-defined types (5001–9999) may use any form.
+ */
+export const FORM_NUMBERS = new Map<number, ReadonlySet<number>>(
+  (
+    [
+      [0, [0]],
+      [100, [0]],
+      [102, [0]],
+      [104, [1, 2, 3]],
+      [106, [1, 2, 3, 11, 12, 13, 20, 21, ...range(31, 38), 40, 63]],
+      [108, [-1, 0, 1]],
+      [110, [0, 1, 2]],
+      [112, [0]],
+      [114, [0]],
+      [116, [0]],
+      [118, [0, 1]],
+      [120, [0]],
+      [122, [0]],
+      [123, [0]],
+      [124, [0, 1, 10, 11, 12]],
+      [126, range(0, 5)],
+      [128, range(0, 9)],
+      [142, [0]],
+      [144, [0]],
+      [150, [0]],
+      [152, [0]],
+      [154, [0]],
+      [156, [0]],
+      [158, [0]],
+      [160, [0]],
+      [162, [0, 1]],
+      [164, [0]],
+      [168, [0]],
+      [180, [0, 1]],
+      [186, [0]],
+      [190, [0, 1]],
+      [192, [0, 1]],
+      [194, [0, 1]],
+      [196, [0, 1]],
+      [198, [0, 1]],
+      [202, [0]],
+      [206, [0]],
+      [212, [...range(0, 8), 100, 101, 102, 105]],
+      [214, range(1, 12)],
+      [216, [0]],
+      [218, [0, 1]],
+      [220, [0]],
+      [222, [0, 1]],
+      [304, [1, 2]],
+      [308, [0]],
+      [314, [0]],
+      [402, [1, 3, 4, 5, 7, 9, 12, 13, 14, 15, 16, 18, 19, 20, 21, ...IMPLEMENTOR_FORMS]],
+      [404, [0, 1]],
+      [406, [...range(1, 36), ...IMPLEMENTOR_FORMS]],
+      [408, [0]],
+      [410, [0, 1]],
+      [430, [0, 1]],
+      [502, [1]],
+      [504, [1]],
+      [508, [0, 1]],
+      [510, [1]],
+      [514, [1, 2]],
+    ] as [number, number[]][]
+  ).map(([type, forms]) => [type, new Set(forms)])
+);
+
+/** Whether `form` is defined for entity `type` (true for types that are not checked). */
+export function isDefinedForm(type: number, form: number): boolean {
+  return FORM_NUMBERS.get(type)?.has(form) ?? true;
+}
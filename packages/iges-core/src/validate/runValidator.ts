@@ -0,0 +1,60 @@
+import { readdirSync, readFileSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { validateIGES } from "./validateIGES.js";
+import type { ValidationReport } from "./validateIGES.js";
+
+const IGES_FILE = /\.(igs|iges)$/i;
+
+/**
+ * `iges-validate` command: validate every .igs / .iges file in the given directories (or
+ * the given files) and print each file's violations. Returns the process exit code: 0 when
+ * all files are valid, 1 when any is not or cannot be read, 2 on a usage error.
+ */
+export function runValidator(args: string[], log: (line: string) => void): number {
+  if (args.length === 0) {
+    log("Usage: iges-validate <directory|file>...");
+    return 2;
+  }
+
+  const files: string[] = [];
+  for (const arg of args) {
+    let isDirectory: boolean;
+    try {
+      isDirectory = statSync(arg).isDirectory();
+    } catch {
+      log(`${arg}: no such file or directory`);
+      return 2;
+    }
+    if (!isDirectory) {
+      files.push(arg);
+      continue;
+    }
+    const names = readdirSync(arg).filter((name) => IGES_FILE.test(name));
+    files.push(...names.sort().map((name) => join(arg, name)));
+  }
+
+  let invalid = 0;
+  for (const file of files) {
+    // A file that cannot be read or checked is reported and counted; the rest still run.
+    let report: ValidationReport;
+    try {
+      report = validateIGES(readFileSync(file, "utf8"));
+    } catch (e) {
+      invalid++;
+      log(`${file}: ${e instanceof Error ? e.message : String(e)}`);
+      continue;
+    }
+    if (report.valid) {
+      log(`${file}: ok (${report.entityCount} entities)`);
+      continue;
+    }
+    invalid++;
+    log(`${file}: ${report.diagnostics.length} problem(s)`);
+    for (const d of report.diagnostics) {
+      const where = d.section ? ` ${d.section}${d.line ?? ""}` : "";
+      log(`  ${d.code}${where}: ${d.message}`);
+    }
+  }
+  log(`${files.length - invalid} of ${files.length} file(s) valid`);
+  return invalid > 0 ? 1 : 0;
+}
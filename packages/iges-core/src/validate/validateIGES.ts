@@ -0,0 +1,135 @@
+import { parseIGES } from "../parse/parseIGES.js";
+import { splitParameterRecords, tokenizeFields } from "../parse/paramTokenizer.js";
+import { directoryDiagnostic } from "../diagnostics.js";
+import { IGESParseError } from "../errors.js";
+import { isDefinedForm } from "./formNumbers.js";
+import type { Diagnostic, DiagnosticCode, GlobalSection, IGESModel, RawEntity } from "../types.js";
+
+/** Result of `validateIGES()`. */
+export interface ValidationReport {
+  /** True when no diagnostic is an error. */
+  valid: boolean;
+  /** Entities that parsed; malformed ones are reported and not counted. */
+  entityCount: number;
+  /** Every violation found, parse problems first, then Global and per-entity checks. */
+  diagnostics: Diagnostic[];
+}
+
+/** Global parameters that have no default (IGES 5.3 Table 2), by parameter number. */
+const MANDATORY_GLOBAL_FIELDS: [number, string][] = [
+  [3, "product identification from sender"],
+  [4, "file name"],
+  [5, "native system ID"],
+  [6, "preprocessor version"],
+  [7, "number of binary bits for integer representation"],
+  [8, "single-precision magnitude"],
+  [9, "single-precision significance"],
+  [10, "double-precision magnitude"],
+  [11, "double-precision significance"],
+  [17, "maximum line width"],
+  [18, "date and time of exchange file generation"],
+  [19, "minimum user-intended resolution"],
+];
+
+/** Largest value of each two-digit part of the DE status number. */
+const STATUS_DIGITS: [string, number][] = [
+  ["blank status", 1],
+  ["subordinate switch", 3],
+  ["entity use flag", 6],
+  ["hierarchy", 2],
+];
+
+/**
+ * Check IGES file text against the structural rules of IGES 5.3 and report every
+ * violation as an error: T-section counts, line length and numbering, mandatory Global
+ * fields, DE field ranges and form numbers, and the parity and targets of DE and parameter
+ * pointers. Geometry is not decoded.
+ */
+export function validateIGES(fileText: string): ValidationReport {
+  let model: IGESModel;
+  try {
+    model = parseIGES(fileText);
+  } catch (e) {
+    if (!(e instanceof IGESParseError)) throw e;
+    const diagnostic: Diagnostic = {
+      code: e.code as DiagnosticCode,
+      severity: "error",
+      message: e.message,
+    };
+    return { valid: false, entityCount: 0, diagnostics: [diagnostic] };
+  }
+
+  const diagnostics: Diagnostic[] = model.diagnostics.map((d) => ({ ...d, severity: "error" }));
+  diagnostics.push(...checkGlobalFields(model.global));
+  for (const entity of model.entities.values()) {
+    diagnostics.push(...checkDirectoryEntry(entity, model));
+  }
+
+  return {
+    valid: diagnostics.every((d) => d.severity !== "error"),
+    entityCount: model.entities.size,
+    diagnostics,
+  };
+}
+
+function checkGlobalFields(global: GlobalSection): Diagnostic[] {
+  const record = splitParameterRecords(global.raw, global.recordDelimiter)[0] ?? "";
+  const fields = tokenizeFields(record, global.fieldDelimiter, true);
+  return MANDATORY_GLOBAL_FIELDS.filter(([n]) => !fields[n - 1]?.trim()).map(([n, name]) => ({
+    code: "MISSING_GLOBAL_FIELD",
+    severity: "error",
+    message: `Global parameter ${n} (${name}) is empty`,
+    section: "G",
+  }));
+}
+
+function checkDirectoryEntry(entity: RawEntity, model: IGESModel): Diagnostic[] {
+  const { de } = entity;
+  const found: Diagnostic[] = [];
+  const fail = (code: DiagnosticCode, message: string) =>
+    found.push(directoryDiagnostic(de.sequence, code, `DE ${de.sequence}: ${message}`, "error"));
+
+  STATUS_DIGITS.forEach(([name, max], i) => {
+    const value = Math.floor(de.statusNumber / 10 ** (6 - 2 * i)) % 100;
+    if (value > max) fail("DE_FIELD_RANGE", `${name} ${value} is not 0–${max}`);
+  });
+  if (!isDefinedForm(de.entityType, de.formNumber)) {
+    fail("INVALID_FORM", `form ${de.formNumber} is not defined for type ${de.entityType}`);
+  }
+  if (de.lineFontPattern > 5) fail("DE_FIELD_RANGE", `line font ${de.lineFontPattern} is not 0–5`);
+  if (de.colorNumber > 8) fail("DE_FIELD_RANGE", `color number ${de.colorNumber} is not 0–8`);
+  const gradations = model.global.maxLineWeightGradations;
+  if (de.lineWeight < 0 || (gradations > 0 && de.lineWeight > gradations)) {
+    fail("DE_FIELD_RANGE", `line weight ${de.lineWeight} is not 0–${gradations}`);
+  }
+  if (de.parameterLineCount < 1) {
+    fail("DE_FIELD_RANGE", `parameter line count ${de.parameterLineCount} is below 1`);
+  }
+
+  // Negative line font, level and color values are pointers; view, transformation matrix
+  // and label display fields hold only pointers.
+  const pointerFields: [string, number, number[], boolean][] = [
+    ["line font", de.lineFontPattern, [304], false],
+    ["level", de.level, [406], false],
+    ["view", de.view, [410, 402], true],
+    ["transformation matrix", de.transformationMatrixPointer, [124], true],
+    ["label display", de.labelDisplayAssociativity, [402], true],
+    ["color", de.colorNumber, [314], false],
+  ];
+  for (const [name, value, types, pointerOnly] of pointerFields) {
+    if (pointerOnly && value < 0) fail("DE_FIELD_RANGE", `${name} pointer ${value} is negative`);
+    const pointer = pointerOnly ? value : -value;
+    if (pointer <= 0) continue;
+    if (pointer % 2 === 0) {
+      fail("POINTER_PARITY", `${name} pointer ${pointer} is even`);
+      continue;
+    }
+    const target = model.entities.get(pointer);
+    if (!target) {
+      fail("DANGLING_POINTER", `${name} pointer names missing DE ${pointer}`);
+    } else if (!types.includes(target.type)) {
+      fail("WRONG_REFERENCE_TYPE", `${name} pointer names type ${target.type} DE ${pointer}`);
+    }
+  }
+  return found;
+}
@@ -0,0 +1,122 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import {
+  closestSurfaceParameter,
+  parseAndResolveIGES,
+  surfaceEvaluator,
+  tessellateSurface,
+  tessellateTrimmedSurface,
+} from "../src/index.js";
+import type { GeometryEntity, SurfaceGeometry } from "../src/index.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = (name: string) =>
+  readFileSync(join(__dirname, "../../../test/fixtures", name), "utf8");
+
+function geometry(): GeometryEntity[] {
+  const model = parseAndResolveIGES(fixtures("analytic-surfaces.iges"));
+  expect(model.warnings).toEqual([]);
+  return model.geometry;
+}
+
+function byKind<K extends GeometryEntity["kind"]>(kind: K) {
+  return geometry().filter((g): g is Extract<GeometryEntity, { kind: K }> => g.kind === kind);
+}
+
+describe("Analytic surfaces (Types 190–198)", () => {
+  it("decodes each type with its exact parameters", () => {
+    expect(geometry().map((g) => g.kind)).toEqual([
+      "cylindricalSurface",
+      "conicalSurface",
+      "sphericalSurface",
+      "toroidalSurface",
+      "cylindricalSurface",
+      "trimmedSurface",
+      "planeSurface",
+    ]);
+    const [cylinder] = byKind("cylindricalSurface");
+    expect(cylinder).toMatchObject({
+      radius: 2.5,
+      location: { x: 10, y: 0, z: 0 },
+      axis: { x: 0, y: 0, z: 1 },
+      parameterized: false,
+    });
+    expect(byKind("conicalSurface")[0]).toMatchObject({
+      radius: 1,
+      semiAngle: 30,
+      refDirection: { x: 1, y: 0, z: 0 },
+      parameterized: true,
+    });
+    expect(byKind("sphericalSurface")[0]?.radius).toBe(3);
+    expect(byKind("toroidalSurface")[0]).toMatchObject({ majorRadius: 5, minorRadius: 1 });
+  });
+
+  it("applies the DE transform to the placement but not the radius", () => {
+    const [, rotated] = byKind("cylindricalSurface");
+    expect(rotated?.radius).toBe(2.5);
+    expect(rotated?.axis.y).toBeCloseTo(-1, 12);
+    expect(rotated?.axis.z).toBeCloseTo(0, 12);
+  });
+
+  it("evaluates points at the exact radius with outward normals", () => {
+    const surfaces: [SurfaceGeometry, (x: number, y: number, z: number) => number][] = [
+      [byKind("cylindricalSurface")[0]!, (x, y) => Math.hypot(x - 10, y)],
+      [byKind("sphericalSurface")[0]!, (x, y, z) => Math.hypot(x, y, z - 10)],
+    ];
+    for (const [surface, radiusAt] of surfaces) {
+      const evaluator = surfaceEvaluator(surface);
+      for (const [u, v] of [
+        [0, 0.5],
+        [2, -0.7],
+        [5, 1.2],
+      ] as const) {
+        const p = evaluator.evaluate(u, v);
+        expect(radiusAt(p.x, p.y, p.z)).toBeCloseTo(surface.kind === "sphericalSurface" ? 3 : 2.5);
+        const n = evaluator.normal!(u, v);
+        const back = closestSurfaceParameter(evaluator, p, { u, v });
+        expect(back.u).toBeCloseTo(u, 9);
+        expect(back.v).toBeCloseTo(v, 9);
+        expect(Math.hypot(n.x, n.y, n.z)).toBeCloseTo(1, 12);
+      }
+    }
+  });
+
+  it("tessellates with smooth normals and a bounded extent for open directions", () => {
+    const [torus] = byKind("toroidalSurface");
+    const mesh = tessellateSurface(torus!, { uSegments: 16, vSegments: 8 });
+    for (let i = 0; i < mesh.positions.length; i += 3) {
+      const x = mesh.positions[i]!;
+      const y = mesh.positions[i + 1]!;
+      const z = mesh.positions[i + 2]! - 10;
+      expect(Math.hypot(Math.hypot(x, y) - 5, z)).toBeCloseTo(1, 9);
+      // The normal points from the tube centre line to the vertex.
+      const cx = (5 * x) / Math.hypot(x, y);
+      const cy = (5 * y) / Math.hypot(x, y);
+      expect(mesh.normals[i]).toBeCloseTo(x - cx, 9);
+      expect(mesh.normals[i + 1]).toBeCloseTo(y - cy, 9);
+      expect(mesh.normals[i + 2]).toBeCloseTo(z, 9);
+    }
+
+    const [plane] = byKind("planeSurface");
+    const square = tessellateSurface(plane!, { uSegments: 2, vSegments: 2, unboundedExtent: 4 });
+    const xs = square.positions.filter((_, i) => i % 3 === 0);
+    expect(Math.min(...xs)).toBe(-4);
+    expect(Math.max(...xs)).toBe(4);
+  });
+
+  it("trims an unbounded plane with a projected model-space curve", () => {
+    const [disc] = byKind("trimmedSurface");
+    const mesh = tessellateTrimmedSurface(disc!, { arcSegments: 96 });
+    let area = 0;
+    for (let i = 0; i < mesh.indices.length; i += 3) {
+      const [a, b, c] = [0, 1, 2].map((k) => mesh.indices[i + k]! * 3) as [number, number, number];
+      const p = mesh.positions;
+      area +=
+        ((p[b]! - p[a]!) * (p[c + 1]! - p[a + 1]!) - (p[b + 1]! - p[a + 1]!) * (p[c]! - p[a]!)) / 2;
+    }
+    expect(Math.abs(area)).toBeCloseTo(16 * Math.PI, 0);
+    expect(mesh.normals.filter((_, i) => i % 3 === 2).every((z) => z === 1)).toBe(true);
+  });
+});
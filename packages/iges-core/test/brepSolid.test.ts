@@ -0,0 +1,92 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { parseAndResolveIGES, tessellateBrepSolid } from "../src/index.js";
+import type { BrepSolidGeometry, MeshData } from "../src/index.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = (name: string) =>
+  readFileSync(join(__dirname, "../../../test/fixtures", name), "utf8");
+
+function solid(): BrepSolidGeometry {
+  const model = parseAndResolveIGES(fixtures("brep-block.iges"));
+  expect(model.warnings).toEqual([]);
+  expect(model.geometry.map((g) => g.kind)).toEqual(["brepSolid"]);
+  return model.geometry[0] as BrepSolidGeometry;
+}
+
+/** Directed edge counts keyed by vertex positions (vertices are not shared between faces). */
+function directedEdges(mesh: MeshData): Map<string, number> {
+  const key = (i: number) => mesh.positions.slice(i * 3, i * 3 + 3).join(",");
+  const counts = new Map<string, number>();
+  for (let t = 0; t < mesh.indices.length; t += 3) {
+    const tri = mesh.indices.slice(t, t + 3);
+    tri.forEach((a, k) => {
+      const edge = `${key(a)}>${key(tri[(k + 1) % 3] ?? 0)}`;
+      counts.set(edge, (counts.get(edge) ?? 0) + 1);
+    });
+  }
+  return counts;
+}
+
+function signedVolume(mesh: MeshData): number {
+  const p = (i: number) => mesh.positions.slice(i * 3, i * 3 + 3) as [number, number, number];
+  let volume = 0;
+  for (let t = 0; t < mesh.indices.length; t += 3) {
+    const [a, b, c] = mesh.indices.slice(t, t + 3).map(p) as [
+      [number, number, number],
+      [number, number, number],
+      [number, number, number],
+    ];
+    volume +=
+      (a[0] * (b[1] * c[2] - b[2] * c[1]) -
+        a[1] * (b[0] * c[2] - b[2] * c[0]) +
+        a[2] * (b[0] * c[1] - b[1] * c[0])) /
+      6;
+  }
+  return volume;
+}
+
+describe("Type 186 manifold solid B-rep", () => {
+  it("builds the shell, face, loop, edge and vertex graph", () => {
+    const { shell, shellSameSense, voids } = solid();
+    expect(shellSameSense).toBe(true);
+    expect(voids).toEqual([]);
+    expect(shell.closed).toBe(true);
+    expect(shell.faces.map((f) => f.face.surface.kind)).toEqual([
+      ...Array<string>(6).fill("planeSurface"),
+      "cylindricalSurface",
+    ]);
+    expect(shell.faces.map((f) => f.sameSense)).toEqual([
+      true,
+      true,
+      true,
+      true,
+      true,
+      true,
+      false,
+    ]);
+
+    const [bottom, , front] = shell.faces.map((f) => f.face);
+    expect(bottom?.inner).toHaveLength(1);
+    const shared = bottom?.outer?.coedges[0]?.edge;
+    expect(shared?.key).toBe(front?.outer?.coedges[0]?.edge?.key);
+    expect(shared?.start.position).toEqual({ x: 0, y: 0, z: 0 });
+    expect(shared?.end.key).toMatch(/:2$/);
+    expect(front?.outer?.coedges.map((c) => c.sameSense)).toEqual([true, true, false, false]);
+  });
+
+  it("tessellates into one closed, consistently oriented mesh", () => {
+    const mesh = tessellateBrepSolid(solid(), { arcSegments: 32, uSegments: 8, vSegments: 8 });
+    const edges = directedEdges(mesh);
+    for (const [edge, count] of edges) {
+      expect(count, edge).toBe(1);
+      const [a, b] = edge.split(">");
+      expect(edges.get(`${b}>${a}`), edge).toBe(1);
+    }
+
+    const hole = 0.5 * 32 * 4 * Math.sin((2 * Math.PI) / 32);
+    expect(signedVolume(mesh)).toBeCloseTo(1000 - 10 * hole, 6);
+  });
+});
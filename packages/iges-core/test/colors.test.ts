@@ -0,0 +1,30 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { parseAndResolveIGES } from "../src/index.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = (name: string) =>
+  readFileSync(join(__dirname, "../../../test/fixtures", name), "utf8");
+
+describe("Colors (DE color number, Type 314)", () => {
+  it("resolves standard numbers and negated Type 314 pointers to RGB", () => {
+    const resolved = parseAndResolveIGES(fixtures("colors.iges"));
+    const colors = Object.fromEntries(resolved.geometry.map((g) => [g.deSequence, g.color]));
+    expect(colors).toEqual({
+      3: { r: 1, g: 0.5, b: 0, name: "ORANGE" },
+      5: { r: 1, g: 0, b: 0, name: "Red" },
+      7: null,
+      9: null,
+      13: { r: 0.2, g: 0.4, b: 0.6 },
+      15: { r: 1, g: 0.5, b: 0, name: "ORANGE" },
+    });
+    expect(resolved.geometry.find((g) => g.deSequence === 13)?.colorNumber).toBe(-11);
+  });
+
+  it("warns once when a color pointer does not reach a Type 314", () => {
+    const resolved = parseAndResolveIGES(fixtures("colors.iges"));
+    expect(resolved.warnings).toEqual(["DE 5 is not type 314 (got 110)"]);
+  });
+});
@@ -0,0 +1,70 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { parseAndResolveIGES, sampleCurve } from "../src/index.js";
+import type { CircularArcGeometry, CompositeCurveGeometry } from "../src/index.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = (name: string) =>
+  readFileSync(join(__dirname, "../../../test/fixtures", name), "utf8");
+
+function composites(): CompositeCurveGeometry[] {
+  const model = parseAndResolveIGES(fixtures("composite.iges"));
+  return model.geometry.filter((g): g is CompositeCurveGeometry => g.kind === "compositeCurve");
+}
+
+describe("Type 102 composite curve", () => {
+  it("emits composites without their constituents as standalone geometry", () => {
+    const model = parseAndResolveIGES(fixtures("composite.iges"));
+    expect(model.geometry.map((g) => g.kind)).toEqual(["compositeCurve", "compositeCurve"]);
+    expect(model.warnings.filter((w) => w.includes("102"))).toEqual([]);
+  });
+
+  it("keeps constituent order and detects a closed chain", () => {
+    const [profile] = composites();
+    expect(profile?.segments.map((s) => s.kind)).toEqual(["line", "circularArc", "line", "line"]);
+    expect(profile?.segments.map((s) => s.deSequence)).toEqual([1, 3, 5, 7]);
+    expect(profile?.gaps).toEqual([]);
+    expect(profile?.closed).toBe(true);
+  });
+
+  it("records gaps and applies the composite transform to its segments", () => {
+    const [, open] = composites();
+    expect(open?.closed).toBe(false);
+    expect(open?.gaps).toHaveLength(1);
+    expect(open?.gaps[0]?.afterSegment).toBe(0);
+    expect(open?.gaps[0]?.distance).toBeCloseTo(1, 6);
+    const second = open?.segments[1];
+    if (second?.kind === "line") {
+      expect(second.start).toEqual({ x: 31, y: 0, z: 5 });
+    }
+  });
+
+  it("samples the chain without duplicating joint points", () => {
+    const [profile] = composites();
+    const points = profile ? sampleCurve(profile, { arcSegments: 8 }) : [];
+    // 2 (line) + 8 (arc, shared start) + 1 + 1 (lines, shared starts)
+    expect(points).toHaveLength(12);
+    expect(points[0]).toEqual(points[points.length - 1]);
+  });
+
+  it("samples arcs in their own (possibly rotated) plane", () => {
+    // Rotate the arc fixture's circle into the XZ plane at y = 3.
+    const [fixtureArc] = parseAndResolveIGES(fixtures("arc.iges")).geometry;
+    const arc: CircularArcGeometry = {
+      ...(fixtureArc as CircularArcGeometry),
+      zDisplacement: 0,
+      center: { x: 0, y: 3, z: 0 },
+      start: { x: 1, y: 3, z: 0 },
+      end: { x: -1, y: 3, z: 0 },
+      radius: 1,
+      xAxis: { x: 1, y: 0, z: 0 },
+      yAxis: { x: 0, y: 0, z: 1 },
+    };
+    const points = sampleCurve(arc, { arcSegments: 4 });
+    expect(points.every((p) => p.y === 3)).toBe(true);
+    expect(points[2]?.z).toBeCloseTo(1, 12);
+    expect(points[4]).toEqual(arc.end);
+  });
+});
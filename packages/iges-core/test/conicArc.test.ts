@@ -0,0 +1,62 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { evaluateConic, parseAndResolveIGES, sampleCurve } from "../src/index.js";
+import type { ConicArcGeometry } from "../src/index.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = (name: string) =>
+  readFileSync(join(__dirname, "../../../test/fixtures", name), "utf8");
+
+function conics(): ConicArcGeometry[] {
+  const model = parseAndResolveIGES(fixtures("conic.iges"));
+  expect(model.warnings).toEqual([]);
+  return model.geometry.filter((g): g is ConicArcGeometry => g.kind === "conicArc");
+}
+
+describe("Type 104 conic arc", () => {
+  it("classifies ellipse, hyperbola and parabola forms", () => {
+    expect(conics().map((c) => c.conicType)).toEqual([
+      "ellipse",
+      "hyperbola",
+      "parabola",
+      "ellipse",
+    ]);
+  });
+
+  it("runs counter-clockwise from start to end on an ellipse", () => {
+    const [ellipse] = conics();
+    expect(ellipse!.t1 - ellipse!.t0).toBeCloseTo(Math.PI / 2, 9);
+    const mid = ellipse ? evaluateConic(ellipse, (ellipse.t0 + ellipse.t1) / 2) : null;
+    expect(mid?.x).toBeCloseTo(Math.SQRT2, 9);
+    expect(mid?.y).toBeCloseTo(Math.SQRT1_2, 9);
+  });
+
+  it("samples hyperbola and parabola arcs between their end points", () => {
+    const [, hyperbola, parabola] = conics();
+    for (const conic of [hyperbola, parabola]) {
+      const samples = conic ? sampleCurve(conic, { arcSegments: 16 }) : [];
+      expect(samples).toHaveLength(17);
+      expect(samples[0]!.x).toBeCloseTo(conic!.start.x, 6);
+      expect(samples[0]!.y).toBeCloseTo(conic!.start.y, 6);
+      expect(samples[16]!.x).toBeCloseTo(conic!.end.x, 6);
+      expect(samples[16]!.y).toBeCloseTo(conic!.end.y, 6);
+    }
+    // Parabola y = x²: every sample stays on the curve.
+    for (const p of parabola ? sampleCurve(parabola, { arcSegments: 8 }) : []) {
+      expect(p.y).toBeCloseTo(p.x * p.x, 9);
+    }
+  });
+
+  it("applies the DE transform to a full ellipse", () => {
+    const [, , , rotated] = conics();
+    expect(rotated!.t1 - rotated!.t0).toBeCloseTo(2 * Math.PI, 9);
+    const samples = rotated ? sampleCurve(rotated, { arcSegments: 8 }) : [];
+    // Rotated into the XZ plane and shifted by +10 in X.
+    for (const p of samples) {
+      expect(p.y).toBeCloseTo(0, 9);
+      expect(((p.x - 10) / 2) ** 2 + p.z ** 2).toBeCloseTo(1, 9);
+    }
+  });
+});
@@ -0,0 +1,152 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { booleanMesh, parseAndResolveIGES, tessellateSolid } from "../src/index.js";
+import type { GeometryEntity, MeshData, ResolvedIGESModel, SolidGeometry } from "../src/index.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = (name: string) =>
+  readFileSync(join(__dirname, "../../../test/fixtures", name), "utf8");
+
+function model(): ResolvedIGESModel {
+  return parseAndResolveIGES(fixtures("csg-primitives.iges"));
+}
+
+function solidAt(resolved: ResolvedIGESModel, deSequence: number): SolidGeometry {
+  const entity = resolved.geometry.find((g: GeometryEntity) => g.deSequence === deSequence);
+  if (!entity) throw new Error(`DE ${deSequence} not in top-level geometry`);
+  return entity as SolidGeometry;
+}
+
+/** Signed volume enclosed by a closed triangle mesh (divergence theorem). */
+function signedVolume({ positions, indices }: MeshData): number {
+  const at = (i: number) => positions.slice(3 * i, 3 * i + 3) as [number, number, number];
+  let volume = 0;
+  for (let t = 0; t < indices.length; t += 3) {
+    const [ax, ay, az] = at(indices[t]!);
+    const [bx, by, bz] = at(indices[t + 1]!);
+    const [cx, cy, cz] = at(indices[t + 2]!);
+    volume += (ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx)) / 6;
+  }
+  return volume;
+}
+
+/** Every edge is used once in each direction once positions are welded. */
+function isClosed({ positions, indices }: MeshData): boolean {
+  const key = (i: number) =>
+    positions
+      .slice(3 * i, 3 * i + 3)
+      .map((v) => (Math.abs(v) < 5e-7 ? 0 : v).toFixed(6))
+      .join(",");
+  const edges = new Map<string, number>();
+  for (let t = 0; t < indices.length; t += 3) {
+    for (let k = 0; k < 3; k++) {
+      const a = key(indices[t + k]!);
+      const b = key(indices[t + ((k + 1) % 3)]!);
+      edges.set(`${a}|${b}`, (edges.get(`${a}|${b}`) ?? 0) + 1);
+    }
+  }
+  for (const [edge, count] of edges) {
+    const [a, b] = edge.split("|");
+    if ((edges.get(`${b}|${a}`) ?? 0) !== count) return false;
+  }
+  return true;
+}
+
+/** Area of a regular n-gon inscribed in the unit circle, relative to π. */
+const polygon = (n: number) => (n / (2 * Math.PI)) * Math.sin((2 * Math.PI) / n);
+
+describe("CSG solids (Types 150–168, 180, 430)", () => {
+  it("decodes every primitive and names the operand that could not be evaluated", () => {
+    const resolved = model();
+    expect(resolved.geometry.map((g) => `${g.kind}:${g.deSequence}`)).toEqual([
+      "booleanTree:5",
+      "booleanTree:11",
+      "booleanTree:17",
+      "solidInstance:23",
+      "booleanTree:29",
+      "coneSolid:31",
+      "torusSolid:33",
+      "wedgeSolid:35",
+      "ellipsoidSolid:37",
+      "revolutionSolid:41",
+      "extrusionSolid:45",
+    ]);
+    expect(resolved.warnings).toEqual([
+      "Type 158 DE 25: R must be positive (got 0)",
+      "Type 180 DE 29: operand DE 25 could not be evaluated",
+    ]);
+    const partial = solidAt(resolved, 29);
+    expect(partial).toMatchObject({ kind: "booleanTree", unevaluatedOperands: [25] });
+    expect(solidAt(resolved, 5)).toMatchObject({
+      root: {
+        operation: "difference",
+        left: { deSequence: 1, solid: { kind: "blockSolid", size: { x: 10, y: 10, z: 10 } } },
+        right: { deSequence: 3, solid: { kind: "cylinderSolid", height: 14, radius: 2 } },
+      },
+    });
+  });
+
+  it("places a solid instance with its own transform", () => {
+    const instance = solidAt(model(), 23);
+    expect(instance).toMatchObject({
+      kind: "solidInstance",
+      solid: { kind: "sphereSolid", radius: 3, location: { x: 50, y: 0, z: 0 } },
+    });
+  });
+
+  it("meshes primitives as closed, outward-facing solids", () => {
+    const resolved = model();
+    const n = 24;
+    const mesh = (de: number) => tessellateSolid(solidAt(resolved, de), { uSegments: n });
+    const cases: [number, number][] = [
+      // Frustum of inscribed 24-gons: h/3 (A1 + A2 + √(A1 A2)).
+      [31, (6 / 3) * Math.PI * polygon(n) * (9 + 1 + 3)],
+      // Trapezoid (4 + 1) / 2 × 3, extruded 2.
+      [35, 15],
+      // Cylinder of radius 2, height 5 revolved from a line closed to its axis.
+      [41, Math.PI * 4 * 5 * polygon(n)],
+    ];
+    for (const [de, volume] of cases) {
+      const data = mesh(de);
+      expect(isClosed(data), `DE ${de} closed`).toBe(true);
+      expect(signedVolume(data), `DE ${de} volume`).toBeCloseTo(volume, 6);
+    }
+    for (const [de, volume] of [
+      [23, (4 / 3) * Math.PI * 27],
+      [33, 2 * Math.PI * Math.PI * 4],
+      [37, (4 / 3) * Math.PI * 6],
+      [45, Math.PI * 3],
+    ] as const) {
+      const data = mesh(de);
+      expect(isClosed(data), `DE ${de} closed`).toBe(true);
+      expect(Math.abs(signedVolume(data) / volume - 1), `DE ${de} volume`).toBeLessThan(0.03);
+    }
+  });
+
+  it("evaluates difference, intersection and union trees", () => {
+    const resolved = model();
+    const n = 24;
+    // BSP splits leave T-junctions, so Boolean results are checked by volume alone.
+    const difference = tessellateSolid(solidAt(resolved, 5), { uSegments: n });
+    expect(signedVolume(difference)).toBeCloseTo(1000 - 10 * 4 * Math.PI * polygon(n), 6);
+
+    const intersection = tessellateSolid(solidAt(resolved, 11));
+    expect(signedVolume(intersection)).toBeCloseTo(8, 9);
+
+    const union = tessellateSolid(solidAt(resolved, 17));
+    expect(signedVolume(union)).toBeCloseTo(120, 9);
+
+    // The unevaluated sphere counts as empty: the union is just the 2 mm cube.
+    expect(signedVolume(tessellateSolid(solidAt(resolved, 29)))).toBeCloseTo(8, 9);
+  });
+
+  it("short-circuits Booleans with an empty operand", () => {
+    const empty: MeshData = { positions: [], normals: [], indices: [] };
+    const cube = tessellateSolid(solidAt(model(), 11));
+    expect(booleanMesh(cube, empty, "union")).toEqual(cube);
+    expect(booleanMesh(cube, empty, "difference")).toEqual(cube);
+    expect(booleanMesh(cube, empty, "intersection").indices).toEqual([]);
+  });
+});
@@ -0,0 +1,59 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { parseAndResolveIGES, parseIGES } from "../src/index.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = (name: string) =>
+  readFileSync(join(__dirname, "../../../test/fixtures", name), "utf8");
+
+describe("Diagnostics", () => {
+  it("locates parameter data problems on their P lines", () => {
+    const model = parseIGES(fixtures("pdorder.iges"));
+    expect(model.diagnostics).toEqual([
+      {
+        code: "PD_TYPE_MISMATCH",
+        severity: "warning",
+        message: "DE 3: parameter data is type 100, directory entry says 110",
+        deSequence: 3,
+        section: "P",
+        line: model.entities.get(3)!.de.parameterDataPointer,
+      },
+      {
+        code: "PD_BACK_POINTER",
+        severity: "warning",
+        message: "DE 7: parameter line 2 points back at DE 3",
+        deSequence: 7,
+        section: "P",
+        line: 2,
+      },
+    ]);
+    expect(model.warnings).toEqual(model.diagnostics.map((d) => d.message));
+  });
+
+  it("codes dangling pointers found while typing parameters", () => {
+    const [dangling] = parseIGES(fixtures("parameters.iges")).diagnostics;
+    expect(dangling).toMatchObject({ code: "DANGLING_POINTER", deSequence: 3, section: "P" });
+  });
+
+  it("locates resolve diagnostics in the D or P section", () => {
+    const resolved = parseAndResolveIGES(fixtures("drawing.iges"));
+    expect(resolved.diagnostics.map((d) => [d.code, d.severity, d.deSequence, d.section])).toEqual([
+      ["UNSUPPORTED_ENTITY", "warning", 11, "D"],
+      ["UNSUPPORTED_FORM", "warning", 27, "D"],
+      ["WRONG_REFERENCE_TYPE", "warning", 29, "P"],
+    ]);
+    // Directory diagnostics point at the entity's first DE line.
+    expect(resolved.diagnostics[0]!.line).toBe(11);
+  });
+
+  it("reports decoder problems against the entity being decoded", () => {
+    const resolved = parseAndResolveIGES(fixtures("dimensions.iges"));
+    expect(resolved.diagnostics.map((d) => [d.code, d.deSequence])).toEqual([
+      ["WRONG_REFERENCE_TYPE", 53],
+      ["INVALID_PARAMETERS", 55],
+    ]);
+    expect(resolved.diagnostics[1]!.line).toBe(resolved.entities.get(55)!.de.parameterDataPointer);
+  });
+});
@@ -0,0 +1,83 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { dimensionStrokes, leaderStrokes, parseAndResolveIGES } from "../src/index.js";
+import type { DimensionGeometry, LeaderGeometry, ResolvedIGESModel } from "../src/index.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = (name: string) =>
+  readFileSync(join(__dirname, "../../../test/fixtures", name), "utf8");
+
+function model(): ResolvedIGESModel {
+  return parseAndResolveIGES(fixtures("dimensions.iges"));
+}
+
+function dimension(resolved: ResolvedIGESModel, deSequence: number): DimensionGeometry {
+  return resolved.geometry.find((g) => g.deSequence === deSequence) as DimensionGeometry;
+}
+
+describe("Dimensions (Types 202–222) and leaders (Type 214)", () => {
+  it("emits dimensions and standalone leaders, not the parts they reference", () => {
+    const resolved = model();
+    expect(resolved.geometry.map((g) => `${g.kind}:${g.entityType}:${g.deSequence}`)).toEqual([
+      "dimension:216:11",
+      "dimension:206:17",
+      "dimension:222:23",
+      "dimension:202:33",
+      "dimension:218:39",
+      "dimension:220:47",
+      "leader:214:49",
+      "dimension:216:53",
+    ]);
+    expect(resolved.warnings).toEqual([
+      "Type 216 DE 53: note DE 3 is not a note (leader)",
+      "Type 214 DE 55: expected 3 leader segments",
+    ]);
+  });
+
+  it("collects the note, leaders and witness lines of a linear dimension", () => {
+    const linear = dimension(model(), 11);
+    expect(linear).toMatchObject({ dimensionType: "linear", value: 25, center: null });
+    expect(linear.note!.strings[0]!.text).toBe("25.0");
+    expect(linear.leaders.map((l) => [l.arrowhead, l.tip])).toEqual([
+      ["triangle", { x: 0, y: 10, z: 0 }],
+      ["triangle", { x: 25, y: 10, z: 0 }],
+    ]);
+    expect(linear.witnessLines.map((w) => w.points.at(-1))).toEqual([
+      { x: 0, y: 11, z: 0 },
+      { x: 25, y: 11, z: 0 },
+    ]);
+  });
+
+  it("measures diameter, radius and angular dimensions", () => {
+    const resolved = model();
+    expect(dimension(resolved, 17)).toMatchObject({ dimensionType: "diameter", value: 10 });
+    expect(dimension(resolved, 23)).toMatchObject({
+      dimensionType: "radius",
+      value: 5,
+      center: { x: 40, y: 0, z: 3 },
+    });
+    const angular = dimension(resolved, 33);
+    expect(angular).toMatchObject({ dimensionType: "angular", arcRadius: 10 });
+    expect(angular.value).toBeCloseTo(Math.PI / 2);
+    expect(dimension(resolved, 39)).toMatchObject({ dimensionType: "ordinate", value: null });
+    expect(dimension(resolved, 47).outline).toMatchObject({ kind: "circularArc" });
+  });
+
+  it("draws arrowheads and the arcs of angular leaders", () => {
+    const resolved = model();
+    const [first] = dimension(resolved, 11).leaders;
+    // Leader line plus a closed triangle pointing at the tip.
+    expect(leaderStrokes(first!)).toHaveLength(2 + 6);
+
+    const angular = dimension(resolved, 33);
+    const strokes = dimensionStrokes(angular, { arcSegments: 48 });
+    for (const p of strokes.slice(0, 12)) {
+      expect(Math.hypot(p.x - 60, p.y)).toBeCloseTo(10, 6);
+    }
+
+    const none = { ...first!, arrowhead: "none" } as LeaderGeometry;
+    expect(leaderStrokes(none)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,92 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { drawingViewPlacement, parseAndResolveIGES, viewGeometry } from "../src/index.js";
+import { transformPoint } from "../src/math/transform.js";
+import type { ResolvedIGESModel } from "../src/index.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = (name: string) =>
+  readFileSync(join(__dirname, "../../../test/fixtures", name), "utf8");
+
+function model(): ResolvedIGESModel {
+  return parseAndResolveIGES(fixtures("drawing.iges"));
+}
+
+/** drawing.iges with its Views Visible associativity (DE 25) rewritten as `form` / `record`. */
+function withViewsVisible(form: number, record: string): ResolvedIGESModel {
+  const text = fixtures("drawing.iges")
+    .replace(
+      "402       0       0       1       3",
+      `402       0       0       1${String(form).padStart(8)}`
+    )
+    .replace("402,1,1,15,7;".padEnd(40), record.padEnd(40));
+  return parseAndResolveIGES(text);
+}
+
+describe("Drawings and views (Types 404, 410)", () => {
+  it("resolves views with their scale, orientation and clip box", () => {
+    const [top, front] = model().views;
+    expect(top).toMatchObject({
+      deSequence: 13,
+      viewNumber: 1,
+      scale: 2,
+      clip: { xMin: null, xMax: 8, yMin: null, yMax: null, zMin: null, zMax: null },
+      properties: [{ kind: "name", name: "TOP" }],
+    });
+    expect(front!.orientation.matrix).toEqual([1, 0, 0, 0, 0, 1, 0, -1, 0]);
+  });
+
+  it("places views on the sheet and keeps drawing annotations out of the model", () => {
+    const resolved = model();
+    const [sheet, broken] = resolved.drawings;
+    expect(sheet!.views.map((v) => [v.view.deSequence, v.origin, v.rotation])).toEqual([
+      [13, { x: 100, y: 50, z: 0 }, 0],
+      [15, { x: 200, y: 50, z: 0 }, 1.5707963],
+    ]);
+    expect(sheet!.annotations.map((a) => `${a.kind}:${a.deSequence}`)).toEqual(["note:19"]);
+    expect(sheet!.properties).toMatchObject([{ kind: "drawingSize", width: 420, height: 297 }]);
+    expect(broken!.views).toEqual([]);
+
+    expect(resolved.geometry.map((g) => g.deSequence)).toEqual([1, 3, 5, 7]);
+    expect(resolved.warnings).toEqual([
+      "Skipped unsupported entity type 108 (DE 11)",
+      "Type 410 DE 27: perspective views (form 1) are not supported",
+      "Type 404 DE 29: DE 27 is not a supported Type 410 view",
+    ]);
+  });
+
+  it("picks each view's geometry from the DE view field", () => {
+    const resolved = model();
+    const [top, front] = resolved.views;
+    expect(viewGeometry(resolved, top!).map((g) => g.deSequence)).toEqual([1, 3, 5]);
+    expect(viewGeometry(resolved, front!).map((g) => g.deSequence)).toEqual([1, 3, 7]);
+  });
+
+  it("reads the view pointers of each Views Visible form", () => {
+    const shown = (resolved: ResolvedIGESModel) =>
+      resolved.views.map((view) => viewGeometry(resolved, view).some((g) => g.deSequence === 7));
+    // Form 4: NV, NE, (view, line font, font definition, color, line weight), entities.
+    expect(shown(withViewsVisible(4, "402,1,1,15,1,0,3,2,7;"))).toEqual([false, true]);
+    // Form 19: NB, (view, breakpoint, display flag, color, line font, line weight) blocks.
+    expect(shown(withViewsVisible(19, "402,2,13,0.,1,3,1,2,15,0.5,1,3,1,2;"))).toEqual([
+      true,
+      true,
+    ]);
+    expect(shown(withViewsVisible(19, "402,1,13,0.,1,3,1,2;"))).toEqual([true, false]);
+  });
+
+  it("scales and rotates view space onto the sheet", () => {
+    const [sheet] = model().drawings;
+    const [top, front] = sheet!.views;
+    expect(transformPoint(drawingViewPlacement(top!), { x: 1, y: 1, z: 0 })).toEqual({
+      x: 102,
+      y: 52,
+      z: 0,
+    });
+    const turned = transformPoint(drawingViewPlacement(front!), { x: 1, y: 0, z: 0 });
+    expect(turned.x).toBeCloseTo(200);
+    expect(turned.y).toBeCloseTo(51);
+  });
+});
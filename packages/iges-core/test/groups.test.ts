@@ -0,0 +1,28 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { parseAndResolveIGES } from "../src/index.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = (name: string) =>
+  readFileSync(join(__dirname, "../../../test/fixtures", name), "utf8");
+
+describe("Groups (Type 402 forms 1, 7, 14, 15)", () => {
+  it("builds group membership and leaves other 402 forms alone", () => {
+    const resolved = parseAndResolveIGES(fixtures("groups.iges"));
+    expect(resolved.groups.map(({ properties: _, ...g }) => g)).toEqual([
+      { deSequence: 11, form: 7, ordered: false, backPointers: false, members: [1, 3] },
+      { deSequence: 13, form: 14, ordered: true, backPointers: true, members: [11, 5] },
+      { deSequence: 15, form: 15, ordered: true, backPointers: false, members: [1] },
+      { deSequence: 17, form: 1, ordered: false, backPointers: true, members: [7] },
+    ]);
+    expect(resolved.groups[0]!.properties).toMatchObject([{ kind: "name", name: "WHEEL" }]);
+    expect(resolved.warnings).toEqual(["Type 402 DE 15: parameter 3 points at missing DE 99"]);
+  });
+
+  it("keeps grouped entities in the top-level geometry", () => {
+    const resolved = parseAndResolveIGES(fixtures("groups.iges"));
+    expect(resolved.geometry.map((g) => g.deSequence)).toEqual([1, 3, 5, 7]);
+  });
+});
@@ -0,0 +1,34 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { entityLevels, listLevels, parseAndResolveIGES } from "../src/index.js";
+import type { ResolvedIGESModel } from "../src/index.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = (name: string) =>
+  readFileSync(join(__dirname, "../../../test/fixtures", name), "utf8");
+
+function model(): ResolvedIGESModel {
+  return parseAndResolveIGES(fixtures("levels.iges"));
+}
+
+describe("Levels", () => {
+  it("reads DE levels and Type 406 form 1 multi-level definitions", () => {
+    const resolved = model();
+    expect(resolved.geometry.map((g) => [g.deSequence, entityLevels(g)])).toEqual([
+      [1, [0]],
+      [3, [10]],
+      [5, [20]],
+      [7, [10, 30]],
+      [11, [0]],
+      [13, [20]],
+    ]);
+    // DE 11 has level -13, which points at a Type 116 point, not a Type 406 property.
+    expect(resolved.warnings).toEqual(["DE 13 is not type 406 (got 116)"]);
+  });
+
+  it("lists the levels present", () => {
+    expect(listLevels(model())).toEqual([0, 10, 20, 30]);
+  });
+});
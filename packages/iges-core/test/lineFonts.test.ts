@@ -0,0 +1,50 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { parseAndResolveIGES } from "../src/index.js";
+import type { ResolvedIGESModel } from "../src/index.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = (name: string) =>
+  readFileSync(join(__dirname, "../../../test/fixtures", name), "utf8");
+
+function model(): ResolvedIGESModel {
+  return parseAndResolveIGES(fixtures("linefonts.iges"));
+}
+
+describe("Line fonts (DE field 4, Type 304)", () => {
+  it("maps DE values 1–5 to the standard patterns", () => {
+    const resolved = model();
+    expect(resolved.geometry.slice(0, 6).map((g) => g.lineFont?.pattern)).toEqual([
+      "solid",
+      "dashed",
+      "phantom",
+      "centerline",
+      "dotted",
+      "dashed",
+    ]);
+    expect(resolved.geometry.at(-1)!.lineFont).toBeNull();
+  });
+
+  it("reads Type 304 form 2 patterns and skips the rest", () => {
+    const resolved = model();
+    const byDe = (deSequence: number) => resolved.geometry.find((g) => g.deSequence === deSequence);
+    expect(byDe(13)!.lineFont).toEqual({
+      pattern: "defined",
+      segments: [
+        { length: 4, visible: true },
+        { length: 1, visible: false },
+        { length: 1, visible: true },
+        { length: 1, visible: false },
+      ],
+    });
+    expect(byDe(17)!.lineFont).toBeNull();
+    expect(byDe(21)!.lineFont).toBeNull();
+    expect(resolved.geometry.map((g) => g.deSequence)).not.toContain(15);
+    expect(resolved.warnings).toEqual([
+      "Type 304 DE 19: form 1 line fonts are drawn solid",
+      "DE 1 is not type 304 (got 110)",
+    ]);
+  });
+});
@@ -0,0 +1,28 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { lineThickness, parseAndResolveIGES } from "../src/index.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = (name: string) =>
+  readFileSync(join(__dirname, "../../../test/fixtures", name), "utf8");
+
+describe("Line weight", () => {
+  it("scales DE weight numbers by the Global maximum line weight", () => {
+    const resolved = parseAndResolveIGES(fixtures("lineweights.iges"));
+    const { global } = resolved;
+    expect([global.maxLineWeightGradations, global.maxLineWeight]).toEqual([8, 0.08]);
+    expect(resolved.geometry.map((g) => g.lineWeight)).toEqual([0, 4, 8, 12, 2, 6, 1]);
+    expect(resolved.geometry.map((g) => lineThickness(global, g.lineWeight))).toEqual([
+      0,
+      0.04,
+      0.08,
+      0.08,
+      0.02,
+      expect.closeTo(0.06, 9),
+      0.01,
+    ]);
+    expect(lineThickness({ ...global, maxLineWeightGradations: 0 }, 4)).toBe(0);
+  });
+});
@@ -0,0 +1,90 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { noteStrokes, noteTextStrokes, parseAndResolveIGES } from "../src/index.js";
+import type { NoteGeometry, ResolvedIGESModel, Vec3 } from "../src/index.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = (name: string) =>
+  readFileSync(join(__dirname, "../../../test/fixtures", name), "utf8");
+
+function notes(): NoteGeometry[] {
+  return parseAndResolveIGES(fixtures("notes.iges")).geometry as NoteGeometry[];
+}
+
+function bounds(points: Vec3[]) {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  return {
+    minX: Math.min(...xs),
+    maxX: Math.max(...xs),
+    minY: Math.min(...ys),
+    maxY: Math.max(...ys),
+  };
+}
+
+describe("General notes (Type 212)", () => {
+  it("decodes every text string with its box, font and placement", () => {
+    const [first] = notes();
+    expect(first!.strings.map((s) => s.text)).toEqual(["PART NO 42", "rev b"]);
+    expect(first!.strings[1]).toMatchObject({
+      boxWidth: 5,
+      boxHeight: 1,
+      fontCode: 1,
+      rotation: 0,
+      mirror: 0,
+      vertical: false,
+      start: { x: 0, y: -3, z: 0 },
+    });
+  });
+
+  it("derives the string axes from the rotation and the DE transform", () => {
+    const [, rotated, flags, moved] = notes();
+    expect(rotated!.strings[0]!.xAxis.x).toBeCloseTo(0);
+    expect(rotated!.strings[0]!.xAxis.y).toBeCloseTo(1);
+    expect(flags!.strings.map((s) => [s.mirror, s.vertical])).toEqual([
+      [1, false],
+      [0, true],
+    ]);
+    expect(moved!.strings[0]!.start).toEqual({ x: 0, y: 0, z: 5 });
+  });
+
+  it("warns about character count mismatches and drops truncated notes", () => {
+    const resolved: ResolvedIGESModel = parseAndResolveIGES(fixtures("notes.iges"));
+    expect(resolved.geometry.map((g) => g.deSequence)).toEqual([1, 3, 5, 7, 11]);
+    expect(resolved.warnings).toEqual([
+      "Type 212 DE 11: string 1 has 2 characters, NC says 3",
+      "Type 212 DE 13: expected 2 text strings",
+    ]);
+  });
+
+  it("strokes glyphs inside each text box", () => {
+    const [first, rotated, flags] = notes();
+    expect(bounds(noteTextStrokes(first!.strings[0]!))).toEqual({
+      minX: expect.closeTo(0.15, 6),
+      maxX: expect.closeTo(9.85, 6),
+      minY: 0,
+      maxY: 2,
+    });
+    // Lowercase uses the uppercase glyphs; the space draws nothing.
+    expect(noteTextStrokes(first!.strings[1]!).length).toBeGreaterThan(0);
+    expect(noteStrokes(first!).length % 2).toBe(0);
+
+    const turned = bounds(noteStrokes(rotated!));
+    expect(turned).toEqual({
+      minX: expect.closeTo(8, 6),
+      maxX: expect.closeTo(10, 6),
+      minY: expect.closeTo(0.3, 6),
+      maxY: expect.closeTo(3.7, 6),
+    });
+
+    const [mirrored, vertical] = flags!.strings.map((s) => bounds(noteTextStrokes(s)));
+    expect(mirrored).toMatchObject({
+      minX: expect.closeTo(20.3, 6),
+      maxX: expect.closeTo(23.7, 6),
+    });
+    expect(vertical!.minY).toBeCloseTo(0.2);
+    expect(vertical!.maxY).toBeCloseTo(3.8);
+  });
+});
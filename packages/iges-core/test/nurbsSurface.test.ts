@@ -0,0 +1,70 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import {
+  evaluateRationalBSplineSurface,
+  parseAndResolveIGES,
+  tessellateSurface,
+} from "../src/index.js";
+import type { NurbsSurfaceGeometry } from "../src/index.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = (name: string) =>
+  readFileSync(join(__dirname, "../../../test/fixtures", name), "utf8");
+
+function surfaces(): NurbsSurfaceGeometry[] {
+  const model = parseAndResolveIGES(fixtures("nurbs-surface.iges"));
+  expect(model.warnings).toEqual([]);
+  return model.geometry.filter((g): g is NurbsSurfaceGeometry => g.kind === "nurbsSurface");
+}
+
+describe("Type 128 rational B-spline surface", () => {
+  it("reads knots, weights and the control net", () => {
+    const [surface] = surfaces();
+    expect(surface?.degreeU).toBe(2);
+    expect(surface?.degreeV).toBe(1);
+    expect(surface?.knotsU).toEqual([0, 0, 0, 1, 1, 1]);
+    expect(surface?.knotsV).toEqual([0, 0, 1, 1]);
+    expect(surface?.controlPoints).toHaveLength(3);
+    expect(surface?.controlPoints[1]).toEqual([
+      { x: 1, y: 1, z: 0 },
+      { x: 1, y: 1, z: 2 },
+    ]);
+    expect(surface?.weights[1]?.[0]).toBeCloseTo(Math.SQRT1_2, 9);
+  });
+
+  it("evaluates an exact quarter cylinder", () => {
+    const [s] = surfaces();
+    if (!s) throw new Error("missing surface");
+    for (const u of [0, 0.25, 0.5, 0.9, 1]) {
+      const p = evaluateRationalBSplineSurface(
+        s.degreeU,
+        s.degreeV,
+        s.knotsU,
+        s.knotsV,
+        s.weights,
+        s.controlPoints,
+        u,
+        0.5
+      );
+      expect(Math.hypot(p.x, p.y)).toBeCloseTo(1, 9);
+      expect(p.z).toBeCloseTo(1, 9);
+    }
+  });
+
+  it("tessellates into an indexed grid with radial normals", () => {
+    const [, moved] = surfaces();
+    if (!moved) throw new Error("missing surface");
+    const mesh = tessellateSurface(moved, { uSegments: 8, vSegments: 2 });
+    expect(mesh.positions).toHaveLength(9 * 3 * 3);
+    expect(mesh.indices).toHaveLength(8 * 2 * 6);
+    for (let i = 0; i < mesh.positions.length; i += 3) {
+      const x = mesh.positions[i]! - 5;
+      const y = mesh.positions[i + 1]!;
+      expect(Math.hypot(x, y)).toBeCloseTo(1, 6);
+      const dot = mesh.normals[i]! * x + mesh.normals[i + 1]! * y;
+      expect(Math.abs(dot)).toBeCloseTo(1, 2);
+    }
+  });
+});
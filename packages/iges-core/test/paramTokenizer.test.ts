@@ -18,4 +18,8 @@ describe("paramTokenizer", () => {
     expect(fields[0]).toBe("116");
     expect(fields[1]).toBe("10.");
   });
+
+  it("keeps empty fields positional when asked", () => {
+    expect(tokenizeFields(",,4HSLOT,,1.", ",", true)).toEqual(["", "", "4HSLOT", "", "1."]);
+  });
 });
@@ -0,0 +1,68 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { parseAndResolveIGES, parseIGES, PARAMETER_SCHEMAS } from "../src/index.js";
+import type { CompositeCurveGeometry } from "../src/index.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = (name: string) =>
+  readFileSync(join(__dirname, "../../../test/fixtures", name), "utf8");
+
+describe("Parameter schemas", () => {
+  it("types pointer, integer and real fields by entity type", () => {
+    const { entities } = parseIGES(fixtures("parameters.iges"));
+    expect(entities.get(3)!.params).toEqual([
+      2,
+      { kind: "pointer", deSequence: 1 },
+      { kind: "pointer", deSequence: 99 },
+    ]);
+    // A zero pointer means "no entity" and stays a number.
+    expect(entities.get(5)!.params).toEqual([1, 2, 3, 0]);
+    expect(PARAMETER_SCHEMAS.get(110)!([], 0)).toEqual(Array(6).fill("real"));
+  });
+
+  it("keeps defaulted fields so later fields stay in place", () => {
+    const { entities } = parseIGES(fixtures("parameters.iges"));
+    expect(entities.get(1)!.params).toEqual([1, "", 0, 2, 3, 0]);
+    const [composite] = parseAndResolveIGES(fixtures("parameters.iges"))
+      .geometry as CompositeCurveGeometry[];
+    expect(composite!.segments[0]).toMatchObject({
+      start: { x: 1, y: 0, z: 0 },
+      end: { x: 2, y: 3, z: 0 },
+    });
+  });
+
+  it("types Type 402 fields by form and leaves other forms untyped", () => {
+    // Views Visible form 3 with NV = 1 and NE = 2: the counts are not pointers.
+    const text = fixtures("drawing.iges").replace("402,1,1,15,7;  ", "402,1,2,15,7,5;");
+    const { entities, warnings } = parseIGES(text, { mode: "strict" });
+    expect(entities.get(25)!.params).toEqual([
+      1,
+      2,
+      { kind: "pointer", deSequence: 15 },
+      { kind: "pointer", deSequence: 7 },
+      { kind: "pointer", deSequence: 5 },
+    ]);
+    expect(warnings).toEqual([]);
+    expect(PARAMETER_SCHEMAS.get(402)!([2, 1, 3], 5)).toBeUndefined();
+  });
+
+  it("leaves a record untyped when a count names more fields than it holds", () => {
+    const composite = (record: string) =>
+      fixtures("arc.iges")
+        .replace(/     100       /g, "     102       ")
+        .replace("100,0.,0.,0.,0.,1.,0.,-1.,0,0;", record.padEnd(30));
+    for (const n of [5000000000, 400000000]) {
+      const { entities } = parseIGES(composite(`102,${n},1;`));
+      expect(entities.get(1)!.params).toEqual([n, 1]);
+    }
+    expect(PARAMETER_SCHEMAS.get(128)!([3e9, 3e9, 1, 1, 0, 0, 0, 0, 0], 0)).toBeUndefined();
+  });
+
+  it("reports pointers to missing entities with their field", () => {
+    expect(parseIGES(fixtures("parameters.iges")).warnings).toEqual([
+      "Type 102 DE 3: parameter 3 points at missing DE 99",
+    ]);
+  });
+});
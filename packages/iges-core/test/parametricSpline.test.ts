@@ -0,0 +1,47 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { evaluateParametricSpline, parseAndResolveIGES, sampleCurve } from "../src/index.js";
+import type { ParametricSplineCurveGeometry } from "../src/index.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = (name: string) =>
+  readFileSync(join(__dirname, "../../../test/fixtures", name), "utf8");
+
+function splines(): ParametricSplineCurveGeometry[] {
+  const model = parseAndResolveIGES(fixtures("spline.iges"));
+  expect(model.warnings).toEqual([]);
+  return model.geometry.filter(
+    (g): g is ParametricSplineCurveGeometry => g.kind === "parametricSplineCurve"
+  );
+}
+
+describe("Type 112 parametric spline curve", () => {
+  it("reads CTYPE, continuity, NDIM, breakpoints and segment coefficients", () => {
+    const [spline] = splines();
+    expect(spline?.ctype).toBe(3);
+    expect(spline?.continuity).toBe(2);
+    expect(spline?.ndim).toBe(3);
+    expect(spline?.breakpoints).toEqual([0, 1, 2]);
+    expect(spline?.segments).toHaveLength(2);
+    expect(spline?.segments[1]?.d).toEqual({ x: 0, y: -1, z: 0 });
+  });
+
+  it("evaluates each polynomial piece from its own breakpoint", () => {
+    const [spline] = splines();
+    if (!spline) throw new Error("missing spline");
+    const { breakpoints, segments } = spline;
+    expect(evaluateParametricSpline(breakpoints, segments, 0.5)).toEqual({ x: 0.5, y: 0.25, z: 0 });
+    expect(evaluateParametricSpline(breakpoints, segments, 1)).toEqual({ x: 1, y: 1, z: 0 });
+    expect(evaluateParametricSpline(breakpoints, segments, 2)).toEqual({ x: 2, y: 2, z: 0.5 });
+  });
+
+  it("samples per segment and applies the DE transform to the coefficients", () => {
+    const [, moved] = splines();
+    const samples = moved ? sampleCurve(moved, { splineSegments: 4 }) : [];
+    expect(samples).toHaveLength(9);
+    expect(samples[0]).toEqual({ x: 0, y: 0, z: 10 });
+    expect(samples[8]).toEqual({ x: 2, y: 2, z: 10.5 });
+  });
+});
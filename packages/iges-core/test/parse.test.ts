@@ -70,6 +70,43 @@ describe("parseIGES", () => {
       expect(arc.center.y).toBeCloseTo(0, 5);
     }
   });
+
+  it("keeps defaulted parameter fields in place", () => {
+    // ZT left empty; the record is padded so the back pointer stays in columns 65–72.
+    const text = fixtures("arc.iges")
+      .replace("100,0.,0.,", "100,,0.,")
+      .replace("-1.,0,0;", "-1.,0,0;  ");
+    expect(parseIGES(text).entities.get(1)!.params.slice(0, 3)).toEqual(["", 0, 0]);
+    expect(parseAndResolveIGES(text).geometry[0]).toMatchObject({ kind: "circularArc", radius: 1 });
+  });
+
+  it("keeps P-line sequence numbers and DE back pointers", () => {
+    const { parameterLines } = splitSections(fixtures("pdorder.iges"));
+    expect(parameterLines.map((l) => [l.sequence, l.dePointer])).toEqual([
+      [1, 0],
+      [2, 3],
+      [3, 5],
+      [4, 5],
+      [5, 3],
+      [6, 1],
+    ]);
+    expect(parameterLines[3]!.text.trimEnd()).toBe("6.,36.,0.,7.,49.,0.;");
+  });
+
+  it("finds each record by the DE parameter pointer and line count", () => {
+    const model = parseIGES(fixtures("pdorder.iges"));
+    expect([...model.entities.values()].map((e) => [e.de.sequence, e.type])).toEqual([
+      [1, 110],
+      [3, 100],
+      [5, 106],
+      [7, 116],
+    ]);
+    expect(model.entities.get(5)!.params).toHaveLength(2 + 3 * 8);
+    expect(model.warnings).toEqual([
+      "DE 3: parameter data is type 100, directory entry says 110",
+      "DE 7: parameter line 2 points back at DE 3",
+    ]);
+  });
 });
 
 describe("hollerith and delimiters", () => {
@@ -78,4 +115,15 @@ describe("hollerith and delimiters", () => {
     expect(model.global.productIdFromSender).toContain("SLOT");
     expect(model.global.fileName).toContain("slot.iges");
   });
+
+  it("reads explicit delimiters without shifting later fields", () => {
+    const global = parseGlobalSection(
+      "1H,,1H;,4HPART,8Hpart.igs,3HCAD,3H1.0,32,38,6,308,15,,1.,2,2HMM,1,0.1,,1.E-06;"
+    );
+    expect(global.recordDelimiter).toBe(";");
+    expect(global.productIdFromSender).toBe("PART");
+    expect(global.fileName).toBe("part.igs");
+    expect(global.unitsName).toBe("MM");
+    expect(global.minimumResolution).toBe(1e-6);
+  });
 });
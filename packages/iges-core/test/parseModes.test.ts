@@ -0,0 +1,71 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { IGESParseError, parseAndResolveIGES, parseIGES } from "../src/index.js";
+import { parseTerminateSection } from "../src/parse/sections.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = (name: string) =>
+  readFileSync(join(__dirname, "../../../test/fixtures", name), "utf8");
+
+function strictError(text: string): IGESParseError {
+  try {
+    parseIGES(text, { mode: "strict" });
+  } catch (e) {
+    return e as IGESParseError;
+  }
+  throw new Error("expected strict parsing to fail");
+}
+
+describe("Strict and lenient parse modes", () => {
+  it("reads the four T-section line counts", () => {
+    expect(parseTerminateSection("S0000001G0000004D0000020P0000015")).toEqual({
+      startLineCount: 1,
+      globalLineCount: 4,
+      directoryLineCount: 20,
+      parameterLineCount: 15,
+    });
+  });
+
+  it("skips only the broken entities in lenient mode and records why", () => {
+    const model = parseIGES(fixtures("malformed.iges"));
+    expect([...model.entities.keys()]).toEqual([1, 7]);
+    expect(model.diagnostics.map((d) => [d.code, d.severity, d.section, d.line])).toEqual([
+      ["LINE_LENGTH", "warning", "S", 1],
+      ["SEQUENCE_NUMBER", "warning", "G", 1],
+      ["INVALID_DE_FIELD", "error", "D", 5],
+      ["LINE_COUNT_MISMATCH", "warning", "T", 1],
+      ["INVALID_PD_FIELD", "error", "P", 2],
+    ]);
+    expect(model.warnings).toEqual([
+      "Line 1 is 81 columns, expected 80",
+      "Line 2: G sequence number 2, expected 1",
+      "DE 5: integer fields hold other values (color number)",
+      "Terminate section counts 5 P lines, found 4",
+      "DE 3: parameter 4 is not a number or string",
+    ]);
+    expect(parseAndResolveIGES(fixtures("malformed.iges")).geometry.map((g) => g.kind)).toEqual([
+      "line",
+      "point",
+    ]);
+  });
+
+  it("throws the first spec violation in strict mode", () => {
+    const error = strictError(fixtures("malformed.iges"));
+    expect(error).toBeInstanceOf(IGESParseError);
+    expect(error).toMatchObject({ code: "LINE_LENGTH", line: 1 });
+
+    expect(strictError(fixtures("pdorder.iges"))).toMatchObject({
+      code: "PD_TYPE_MISMATCH",
+      context: "DE 3",
+    });
+    expect(strictError(fixtures("parameters.iges")).code).toBe("DANGLING_POINTER");
+    expect(parseIGES(fixtures("arc.iges"), { mode: "strict" }).diagnostics).toEqual([]);
+  });
+
+  it("checks the T-section counts only when asked", () => {
+    const model = parseIGES(fixtures("malformed.iges"), { validateLineCounts: false });
+    expect(model.diagnostics.map((d) => d.code)).not.toContain("LINE_COUNT_MISMATCH");
+  });
+});
@@ -0,0 +1,65 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { parseAndResolveIGES } from "../src/index.js";
+import type { GeometryEntity, ResolvedIGESModel } from "../src/index.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = (name: string) =>
+  readFileSync(join(__dirname, "../../../test/fixtures", name), "utf8");
+
+function model(): ResolvedIGESModel {
+  return parseAndResolveIGES(fixtures("properties.iges"));
+}
+
+function at(resolved: ResolvedIGESModel, deSequence: number): GeometryEntity {
+  return resolved.geometry.find((g) => g.deSequence === deSequence)!;
+}
+
+describe("Properties (Type 406)", () => {
+  it("attaches properties listed after the entity's parameters", () => {
+    const line = at(model(), 7);
+    expect(line.properties).toEqual([
+      { deSequence: 1, form: 15, kind: "name", name: "BRACKET" },
+      {
+        deSequence: 5,
+        form: 5,
+        kind: "lineWidening",
+        width: 0.5,
+        cornering: 1,
+        extension: 0,
+        justification: 0,
+        extensionValue: 0,
+      },
+    ]);
+  });
+
+  it("resolves a negative DE level to a Definition Levels property", () => {
+    const circle = at(model(), 9);
+    expect(circle.level).toBe(-3);
+    expect(circle.properties).toEqual([
+      { deSequence: 3, form: 1, kind: "definitionLevels", levels: [1, 5, 9] },
+    ]);
+  });
+
+  it("decodes drawing size and units", () => {
+    expect(at(model(), 15).properties).toMatchObject([
+      { kind: "drawingSize", width: 420, height: 297 },
+      { kind: "drawingUnits", unitsFlag: 2, units: "MM" },
+    ]);
+  });
+
+  it("skips malformed trailing groups and warns about missing properties", () => {
+    const resolved = model();
+    expect(at(resolved, 17).properties).toEqual([]);
+    expect(at(resolved, 19).properties).toEqual([]);
+    expect(resolved.warnings).toEqual(["Missing property entity at DE 99"]);
+  });
+
+  it("reads the DE entity label and subscript from columns 57–72", () => {
+    const { de } = model().entities.get(7)!;
+    expect(de.entityLabel).toBe("BRKT");
+    expect(de.entitySubscript).toBe(2);
+  });
+});
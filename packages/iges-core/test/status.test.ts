@@ -0,0 +1,55 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { parseAndResolveIGES, parseIGES, parseStatusNumber } from "../src/index.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = (name: string) =>
+  readFileSync(join(__dirname, "../../../test/fixtures", name), "utf8");
+
+describe("DE status number", () => {
+  it("decodes the four two-digit status fields", () => {
+    expect(parseStatusNumber("01020602")).toEqual({
+      blanked: true,
+      subordinate: "logicallyDependent",
+      entityUse: "construction",
+      hierarchy: "useHierarchyProperty",
+    });
+    expect(parseStatusNumber("     101")).toEqual({
+      blanked: false,
+      subordinate: "independent",
+      entityUse: "annotation",
+      hierarchy: "globalDefer",
+    });
+  });
+
+  it("falls back to the 00 values for out-of-range digits", () => {
+    const { entities } = parseIGES(fixtures("status.iges"));
+    expect(entities.get(17)!.de.status).toEqual(parseStatusNumber("00000000"));
+    expect(entities.get(3)!.de.statusNumber).toBe(1000000);
+  });
+
+  it("skips physically dependent entities and flags the rest", () => {
+    const resolved = parseAndResolveIGES(fixtures("status.iges"));
+    const flags = resolved.geometry.map((g) => [
+      g.deSequence,
+      g.status.blanked,
+      g.status.entityUse,
+    ]);
+    expect(flags).toEqual([
+      [1, false, "geometry"],
+      [3, true, "geometry"],
+      [5, false, "construction"],
+      [11, false, "geometry"],
+      [13, false, "annotation"],
+      [15, true, "construction"],
+      [17, false, "geometry"],
+    ]);
+    // The dependent segment is still decoded through its composite curve.
+    expect(resolved.geometry[3]).toMatchObject({
+      kind: "compositeCurve",
+      segments: [{ kind: "line" }],
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { parseAndResolveIGES } from "../src/index.js";
+import type { ResolvedIGESModel, SubfigureInstanceGeometry } from "../src/index.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = (name: string) =>
+  readFileSync(join(__dirname, "../../../test/fixtures", name), "utf8");
+
+function model(): ResolvedIGESModel {
+  return parseAndResolveIGES(fixtures("subfigures.iges"));
+}
+
+function instances(resolved: ResolvedIGESModel): SubfigureInstanceGeometry[] {
+  return resolved.geometry.filter(
+    (g): g is SubfigureInstanceGeometry => g.kind === "subfigureInstance"
+  );
+}
+
+describe("Subfigures (Types 308, 408)", () => {
+  it("emits only top-level instances and rejects a 408 that points at a line", () => {
+    const resolved = model();
+    expect(resolved.geometry.map((g) => `${g.kind}:${g.deSequence}`)).toEqual([
+      "subfigureInstance:7",
+      "subfigureInstance:9",
+      "subfigureInstance:21",
+    ]);
+    expect(resolved.warnings).toEqual(["Type 408 DE 23: DE 1 is not a subfigure definition"]);
+  });
+
+  it("shares one decoded definition between instances", () => {
+    const [plain, rotated, panel] = instances(model());
+    expect(plain!.definition).toBe(rotated!.definition);
+    expect(plain!.definition).toMatchObject({ name: "CONN", depth: 0 });
+    expect(plain!.definition.members.map((m) => m.kind)).toEqual(["line", "circularArc"]);
+    // Members stay in definition space, whatever the instance transform.
+    expect(plain!.definition.members[0]).toMatchObject({ end: { x: 2, y: 0, z: 0 } });
+
+    expect(panel!.definition).toMatchObject({ name: "PANEL", depth: 1 });
+    const [slot1, slot2] = panel!.definition.members as SubfigureInstanceGeometry[];
+    expect(slot1!.definition).toBe(plain!.definition);
+    expect(slot2!.placement.translation).toEqual({ x: 4, y: 0, z: 0 });
+  });
+
+  it("composes translation, scale and the DE transform into the placement", () => {
+    const [plain, rotated] = instances(model());
+    expect(plain!.placement).toEqual({
+      matrix: [1, 0, 0, 0, 1, 0, 0, 0, 1],
+      translation: { x: 10, y: 0, z: 0 },
+    });
+    // Scale 2 and move to (0, 10, 0), then turn 90° about Z and lift by 5.
+    expect(rotated).toMatchObject({ scale: 2, translation: { x: 0, y: 10, z: 0 } });
+    expect(rotated!.placement).toEqual({
+      matrix: [0, -2, 0, 2, 0, 0, 0, 0, 2],
+      translation: { x: -10, y: 0, z: 5 },
+    });
+  });
+});
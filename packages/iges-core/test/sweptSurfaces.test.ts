@@ -0,0 +1,104 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import {
+  curveBreakpoints,
+  curveParameterRange,
+  evaluateCurve,
+  parseAndResolveIGES,
+  surfaceEvaluator,
+  tessellateSurface,
+} from "../src/index.js";
+import type { GeometryEntity, MeshData, ResolvedIGESModel } from "../src/index.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = (name: string) =>
+  readFileSync(join(__dirname, "../../../test/fixtures", name), "utf8");
+
+function model(): ResolvedIGESModel {
+  return parseAndResolveIGES(fixtures("swept-surfaces.iges"));
+}
+
+function byKind<K extends GeometryEntity["kind"]>(kind: K) {
+  return model().geometry.filter((g): g is Extract<GeometryEntity, { kind: K }> => g.kind === kind);
+}
+
+/** Signed volume enclosed by a closed triangle mesh (divergence theorem). */
+function signedVolume({ positions, indices }: MeshData): number {
+  const at = (i: number) => positions.slice(3 * i, 3 * i + 3) as [number, number, number];
+  let volume = 0;
+  for (let t = 0; t < indices.length; t += 3) {
+    const [ax, ay, az] = at(indices[t]!);
+    const [bx, by, bz] = at(indices[t + 1]!);
+    const [cx, cy, cz] = at(indices[t + 2]!);
+    volume += (ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx)) / 6;
+  }
+  return volume;
+}
+
+describe("Swept surfaces (Types 118, 120, 122)", () => {
+  it("decodes each type and rejects an axis that is not a line", () => {
+    const resolved = model();
+    expect(resolved.geometry.map((g) => `${g.kind}:${g.deSequence}`)).toEqual([
+      "surfaceOfRevolution:15",
+      "ruledSurface:21",
+      "tabulatedCylinder:25",
+    ]);
+    expect(resolved.warnings).toEqual([
+      "Type 120 DE 29: axis DE 19 is a circularArc, expected line",
+    ]);
+    expect(byKind("ruledSurface")[0]).toMatchObject({ reversed: true, developable: false });
+    expect(byKind("surfaceOfRevolution")[0]).toMatchObject({
+      startAngle: 0,
+      endAngle: 2 * Math.PI,
+    });
+  });
+
+  it("evaluates composite curves over their concatenated parameter ranges", () => {
+    const [shaft] = byKind("surfaceOfRevolution");
+    const profile = shaft!.generatrix;
+    expect(curveParameterRange(profile)).toEqual({ t0: 0, t1: 5 });
+    expect(curveBreakpoints(profile)).toEqual([1, 2, 3, 4]);
+    expect(evaluateCurve(profile, 2.5)).toEqual({ x: 2.5, y: 0, z: 4 });
+  });
+
+  it("revolves the lathe profile into a closed shaft with sharp shoulders", () => {
+    const [shaft] = byKind("surfaceOfRevolution");
+    const evaluator = surfaceEvaluator(shaft!);
+    const quarter = evaluator.evaluate(1.5, Math.PI / 2);
+    expect(quarter.x).toBeCloseTo(0, 12);
+    expect(quarter.y).toBeCloseTo(3, 12);
+    expect(quarter.z).toBeCloseTo(2, 12);
+    // Su runs up the profile and Sv counter-clockwise about +Z, so Su × Sv faces the axis.
+    const normal = evaluator.normal!(1.5, 0);
+    expect(normal.x).toBeCloseTo(-1, 6);
+    expect(normal.z).toBeCloseTo(0, 6);
+
+    const segments = 24;
+    const mesh = tessellateSurface(shaft!, { uSegments: segments, vSegments: segments });
+    // Stepped shaft: r = 3 for 4 mm, r = 2 for 6 mm; inscribed 24-gons scale the area.
+    const polygon = (segments / (2 * Math.PI)) * Math.sin((2 * Math.PI) / segments);
+    expect(Math.abs(signedVolume(mesh))).toBeCloseTo(Math.PI * (9 * 4 + 4 * 6) * polygon, 6);
+  });
+
+  it("rules points of equal relative arc length, joining start to end when DIRFLG = 1", () => {
+    const [ruled] = byKind("ruledSurface");
+    const evaluator = surfaceEvaluator(ruled!);
+    const onLine = evaluator.evaluate(0.25, 0);
+    expect(onLine.x).toBeCloseTo(11, 12);
+    const onArc = evaluator.evaluate(0.25, 1);
+    expect(onArc.x).toBeCloseTo(12 - Math.SQRT2, 4);
+    expect(onArc.y).toBeCloseTo(Math.SQRT2, 4);
+    expect(onArc.z).toBeCloseTo(3, 12);
+  });
+
+  it("extrudes the tabulated cylinder directrix and applies its transform", () => {
+    const [extrusion] = byKind("tabulatedCylinder");
+    expect(extrusion!.generatrixEnd).toEqual({ x: 22, y: 10, z: 5 });
+    const top = surfaceEvaluator(extrusion!).evaluate(0.5, 1);
+    expect(top.x).toBeCloseTo(20 + Math.SQRT2, 12);
+    expect(top.y).toBeCloseTo(10 + Math.SQRT2, 12);
+    expect(top.z).toBeCloseTo(5, 12);
+  });
+});
@@ -0,0 +1,123 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { parseAndResolveIGES, tessellateTrimmedSurface, triangulateRegion } from "../src/index.js";
+import type { MeshData, TrimmedSurfaceGeometry, Vec3 } from "../src/index.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = (name: string) =>
+  readFileSync(join(__dirname, "../../../test/fixtures", name), "utf8");
+
+function trimmedSurfaces(): TrimmedSurfaceGeometry[] {
+  const model = parseAndResolveIGES(fixtures("trimmed-surface.iges"));
+  expect(model.warnings).toEqual([]);
+  expect(model.geometry.map((g) => g.kind)).toEqual(["trimmedSurface", "trimmedSurface"]);
+  return model.geometry as TrimmedSurfaceGeometry[];
+}
+
+function triangles(mesh: MeshData): [Vec3, Vec3, Vec3][] {
+  const vertex = (index: number | undefined): Vec3 => {
+    const [x = 0, y = 0, z = 0] = mesh.positions.slice((index ?? 0) * 3, (index ?? 0) * 3 + 3);
+    return { x, y, z };
+  };
+  const out: [Vec3, Vec3, Vec3][] = [];
+  for (let i = 0; i < mesh.indices.length; i += 3) {
+    out.push([vertex(mesh.indices[i]), vertex(mesh.indices[i + 1]), vertex(mesh.indices[i + 2])]);
+  }
+  return out;
+}
+
+function meshArea(mesh: MeshData): number {
+  return triangles(mesh).reduce((area, [a, b, c]) => {
+    const ab = { x: b.x - a.x, y: b.y - a.y, z: b.z - a.z };
+    const ac = { x: c.x - a.x, y: c.y - a.y, z: c.z - a.z };
+    const cross = Math.hypot(
+      ab.y * ac.z - ab.z * ac.y,
+      ab.z * ac.x - ab.x * ac.z,
+      ab.x * ac.y - ab.y * ac.x
+    );
+    return area + cross / 2;
+  }, 0);
+}
+
+function centroidsOutsideHole(mesh: MeshData, radius: number): boolean {
+  return triangles(mesh).every(([a, b, c]) => {
+    const x = (a.x + b.x + c.x) / 3;
+    const y = (a.y + b.y + c.y) / 3;
+    return Math.hypot(x - 5, y - 5) >= radius * 0.95;
+  });
+}
+
+describe("Type 144 trimmed surface", () => {
+  it("links the base surface and Type 142 boundaries", () => {
+    const [trimmed, untrimmedOuter] = trimmedSurfaces();
+    expect(trimmed?.surface.kind).toBe("nurbsSurface");
+    expect(trimmed?.outer?.parameterCurve?.kind).toBe("compositeCurve");
+    expect(trimmed?.inner).toHaveLength(1);
+    expect(trimmed?.inner[0]?.parameterCurve?.kind).toBe("circularArc");
+    expect(untrimmedOuter?.outer).toBeNull();
+    expect(untrimmedOuter?.inner[0]?.parameterCurve).toBeNull();
+    expect(untrimmedOuter?.inner[0]?.modelCurve?.kind).toBe("circularArc");
+  });
+
+  it("tessellates the outer loop minus the hole in UV space", () => {
+    const [trimmed] = trimmedSurfaces();
+    if (!trimmed) throw new Error("missing trimmed surface");
+    const mesh = tessellateTrimmedSurface(trimmed, { uSegments: 16, vSegments: 16 });
+    expect(meshArea(mesh)).toBeCloseTo(64 - 4 * Math.PI, 1);
+    expect(centroidsOutsideHole(mesh, 2)).toBe(true);
+    for (let i = 2; i < mesh.positions.length; i += 3) expect(mesh.positions[i]).toBe(0);
+    for (let i = 2; i < mesh.normals.length; i += 3) {
+      expect(Math.abs(mesh.normals[i]!)).toBeCloseTo(1, 6);
+    }
+  });
+
+  it("uses the domain boundary and projects model-space hole curves", () => {
+    const [, raised] = trimmedSurfaces();
+    if (!raised) throw new Error("missing trimmed surface");
+    const mesh = tessellateTrimmedSurface(raised);
+    expect(meshArea(mesh)).toBeCloseTo(100 - 4 * Math.PI, 1);
+    expect(centroidsOutsideHole(mesh, 2)).toBe(true);
+    for (let i = 2; i < mesh.positions.length; i += 3) {
+      expect(mesh.positions[i]).toBeCloseTo(5, 9);
+    }
+  });
+});
+
+describe("triangulateRegion", () => {
+  it("keeps boundary edges and fills a square with a square hole", () => {
+    const outer = [
+      { x: 0, y: 0 },
+      { x: 4, y: 0 },
+      { x: 4, y: 4 },
+      { x: 0, y: 4 },
+    ];
+    const hole = [
+      { x: 1, y: 1 },
+      { x: 1, y: 3 },
+      { x: 3, y: 3 },
+      { x: 3, y: 1 },
+    ];
+    const { vertices, triangles } = triangulateRegion(
+      outer,
+      [hole],
+      [
+        { x: 0.5, y: 0.25 },
+        { x: 2, y: 2 },
+      ]
+    );
+    let area = 0;
+    for (let i = 0; i < triangles.length; i += 3) {
+      const [a, b, c] = triangles.slice(i, i + 3).map((k) => vertices[k] ?? { x: 0, y: 0 });
+      if (!a || !b || !c) throw new Error("incomplete triangle");
+      const signed = ((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x)) / 2;
+      expect(signed).toBeGreaterThan(0);
+      area += signed;
+    }
+    expect(area).toBeCloseTo(12, 9);
+    // The point inside the hole is not used; the one inside the region is.
+    expect(triangles).not.toContain(9);
+    expect(triangles).toContain(8);
+  });
+});
@@ -0,0 +1,119 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { validateIGES } from "../src/index.js";
+import { runValidator } from "../src/validate/runValidator.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtureDir = join(__dirname, "../../../test/fixtures");
+const fixtures = (name: string) => readFileSync(join(fixtureDir, name), "utf8");
+
+function run(...args: string[]): { code: number; output: string[] } {
+  const output: string[] = [];
+  const code = runValidator(args, (line) => output.push(line));
+  return { code, output };
+}
+
+describe("validateIGES", () => {
+  it("passes a conforming file", () => {
+    expect(validateIGES(fixtures("brep-block.iges"))).toEqual({
+      valid: true,
+      entityCount: 63,
+      diagnostics: [],
+    });
+    // Type 402 forms 3, 4, 19 (Views Visible) and 7 (group) each have their own layout.
+    expect(validateIGES(fixtures("views-visible.iges"))).toEqual({
+      valid: true,
+      entityCount: 9,
+      diagnostics: [],
+    });
+  });
+
+  it("checks Global fields, DE ranges, form numbers and pointers", () => {
+    const report = validateIGES(fixtures("nonconforming.iges"));
+    expect(report.valid).toBe(false);
+    expect(report.diagnostics.map((d) => [d.code, d.section, d.line])).toEqual([
+      ["POINTER_PARITY", "P", 6],
+      ["MISSING_GLOBAL_FIELD", "G", undefined],
+      ["INVALID_FORM", "D", 1],
+      ["DE_FIELD_RANGE", "D", 3],
+      ["POINTER_PARITY", "D", 7],
+      ["WRONG_REFERENCE_TYPE", "D", 9],
+    ]);
+    expect(report.diagnostics.every((d) => d.severity === "error")).toBe(true);
+    expect(report.diagnostics[0]!.message).toMatch(/parameter \d+ points at even DE \d+$/);
+    expect(report.diagnostics[3]!.message).toBe("DE 3: subordinate switch 4 is not 0–3");
+  });
+
+  it("reports parse violations as errors", () => {
+    const report = validateIGES(fixtures("malformed.iges"));
+    expect(report.entityCount).toBe(2);
+    expect(report.diagnostics.map((d) => [d.code, d.severity])).toEqual([
+      ["LINE_LENGTH", "error"],
+      ["SEQUENCE_NUMBER", "error"],
+      ["INVALID_DE_FIELD", "error"],
+      ["LINE_COUNT_MISMATCH", "error"],
+      ["INVALID_PD_FIELD", "error"],
+    ]);
+  });
+
+  it("reports a file without a T section instead of throwing", () => {
+    const text = fixtures("arc.iges").replace(/.{72}T\d{7}\n?$/, "");
+    expect(validateIGES(text)).toMatchObject({
+      valid: false,
+      diagnostics: [{ code: "MISSING_TERMINATE", severity: "error" }],
+    });
+  });
+});
+
+describe("iges-validate", () => {
+  it("exits 0 when every file is valid", () => {
+    const { code, output } = run(join(fixtureDir, "arc.iges"));
+    expect(code).toBe(0);
+    expect(output).toEqual([
+      `${join(fixtureDir, "arc.iges")}: ok (1 entities)`,
+      "1 of 1 file(s) valid",
+    ]);
+  });
+
+  it("lists each invalid file's problems and exits 1", () => {
+    const { code, output } = run(fixtureDir);
+    expect(code).toBe(1);
+    expect(output).toContain(`${join(fixtureDir, "nonconforming.iges")}: 6 problem(s)`);
+    expect(output).toContain("  INVALID_FORM D1: DE 1: form 3 is not defined for type 110");
+    expect(output[output.length - 1]).toMatch(/^\d+ of \d+ file\(s\) valid$/);
+  });
+
+  it("reports a file it cannot read and goes on with the others", () => {
+    const dir = mkdtempSync(join(tmpdir(), "iges-validate-"));
+    try {
+      writeFileSync(join(dir, "arc.iges"), fixtures("arc.iges"));
+      mkdirSync(join(dir, "folder.iges"));
+      writeFileSync(
+        join(dir, "probe.iges"),
+        fixtures("arc.iges")
+          .replace(/     100       /g, "     102       ")
+          .replace("100,0.,0.,0.,0.,1.,0.,-1.,0,0;", "102,5000000000,1;".padEnd(30))
+      );
+      const { code, output } = run(dir);
+      expect(code).toBe(1);
+      expect(output[0]).toBe(`${join(dir, "arc.iges")}: ok (1 entities)`);
+      expect(output[1]).toMatch(/folder\.iges: EISDIR/);
+      expect(output.slice(2)).toEqual([
+        `${join(dir, "probe.iges")}: ok (1 entities)`,
+        "2 of 3 file(s) valid",
+      ]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("exits 2 on a usage error", () => {
+    expect(run().code).toBe(2);
+    expect(run(join(fixtureDir, "missing")).output).toEqual([
+      `${join(fixtureDir, "missing")}: no such file or directory`,
+    ]);
+  });
+});
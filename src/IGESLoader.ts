@@ -1,10 +1,17 @@
 import { FileLoader, Group, Loader, LoadingManager } from "three";
-import { parseAndResolveIGES } from "iges-core";
+import { parseAndResolveIGES, type Diagnostic, type ParseMode } from "iges-core";
 import { toThreeGroup, type ToThreeOptions } from "./three/toThree.js";
 
 export interface IGESLoaderOptions extends ToThreeOptions {
   /** Pass through to iges-core parseIGES. */
   validateLineCounts?: boolean;
+  /** Pass through to iges-core parseIGES: `"strict"` throws on spec violations. */
+  mode?: ParseMode;
+  /**
+   * Called once per parse or resolve diagnostic, in the order they were found. Without it,
+   * diagnostics are only available on `parseAndResolveIGES()`'s model.
+   */
+  onDiagnostic?: (diagnostic: Diagnostic) => void;
 }
 
 /**
@@ -55,10 +62,11 @@ class IGESLoader extends Loader<Group> {
   parse(data: string): Group {
     const model = parseAndResolveIGES(data, {
       validateLineCounts: this.options.validateLineCounts,
+      mode: this.options.mode,
     });
 
-    if (model.warnings.length > 0) {
-      console.warn("[IGESLoader]", model.warnings.join("; "));
+    if (this.options.onDiagnostic) {
+      for (const d of model.diagnostics) this.options.onDiagnostic(d);
     }
 
     return toThreeGroup(model, this.options);
@@ -6,21 +6,73 @@ export {
   parseIGES,
   parseAndResolveIGES,
   resolveReferences,
+  validateIGES,
   IGESParseError,
   ENTITY_DECODERS,
   GEOMETRY_ENTITY_TYPES,
+  entityLevels,
+  listLevels,
+  lineThickness,
 } from "iges-core";
 
 export type {
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+  ParseMode,
+  ValidationReport,
   IGESModel,
   ResolvedIGESModel,
   GeometryEntity,
   GlobalSection,
   DirectoryEntry,
+  EntityStatus,
   RawEntity,
+  IGESColor,
+  LineFont,
+  IGESProperty,
+  IGESView,
+  IGESDrawing,
   PointGeometry,
   LineGeometry,
   CircularArcGeometry,
   PolylineGeometry,
   NurbsCurveGeometry,
+  CompositeCurveGeometry,
+  ConicArcGeometry,
+  ParametricSplineCurveGeometry,
+  NurbsSurfaceGeometry,
+  PlaneSurfaceGeometry,
+  CylindricalSurfaceGeometry,
+  ConicalSurfaceGeometry,
+  SphericalSurfaceGeometry,
+  ToroidalSurfaceGeometry,
+  RuledSurfaceGeometry,
+  SurfaceOfRevolutionGeometry,
+  TabulatedCylinderGeometry,
+  CurveOnSurfaceGeometry,
+  TrimmedSurfaceGeometry,
+  BrepSolidGeometry,
+  BrepShellGeometry,
+  BrepFaceGeometry,
+  BlockSolidGeometry,
+  WedgeSolidGeometry,
+  CylinderSolidGeometry,
+  ConeSolidGeometry,
+  SphereSolidGeometry,
+  TorusSolidGeometry,
+  EllipsoidSolidGeometry,
+  RevolutionSolidGeometry,
+  ExtrusionSolidGeometry,
+  SolidInstanceGeometry,
+  BooleanTreeGeometry,
+  BooleanTreeOperand,
+  SolidGeometry,
+  SubfigureDefinitionGeometry,
+  SubfigureInstanceGeometry,
+  NoteText,
+  NoteGeometry,
+  LeaderGeometry,
+  DimensionGeometry,
+  MeshData,
 } from "iges-core";
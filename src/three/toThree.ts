@@ -1,47 +1,151 @@
 import {
   BufferGeometry,
-  EllipseCurve,
+  DoubleSide,
   Float32BufferAttribute,
   Group,
   Line,
   LineBasicMaterial,
+  LineDashedMaterial,
+  LineSegments,
+  type Material,
+  Matrix4,
+  Mesh,
+  MeshStandardMaterial,
   Object3D,
+  Plane,
   Points,
   PointsMaterial,
-  Vector2,
   Vector3,
 } from "three";
-import type { ResolvedIGESModel, GeometryEntity, CircularArcGeometry } from "iges-core";
-import { sampleNurbsCurve } from "iges-core";
+import { Line2 } from "three/examples/jsm/lines/Line2.js";
+import { LineGeometry } from "three/examples/jsm/lines/LineGeometry.js";
+import { LineMaterial } from "three/examples/jsm/lines/LineMaterial.js";
+import { LineSegments2 } from "three/examples/jsm/lines/LineSegments2.js";
+import { LineSegmentsGeometry } from "three/examples/jsm/lines/LineSegmentsGeometry.js";
+import type {
+  ResolvedIGESModel,
+  GeometryEntity,
+  IGESColor,
+  IGESDrawing,
+  IGESGroup,
+  IGESProperty,
+  LineFont,
+  LineFontPattern,
+  CircularArcGeometry,
+  CompositeCurveGeometry,
+  MeshData,
+  NoteGeometry,
+  SubfigureDefinitionGeometry,
+  Transform3D,
+  Vec3,
+  ViewClipBox,
+} from "iges-core";
+import {
+  sampleCurve,
+  sampleNurbsCurve,
+  sampleParametricSpline,
+  surfaceEvaluator,
+  tessellateSurface,
+  tessellateTrimmedSurface,
+  tessellateBrepSolid,
+  tessellateBrepShell,
+  tessellateBrepFace,
+  tessellateSolid,
+  noteStrokes,
+  leaderStrokes,
+  dimensionStrokes,
+  viewGeometry,
+  drawingViewPlacement,
+  entityLevels,
+  listLevels,
+  lineThickness,
+} from "iges-core";
 
 export interface ToThreeOptions {
   /** Apply IGES Z-up → Three.js Y-up root rotation (default: true). */
   convertZUpToYUp?: boolean;
-  /** Samples per circular arc. */
+  /** Samples per circular or conic arc. */
   arcSegments?: number;
   /** Samples per NURBS curve segment. */
   nurbsSegments?: number;
-  /** Default line color when DE color is 0. */
+  /** Samples per parametric spline (Type 112) segment. */
+  splineSegments?: number;
+  /** Grid divisions per parametric direction when tessellating surfaces. */
+  surfaceSegments?: number;
+  /**
+   * Half-size drawn for unbounded surfaces (Type 190 planes, Type 192/194 axes) when they
+   * are not trimmed. Defaults to the Global section's approximate maximum coordinate, or 1.
+   */
+  unboundedSurfaceExtent?: number;
+  /** Color for entities without a DE color, or whose Type 314 could not be resolved. */
   defaultColor?: number;
+  /**
+   * Model-space unit of the standard dashed, phantom, centerline and dotted line fonts
+   * (a dashed line draws 3 units, skips 1.5). Defaults to 1% of the Global section's
+   * approximate maximum coordinate, or 1. Type 304 patterns use their own lengths.
+   */
+  lineFontScale?: number;
+  /**
+   * Draw curves as fat lines (`Line2` / `LineSegments2` with a `LineMaterial`) as wide as
+   * their DE line weight, in model units (see `lineThickness()`); weight 0 draws 1 px wide.
+   * `LineMaterial` needs the canvas size: set `material.resolution` on each of them when
+   * the renderer is resized. Default: false (1 px `LineBasicMaterial` lines).
+   */
+  fatLines?: boolean;
+  /**
+   * Builds the object for a General Note (Type 212), e.g. a text sprite. Return null to
+   * fall back to the built-in stroke font. `userData.iges.text` is set either way.
+   */
+  noteRenderer?: (note: NoteGeometry) => Object3D | null;
+  /** Draw notes, leaders and dimensions (default: true); false shows geometry only. */
+  showAnnotations?: boolean;
+  /** Draw entities whose DE status is blanked (default: false). */
+  showBlanked?: boolean;
+  /** Draw entities whose DE entity use is construction geometry (default: false). */
+  showConstruction?: boolean;
+  /**
+   * DE sequence of a Type 404 drawing (see `ResolvedIGESModel.drawings`) to output as a
+   * 2D sheet instead of the 3D model. Each view is projected, scaled and placed on the
+   * sheet, and clipped to its box with material clipping planes, which need
+   * `renderer.localClippingEnabled = true`.
+   */
+  drawing?: number;
+  /**
+   * Draw only entities on at least one of these levels (see `entityLevels()`; 0 is "no
+   * level"). Default: every level.
+   */
+  includeLevels?: number[];
+  /** Skip entities whose levels are all in this list. */
+  excludeLevels?: number[];
+  /**
+   * Expose levels for toggling at runtime. "layers" puts every object on one Three.js layer
+   * channel per level, so enable channels on the camera to show levels; the level → channel
+   * map is the root's `userData.iges.levelLayers` (levels sorted ascending get channels
+   * 1–31; any beyond the 31st share channel 31). "groups" nests the top-level objects of
+   * each level, outside Type 402 groups, under a `Group` named `LEVEL_<n>`. Default: neither.
+   */
+  levelMode?: "layers" | "groups";
 }
 
-const IGES_COLOR_MAP: Record<number, number> = {
-  1: 0x000000,
-  2: 0xff0000,
-  3: 0x00ff00,
-  4: 0x0000ff,
-  5: 0xffff00,
-  6: 0xff00ff,
-  7: 0x00ffff,
-  8: 0xffffff,
-};
-
 export function toThreeGroup(model: ResolvedIGESModel, options: ToThreeOptions = {}): Group {
   const {
     convertZUpToYUp = true,
     arcSegments = 48,
     nurbsSegments = 64,
+    splineSegments = 16,
+    surfaceSegments = 24,
+    unboundedSurfaceExtent = model.global.approximateMaxCoordinate || 1,
     defaultColor = 0x0066cc,
+    lineFontScale = (model.global.approximateMaxCoordinate || 100) / 100,
+    fatLines = false,
+    noteRenderer,
+    showAnnotations = true,
+    showBlanked = false,
+    showConstruction = false,
+    drawing,
+    includeLevels,
+    excludeLevels = [],
+    levelMode,
   } = options;
 
   const root = new Group();
@@ -51,27 +155,344 @@ export function toThreeGroup(model: ResolvedIGESModel, options: ToThreeOptions =
     root.rotation.x = -Math.PI / 2;
   }
 
+  const opts = {
+    arcSegments,
+    nurbsSegments,
+    splineSegments,
+    surfaceSegments,
+    unboundedSurfaceExtent,
+    defaultColor,
+    lineFontScale,
+    lineWidth: fatLines ? (weight: number) => lineThickness(model.global, weight) : null,
+    noteRenderer,
+    showAnnotations,
+    showBlanked,
+    showConstruction,
+    includeLevels: includeLevels ? new Set(includeLevels) : null,
+    excludeLevels: new Set(excludeLevels),
+    levelLayers: levelMode === "layers" ? levelChannels(listLevels(model)) : null,
+    levelGroups: levelMode === "groups",
+  };
+
+  if (drawing !== undefined) {
+    const sheet = model.drawings.find((d) => d.deSequence === drawing);
+    if (!sheet) throw new Error(`No Type 404 drawing at DE ${drawing}`);
+    drawingToThree(root, model, sheet, opts);
+    if (opts.levelLayers) root.userData.iges.levelLayers = Object.fromEntries(opts.levelLayers);
+    return root;
+  }
+
   const scale = model.global.modelSpaceScale || 1;
   if (scale !== 1) {
     root.scale.setScalar(scale);
   }
 
+  const subfigures: SubfigureCache = new Map();
+  const objects = new Map<number, Object3D>();
   for (const entity of model.geometry) {
-    const object = geometryEntityToThree(entity, { arcSegments, nurbsSegments, defaultColor });
-    if (object) root.add(object);
+    const object = entityToThree(entity, opts, subfigures);
+    if (!object) continue;
+    root.add(object);
+    objects.set(entity.deSequence, object);
   }
+  groupObjects(root, model.groups, objects);
+  if (opts.levelGroups) groupByLevel(root, model.geometry, objects);
+  if (opts.levelLayers) root.userData.iges = { levelLayers: Object.fromEntries(opts.levelLayers) };
 
   return root;
 }
 
+type EntityOptions = Required<
+  Pick<
+    ToThreeOptions,
+    | "arcSegments"
+    | "nurbsSegments"
+    | "splineSegments"
+    | "surfaceSegments"
+    | "unboundedSurfaceExtent"
+    | "defaultColor"
+    | "lineFontScale"
+    | "showAnnotations"
+    | "showBlanked"
+    | "showConstruction"
+  >
+> &
+  Pick<ToThreeOptions, "noteRenderer"> & {
+    includeLevels: Set<number> | null;
+    excludeLevels: Set<number>;
+    /** Level → layer channel for `levelMode: "layers"`. */
+    levelLayers: Map<number, number> | null;
+    levelGroups: boolean;
+    /** DE line weight → fat line width, when `fatLines` is set. */
+    lineWidth: ((lineWeight: number) => number) | null;
+  };
+
+/** Drafting annotation kinds hidden by `showAnnotations: false`. */
+const ANNOTATION_KINDS = new Set<GeometryEntity["kind"]>(["note", "leader", "dimension"]);
+
+/** Built Type 308 definitions; every Type 408 instance clones one, sharing its geometry. */
+type SubfigureCache = Map<SubfigureDefinitionGeometry, Object3D>;
+
+/**
+ * Convert one entity and attach what every object carries: `userData.iges` with the DE
+ * sequence, type, any Type 406 properties and non-default DE status flags, and the
+ * Type 406 name as `Object3D.name`.
+ */
+function entityToThree(
+  entity: GeometryEntity,
+  opts: EntityOptions,
+  subfigures: SubfigureCache
+): Object3D | null {
+  if (!opts.showAnnotations && ANNOTATION_KINDS.has(entity.kind)) return null;
+  if (!opts.showBlanked && entity.status.blanked) return null;
+  if (!opts.showConstruction && entity.status.entityUse === "construction") return null;
+  const levels = entityLevels(entity);
+  const shown = levels.filter(
+    (level) =>
+      (!opts.includeLevels || opts.includeLevels.has(level)) && !opts.excludeLevels.has(level)
+  );
+  if (shown.length === 0) return null;
+  let object = geometryEntityToThree(entity, opts, subfigures);
+  if (!object) return null;
+  // A Type 408 clone shares the lines its cached definition converted once for its members.
+  if (opts.lineWidth && entity.kind !== "subfigureInstance") {
+    object = toFatLines(object, opts.lineWidth(entity.lineWeight));
+  }
+  // Dashes follow the distance along each line, which the material cannot work out itself.
+  object.traverse((child) => {
+    if (child instanceof Line && child.material instanceof LineDashedMaterial) {
+      child.computeLineDistances();
+    }
+  });
+
+  object.userData.iges = {
+    deSequence: entity.deSequence,
+    type: entity.entityType,
+    ...object.userData.iges,
+    ...(entity.properties.length > 0 && { properties: entity.properties }),
+    ...(entity.status.blanked && { blanked: true }),
+    ...(entity.status.entityUse !== "geometry" && { entityUse: entity.status.entityUse }),
+    ...(entity.lineWeight > 0 && { lineWeight: entity.lineWeight }),
+    ...(entity.lineFont &&
+      entity.lineFont.pattern !== "solid" && { lineFont: entity.lineFont.pattern }),
+    ...((levels.length !== 1 || levels[0] !== 0) && { levels }),
+  };
+  const name = propertyName(entity.properties);
+  if (name) object.name = name;
+
+  // Set on the whole subtree: Three.js tests layers per object, not per parent.
+  const { levelLayers } = opts;
+  if (levelLayers) {
+    const channels = levels.flatMap((level) => levelLayers.get(level) ?? []);
+    if (channels.length > 0) {
+      object.traverse((child) => {
+        child.layers.disableAll();
+        for (const channel of channels) child.layers.enable(channel);
+      });
+    }
+  }
+  return object;
+}
+
+/** Layer channels 1–31 for the given levels in order; channel 0 stays the Three.js default. */
+function levelChannels(levels: number[]): Map<number, number> {
+  return new Map(levels.map((level, i) => [level, Math.min(i + 1, 31)]));
+}
+
+/**
+ * Move the objects of `entities` that are still direct children of `parent` under one
+ * `Group` per level, in ascending level order. Entities on several levels go with the
+ * first of them.
+ */
+function groupByLevel(
+  parent: Object3D,
+  entities: GeometryEntity[],
+  objects: Map<number, Object3D>
+): void {
+  const byLevel = new Map<number, Object3D[]>();
+  for (const entity of entities) {
+    const object = objects.get(entity.deSequence);
+    if (!object || object.parent !== parent) continue;
+    const [level = 0] = entityLevels(entity);
+    byLevel.set(level, [...(byLevel.get(level) ?? []), object]);
+  }
+  for (const level of [...byLevel.keys()].sort((a, b) => a - b)) {
+    const group = new Group();
+    group.name = `LEVEL_${level}`;
+    group.userData.iges = { level };
+    group.add(...byLevel.get(level)!);
+    parent.add(group);
+  }
+}
+
+/**
+ * Nest top-level objects under one `Group` per Type 402 association; groups may contain
+ * groups. An object listed by several groups stays with the first (lowest DE) of them.
+ */
+function groupObjects(root: Group, groups: IGESGroup[], objects: Map<number, Object3D>): void {
+  const groupNodes = new Map<number, Group>();
+  for (const group of groups) {
+    const object = new Group();
+    object.name = propertyName(group.properties) ?? `DE${group.deSequence}_402`;
+    object.userData.iges = {
+      deSequence: group.deSequence,
+      type: 402,
+      form: group.form,
+      ordered: group.ordered,
+      ...(group.properties.length > 0 && { properties: group.properties }),
+    };
+    groupNodes.set(group.deSequence, object);
+  }
+
+  const contains = (object: Object3D, target: Object3D) => {
+    for (let o: Object3D | null = object; o; o = o.parent) if (o === target) return true;
+    return false;
+  };
+  for (const group of groups) {
+    const object = groupNodes.get(group.deSequence)!;
+    for (const member of group.members) {
+      const target = groupNodes.get(member) ?? objects.get(member);
+      // Already claimed by another group, or would make the hierarchy cyclic.
+      if (!target || (target.parent && target.parent !== root) || contains(object, target)) {
+        continue;
+      }
+      object.add(target);
+    }
+  }
+  for (const object of groupNodes.values()) {
+    if (!object.parent) root.add(object);
+  }
+}
+
+/**
+ * Depth left to projected views, as a fraction of view-space depth. Flattening to exactly
+ * zero would make the view matrix singular (no normals, no depth clip planes); a sliver
+ * keeps both and lets nearer geometry still win the depth test.
+ */
+const VIEW_DEPTH_SCALE = 1e-3;
+
+/**
+ * Build a drawing sheet in drawing space: one `Group` per view holding the view's model
+ * geometry in its orientation, projected onto the sheet (see `VIEW_DEPTH_SCALE`), placed
+ * and scaled, plus the drawing's own annotations. Model-space scale does not apply to
+ * sheets.
+ */
+function drawingToThree(
+  root: Group,
+  model: ResolvedIGESModel,
+  drawing: IGESDrawing,
+  opts: EntityOptions
+): void {
+  root.name = propertyName(drawing.properties) ?? `DE${drawing.deSequence}_404`;
+  root.userData.iges = {
+    deSequence: drawing.deSequence,
+    type: 404,
+    ...(drawing.properties.length > 0 && { properties: drawing.properties }),
+  };
+
+  const subfigures: SubfigureCache = new Map();
+  const clipped: Array<[Group, ViewClipBox]> = [];
+  for (const placed of drawing.views) {
+    const { view } = placed;
+    const viewGroup = new Group();
+    viewGroup.name = propertyName(view.properties) ?? `DE${view.deSequence}_410`;
+    viewGroup.userData.iges = {
+      deSequence: view.deSequence,
+      type: 410,
+      viewNumber: view.viewNumber,
+      scale: view.scale,
+      clip: view.clip,
+      ...(view.properties.length > 0 && { properties: view.properties }),
+    };
+    placementToMatrix(drawingViewPlacement(placed)).decompose(
+      viewGroup.position,
+      viewGroup.quaternion,
+      viewGroup.scale
+    );
+    // The placement only rotates about Z, so squashing Z here projects along the view axis.
+    viewGroup.scale.z *= VIEW_DEPTH_SCALE;
+
+    const modelSpace = new Group();
+    modelSpace.name = `${viewGroup.name}_model`;
+    placementToMatrix(view.orientation).decompose(
+      modelSpace.position,
+      modelSpace.quaternion,
+      modelSpace.scale
+    );
+    const entities = viewGeometry(model, view);
+    const objects = new Map<number, Object3D>();
+    for (const entity of entities) {
+      const object = entityToThree(entity, opts, subfigures);
+      if (!object) continue;
+      modelSpace.add(object);
+      objects.set(entity.deSequence, object);
+    }
+    if (opts.levelGroups) groupByLevel(modelSpace, entities, objects);
+    viewGroup.add(modelSpace);
+    root.add(viewGroup);
+    clipped.push([viewGroup, view.clip]);
+  }
+
+  const annotations = new Map<number, Object3D>();
+  for (const annotation of drawing.annotations) {
+    const object = entityToThree(annotation, opts, subfigures);
+    if (!object) continue;
+    root.add(object);
+    annotations.set(annotation.deSequence, object);
+  }
+  if (opts.levelGroups) groupByLevel(root, drawing.annotations, annotations);
+
+  // Clipping planes are world-space, so place them once the sheet's matrices are known.
+  root.updateMatrixWorld(true);
+  for (const [viewGroup, clip] of clipped) {
+    const planes = clipPlanes(clip).map((plane) => plane.applyMatrix4(viewGroup.matrixWorld));
+    if (planes.length === 0) continue;
+    // Subfigure clones share materials across views; each view gets its own copies.
+    const withPlanes = (material: Material) => {
+      const copy = material.clone();
+      copy.clippingPlanes = planes;
+      return copy;
+    };
+    viewGroup.traverse((object) => {
+      if (!(object instanceof Mesh || object instanceof Line || object instanceof Points)) return;
+      object.material = Array.isArray(object.material)
+        ? object.material.map(withPlanes)
+        : withPlanes(object.material);
+    });
+  }
+}
+
+/** View-space planes keeping the inside of a clip box; unbounded sides get no plane. */
+function clipPlanes(clip: ViewClipBox): Plane[] {
+  const planes: Plane[] = [];
+  const bound = (value: number | null, x: number, y: number, z: number, sign: number) => {
+    if (value !== null) planes.push(new Plane(new Vector3(x, y, z), -sign * value));
+  };
+  bound(clip.xMin, 1, 0, 0, 1);
+  bound(clip.xMax, -1, 0, 0, -1);
+  bound(clip.yMin, 0, 1, 0, 1);
+  bound(clip.yMax, 0, -1, 0, -1);
+  bound(clip.zMin, 0, 0, 1, 1);
+  bound(clip.zMax, 0, 0, -1, -1);
+  return planes;
+}
+
+function propertyName(properties: IGESProperty[]): string | undefined {
+  for (const property of properties) {
+    if (property.kind === "name" && property.name) return property.name;
+  }
+  return undefined;
+}
+
 function geometryEntityToThree(
   entity: GeometryEntity,
-  opts: Required<Pick<ToThreeOptions, "arcSegments" | "nurbsSegments" | "defaultColor">>
+  opts: EntityOptions,
+  subfigures: SubfigureCache
 ): Object3D | null {
   if (entity.kind === "unsupported") return null;
 
-  const color = igesColorToHex(entity.colorNumber, opts.defaultColor);
-  const material = new LineBasicMaterial({ color });
+  const color = igesColorToHex(entity.color, opts.defaultColor);
+  const material = lineMaterial(entity.lineFont, color, opts.lineFontScale);
   const pointsMaterial = new PointsMaterial({ size: 4, sizeAttenuation: false, color });
 
   switch (entity.kind) {
@@ -122,6 +543,200 @@ function geometryEntityToThree(
       line.name = `DE${entity.deSequence}_126`;
       return line;
     }
+    case "conicArc": {
+      const samples = sampleCurve(entity, { arcSegments: opts.arcSegments });
+      const geom = new BufferGeometry().setFromPoints(
+        samples.map((p) => new Vector3(p.x, p.y, p.z))
+      );
+      const line = new Line(geom, material);
+      line.name = `DE${entity.deSequence}_104`;
+      line.userData.iges = { deSequence: entity.deSequence, type: 104, conic: entity.conicType };
+      return line;
+    }
+    case "parametricSplineCurve": {
+      const samples = sampleParametricSpline(
+        entity.breakpoints,
+        entity.segments,
+        opts.splineSegments
+      );
+      const geom = new BufferGeometry().setFromPoints(
+        samples.map((p) => new Vector3(p.x, p.y, p.z))
+      );
+      const line = new Line(geom, material);
+      line.name = `DE${entity.deSequence}_112`;
+      return line;
+    }
+    case "compositeCurve":
+      return compositeCurveToThree(entity, material, opts);
+    case "nurbsSurface":
+    case "planeSurface":
+    case "cylindricalSurface":
+    case "conicalSurface":
+    case "sphericalSurface":
+    case "toroidalSurface":
+    case "ruledSurface":
+    case "surfaceOfRevolution":
+    case "tabulatedCylinder": {
+      const data = tessellateSurface(entity, {
+        uSegments: opts.surfaceSegments,
+        vSegments: opts.surfaceSegments,
+        unboundedExtent: opts.unboundedSurfaceExtent,
+      });
+      const mesh = meshDataToThree(data, color);
+      mesh.name = `DE${entity.deSequence}_${entity.entityType}`;
+      mesh.userData.iges = { deSequence: entity.deSequence, type: entity.entityType };
+      return mesh;
+    }
+    case "trimmedSurface": {
+      const data = tessellateTrimmedSurface(entity, {
+        uSegments: opts.surfaceSegments,
+        vSegments: opts.surfaceSegments,
+        unboundedExtent: opts.unboundedSurfaceExtent,
+        arcSegments: opts.arcSegments,
+        nurbsSegments: opts.nurbsSegments,
+        splineSegments: opts.splineSegments,
+      });
+      const mesh = meshDataToThree(data, color);
+      mesh.name = `DE${entity.deSequence}_144`;
+      mesh.userData.iges = {
+        deSequence: entity.deSequence,
+        type: 144,
+        surfaceType: entity.surface.entityType,
+        holes: entity.inner.length,
+      };
+      return mesh;
+    }
+    case "brepSolid":
+    case "brepShell":
+    case "brepFace": {
+      // One mesh per solid (or standalone shell / face); shared edges are sampled once.
+      const tessellation = {
+        uSegments: opts.surfaceSegments,
+        vSegments: opts.surfaceSegments,
+        unboundedExtent: opts.unboundedSurfaceExtent,
+        arcSegments: opts.arcSegments,
+        nurbsSegments: opts.nurbsSegments,
+        splineSegments: opts.splineSegments,
+      };
+      const data =
+        entity.kind === "brepSolid"
+          ? tessellateBrepSolid(entity, tessellation)
+          : entity.kind === "brepShell"
+            ? tessellateBrepShell(entity, tessellation)
+            : tessellateBrepFace(entity, tessellation);
+      const faces =
+        entity.kind === "brepSolid"
+          ? entity.shell.faces.length + entity.voids.reduce((n, v) => n + v.shell.faces.length, 0)
+          : entity.kind === "brepShell"
+            ? entity.faces.length
+            : 1;
+      const mesh = meshDataToThree(data, color);
+      mesh.name = `DE${entity.deSequence}_${entity.entityType}`;
+      mesh.userData.iges = { deSequence: entity.deSequence, type: entity.entityType, faces };
+      return mesh;
+    }
+    case "blockSolid":
+    case "wedgeSolid":
+    case "cylinderSolid":
+    case "coneSolid":
+    case "sphereSolid":
+    case "torusSolid":
+    case "ellipsoidSolid":
+    case "revolutionSolid":
+    case "extrusionSolid":
+    case "solidInstance":
+    case "booleanTree": {
+      const data = tessellateSolid(entity, {
+        uSegments: opts.surfaceSegments,
+        vSegments: opts.surfaceSegments,
+        arcSegments: opts.arcSegments,
+        nurbsSegments: opts.nurbsSegments,
+        splineSegments: opts.splineSegments,
+      });
+      const mesh = meshDataToThree(data, color);
+      mesh.name = `DE${entity.deSequence}_${entity.entityType}`;
+      mesh.userData.iges =
+        entity.kind === "booleanTree"
+          ? {
+              deSequence: entity.deSequence,
+              type: 180,
+              unevaluatedOperands: entity.unevaluatedOperands,
+            }
+          : { deSequence: entity.deSequence, type: entity.entityType };
+      return mesh;
+    }
+    case "subfigureInstance": {
+      const group = new Group();
+      group.name = `DE${entity.deSequence}_408`;
+      group.userData.iges = {
+        deSequence: entity.deSequence,
+        type: 408,
+        definition: entity.definition.deSequence,
+        name: entity.definition.name,
+      };
+      // Object3D.clone() shares geometries and materials with the cached definition.
+      group.add(subfigureToThree(entity.definition, opts, subfigures).clone());
+      placementToMatrix(entity.placement).decompose(group.position, group.quaternion, group.scale);
+      return group;
+    }
+    case "note": {
+      const object = opts.noteRenderer?.(entity) ?? segmentsToLine(noteStrokes(entity), material);
+      object.name ||= `DE${entity.deSequence}_212`;
+      object.userData.iges = {
+        deSequence: entity.deSequence,
+        type: 212,
+        text: entity.strings.map((s) => s.text).join("\n"),
+        strings: entity.strings.map((s) => s.text),
+      };
+      return object;
+    }
+    case "leader": {
+      const line = segmentsToLine(leaderStrokes(entity), material);
+      line.name = `DE${entity.deSequence}_214`;
+      line.userData.iges = {
+        deSequence: entity.deSequence,
+        type: 214,
+        arrowhead: entity.arrowhead,
+      };
+      return line;
+    }
+    case "dimension": {
+      const group = new Group();
+      group.name = `DE${entity.deSequence}_${entity.entityType}`;
+      group.userData.iges = {
+        deSequence: entity.deSequence,
+        type: entity.entityType,
+        dimensionType: entity.dimensionType,
+        value: entity.value,
+        text: entity.note?.strings.map((s) => s.text).join("\n") ?? "",
+      };
+      const lines = segmentsToLine(dimensionStrokes(entity, opts), material);
+      lines.name = `${group.name}_lines`;
+      group.add(lines);
+      const note = entity.note && entityToThree(entity.note, opts, subfigures);
+      if (note) group.add(note);
+      return group;
+    }
+    case "curveOnSurface": {
+      // Standalone Type 142: draw the model-space curve, or map the UV curve through the surface.
+      let samples: Vec3[] = [];
+      if (entity.modelCurve) {
+        samples = sampleCurve(entity.modelCurve, opts);
+      } else if (entity.parameterCurve && entity.surface) {
+        const evaluator = surfaceEvaluator(entity.surface);
+        samples = sampleCurve(entity.parameterCurve, opts).map((uv) =>
+          evaluator.evaluate(uv.x, uv.y)
+        );
+      }
+      if (samples.length < 2) return null;
+      const geom = new BufferGeometry().setFromPoints(
+        samples.map((p) => new Vector3(p.x, p.y, p.z))
+      );
+      const line = new Line(geom, material);
+      line.name = `DE${entity.deSequence}_142`;
+      line.userData.iges = { deSequence: entity.deSequence, type: 142 };
+      return line;
+    }
     default:
       return null;
   }
@@ -132,33 +747,196 @@ function circularArcToLine(
   material: LineBasicMaterial,
   segments: number
 ): Line {
-  const startVector = new Vector2(
-    entity.start.x - entity.center.x,
-    entity.start.y - entity.center.y
-  );
-  const endVector = new Vector2(entity.end.x - entity.center.x, entity.end.y - entity.center.y);
-
-  const curve = new EllipseCurve(
-    entity.center.x,
-    entity.center.y,
-    entity.radius,
-    entity.radius,
-    startVector.angle(),
-    endVector.angle(),
-    false,
-    0
-  );
-
-  const points2d = curve.getPoints(segments);
-  const points3d = points2d.map((p) => new Vector3(p.x, p.y, entity.center.z));
-
-  const geom = new BufferGeometry().setFromPoints(points3d);
+  // Sampled in the arc's own plane, which a Type 124 transform may have rotated.
+  const points = sampleCurve(entity, { arcSegments: segments });
+  const geom = new BufferGeometry().setFromPoints(points.map((p) => new Vector3(p.x, p.y, p.z)));
   const line = new Line(geom, material);
   line.name = `DE${entity.deSequence}_100`;
   return line;
 }
 
-function igesColorToHex(colorNumber: number, fallback: number): number {
-  if (colorNumber <= 0) return fallback;
-  return IGES_COLOR_MAP[colorNumber] ?? fallback;
+/**
+ * One `Line` through all segments; a `Group` of lines (one per connected
+ * chain) when the composite curve has gaps.
+ */
+function compositeCurveToThree(
+  entity: CompositeCurveGeometry,
+  material: LineBasicMaterial,
+  opts: Pick<ToThreeOptions, "arcSegments" | "nurbsSegments" | "splineSegments">
+): Object3D {
+  const chains: Vec3[][] = [[]];
+  entity.segments.forEach((segment, index) => {
+    const chain = chains[chains.length - 1]!;
+    const samples = sampleCurve(segment, opts);
+    chain.push(...(chain.length > 0 ? samples.slice(1) : samples));
+    if (entity.gaps.some((gap) => gap.afterSegment === index)) {
+      chains.push([]);
+    }
+  });
+
+  const name = `DE${entity.deSequence}_102`;
+  const userData = {
+    iges: { deSequence: entity.deSequence, type: 102, gaps: entity.gaps.length },
+  };
+  const lines = chains
+    .filter((chain) => chain.length > 1)
+    .map((chain) => {
+      const geom = new BufferGeometry().setFromPoints(chain.map((p) => new Vector3(p.x, p.y, p.z)));
+      return new Line(geom, material);
+    });
+
+  if (lines.length === 1) {
+    const line = lines[0]!;
+    line.name = name;
+    line.userData = userData;
+    return line;
+  }
+
+  const group = new Group();
+  group.name = name;
+  group.userData = userData;
+  lines.forEach((line, i) => {
+    line.name = `${name}_chain${i}`;
+    group.add(line);
+  });
+  return group;
+}
+
+/** A Type 308 definition as a `Group` in definition space, built once per definition. */
+function subfigureToThree(
+  definition: SubfigureDefinitionGeometry,
+  opts: EntityOptions,
+  subfigures: SubfigureCache
+): Object3D {
+  const cached = subfigures.get(definition);
+  if (cached) return cached;
+
+  const group = new Group();
+  group.name = `DE${definition.deSequence}_308`;
+  group.userData.iges = {
+    deSequence: definition.deSequence,
+    type: 308,
+    name: definition.name,
+    depth: definition.depth,
+  };
+  for (const member of definition.members) {
+    const object = entityToThree(member, opts, subfigures);
+    if (object) group.add(object);
+  }
+  subfigures.set(definition, group);
+  return group;
+}
+
+function placementToMatrix({ matrix: m, translation: t }: Transform3D): Matrix4 {
+  // prettier-ignore
+  return new Matrix4().set(
+    m[0], m[1], m[2], t.x,
+    m[3], m[4], m[5], t.y,
+    m[6], m[7], m[8], t.z,
+    0, 0, 0, 1
+  );
+}
+
+/** Dash and gap of the standard line fonts, in `lineFontScale` units; null draws solid. */
+const STANDARD_DASHES: Record<LineFontPattern, [number, number] | null> = {
+  solid: null,
+  dashed: [3, 1.5],
+  phantom: [6, 1.5],
+  centerline: [8, 2],
+  dotted: [0.25, 1],
+};
+
+/**
+ * Material for a curve in its line font. `LineDashedMaterial` has a single dash and gap,
+ * so multi-segment patterns (phantom, centerline, Type 304) draw the visible and blank
+ * lengths of one repeat as one dash and one gap.
+ */
+function lineMaterial(lineFont: LineFont | null, color: number, scale: number): LineBasicMaterial {
+  let dash: [number, number] | null = null;
+  if (lineFont?.pattern === "defined") {
+    const length = (visible: boolean) =>
+      lineFont.segments.reduce((sum, s) => (s.visible === visible ? sum + s.length : sum), 0);
+    dash = [length(true), length(false)];
+  } else if (lineFont) {
+    const standard = STANDARD_DASHES[lineFont.pattern];
+    if (standard) dash = [standard[0] * scale, standard[1] * scale];
+  }
+  if (!dash || dash[0] <= 0 || dash[1] <= 0) return new LineBasicMaterial({ color });
+  return new LineDashedMaterial({ color, dashSize: dash[0], gapSize: dash[1] });
+}
+
+/**
+ * Replace every `Line` in `object` (or `object` itself) with a fat line `width` model units
+ * wide, or 1 px when `width` is 0. Lines already converted by a member entity are kept.
+ */
+function toFatLines(object: Object3D, width: number): Object3D {
+  const lines: Line[] = [];
+  object.traverse((child) => {
+    if (child instanceof Line) lines.push(child);
+  });
+  let result = object;
+  for (const line of lines) {
+    const fat = fatLine(line, width);
+    const parent = line.parent;
+    if (!parent) {
+      result = fat;
+      continue;
+    }
+    // Re-add the later siblings too, so the fat line keeps the line's place among them.
+    const later = parent.children.slice(parent.children.indexOf(line) + 1);
+    parent.remove(line, ...later);
+    parent.add(fat, ...later);
+  }
+  return result;
+}
+
+/** `Line2` or `LineSegments2` with the line's points, color, dashes, transform and data. */
+function fatLine(line: Line, width: number): Line2 | LineSegments2 {
+  const position = line.geometry.getAttribute("position");
+  const points: number[] = [];
+  for (let i = 0; i < position.count; i++) {
+    points.push(position.getX(i), position.getY(i), position.getZ(i));
+  }
+  const basic = line.material as LineBasicMaterial;
+  const dashed = basic instanceof LineDashedMaterial;
+  const material = new LineMaterial({
+    color: basic.color.getHex(),
+    linewidth: width > 0 ? width : 1,
+    worldUnits: width > 0,
+    ...(dashed && { dashed, dashSize: basic.dashSize, gapSize: basic.gapSize }),
+  });
+
+  const fat =
+    line instanceof LineSegments
+      ? new LineSegments2(new LineSegmentsGeometry().setPositions(points), material)
+      : new Line2(new LineGeometry().setPositions(points), material);
+  if (dashed) fat.computeLineDistances();
+  fat.name = line.name;
+  fat.userData = line.userData;
+  fat.position.copy(line.position);
+  fat.quaternion.copy(line.quaternion);
+  fat.scale.copy(line.scale);
+  if (line.children.length > 0) fat.add(...line.children);
+  return fat;
+}
+
+/** `LineSegments` from point pairs produced by the `iges-core` stroke helpers. */
+function segmentsToLine(points: Vec3[], material: LineBasicMaterial): LineSegments {
+  const geom = new BufferGeometry().setFromPoints(points.map((p) => new Vector3(p.x, p.y, p.z)));
+  return new LineSegments(geom, material);
+}
+
+/** Indexed `Mesh` from display-neutral mesh data produced by `iges-core`. */
+function meshDataToThree(data: MeshData, color: number): Mesh {
+  const geom = new BufferGeometry();
+  geom.setAttribute("position", new Float32BufferAttribute(data.positions, 3));
+  geom.setAttribute("normal", new Float32BufferAttribute(data.normals, 3));
+  geom.setIndex(data.indices);
+  return new Mesh(geom, new MeshStandardMaterial({ color, side: DoubleSide }));
+}
+
+function igesColorToHex(color: IGESColor | null, fallback: number): number {
+  if (!color) return fallback;
+  const byte = (channel: number) => Math.round(channel * 255);
+  return (byte(color.r) << 16) | (byte(color.g) << 8) | byte(color.b);
 }
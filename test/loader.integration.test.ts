@@ -1,10 +1,13 @@
 import fs from "node:fs";
 import { dirname, join } from "node:path";
 import { fileURLToPath } from "node:url";
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import * as THREE from "three";
-import { IGESLoader } from "../src/IGESLoader.js";
-import { parseAndResolveIGES, toThreeGroup } from "../src/index.js";
+import { Line2 } from "three/examples/jsm/lines/Line2.js";
+import { LineSegments2 } from "three/examples/jsm/lines/LineSegments2.js";
+import type { LineMaterial } from "three/examples/jsm/lines/LineMaterial.js";
+import { IGESLoader, type IGESLoaderOptions } from "../src/IGESLoader.js";
+import { parseAndResolveIGES, toThreeGroup, type Diagnostic } from "../src/index.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const fixture = (name: string) => fs.readFileSync(join(__dirname, "fixtures", name), "utf8");
@@ -48,4 +51,418 @@ describe("IGESLoader", () => {
     const group = toThreeGroup(resolved);
     expect(group.children.length).toBe(resolved.geometry.length);
   });
+
+  it("should draw each composite curve as one object", () => {
+    const loader = new IGESLoader();
+    const group = loader.parse(fixture("composite.iges"));
+    expect(group.children.map((c) => c.name)).toEqual(["DE9_102", "DE15_102"]);
+    expect(group.children[0]).toBeInstanceOf(THREE.Line);
+    expect(group.children[1]).toBeInstanceOf(THREE.Group);
+    expect(group.children[1]!.children).toHaveLength(2);
+  });
+
+  it("should tessellate conic arcs", () => {
+    const loader = new IGESLoader(undefined, { arcSegments: 16 });
+    const group = loader.parse(fixture("conic.iges"));
+    expect(group.children).toHaveLength(4);
+    const ellipse = group.children[0] as THREE.Line;
+    expect(ellipse.name).toBe("DE1_104");
+    expect(ellipse.geometry.attributes.position!.count).toBe(17);
+  });
+
+  it("should sample parametric splines per segment", () => {
+    const loader = new IGESLoader(undefined, { splineSegments: 4 });
+    const group = loader.parse(fixture("spline.iges"));
+    const spline = group.children[0] as THREE.Line;
+    expect(spline.name).toBe("DE1_112");
+    expect(spline.geometry.attributes.position!.count).toBe(9);
+  });
+
+  it("should mesh NURBS surfaces with normals", () => {
+    const loader = new IGESLoader(undefined, { surfaceSegments: 4 });
+    const group = loader.parse(fixture("nurbs-surface.iges"));
+    const mesh = group.children[0] as THREE.Mesh;
+    expect(mesh).toBeInstanceOf(THREE.Mesh);
+    expect(mesh.name).toBe("DE1_128");
+    expect(mesh.geometry.index!.count).toBe(4 * 4 * 6);
+    expect(mesh.geometry.attributes.normal!.count).toBe(25);
+  });
+
+  it("should mesh trimmed surfaces with their holes", () => {
+    const loader = new IGESLoader(undefined, { surfaceSegments: 8 });
+    const group = loader.parse(fixture("trimmed-surface.iges"));
+    expect(group.children.map((c) => c.name)).toEqual(["DE19_144", "DE29_144"]);
+    const mesh = group.children[0] as THREE.Mesh;
+    expect(mesh).toBeInstanceOf(THREE.Mesh);
+    expect(mesh.userData.iges).toMatchObject({ type: 144, surfaceType: 128, holes: 1 });
+    expect(mesh.geometry.index!.count).toBeGreaterThan(0);
+  });
+
+  it("should mesh analytic surfaces", () => {
+    const loader = new IGESLoader(undefined, { surfaceSegments: 8 });
+    const group = loader.parse(fixture("analytic-surfaces.iges"));
+    expect(group.children.map((c) => c.name)).toEqual([
+      "DE11_192",
+      "DE13_194",
+      "DE17_196",
+      "DE19_198",
+      "DE21_192",
+      "DE29_144",
+      "DE31_190",
+    ]);
+    const sphere = group.children[2] as THREE.Mesh;
+    expect(sphere).toBeInstanceOf(THREE.Mesh);
+    expect(sphere.geometry.attributes.normal!.count).toBe(81);
+  });
+
+  it("should mesh ruled, revolved and tabulated surfaces", () => {
+    const loader = new IGESLoader(undefined, { surfaceSegments: 8 });
+    const group = loader.parse(fixture("swept-surfaces.iges"));
+    expect(group.children.map((c) => c.name)).toEqual(["DE15_120", "DE21_118", "DE25_122"]);
+    const shaft = group.children[0] as THREE.Mesh;
+    expect(shaft).toBeInstanceOf(THREE.Mesh);
+    // 9 even columns along the lathe profile plus its 4 corners, 9 rows around the axis.
+    expect(shaft.geometry.attributes.position!.count).toBe(13 * 9);
+  });
+
+  it("should mesh a B-rep solid as one watertight mesh", () => {
+    const loader = new IGESLoader(undefined, { surfaceSegments: 6, arcSegments: 24 });
+    const group = loader.parse(fixture("brep-block.iges"));
+    expect(group.children).toHaveLength(1);
+    const mesh = group.children[0] as THREE.Mesh;
+    expect(mesh).toBeInstanceOf(THREE.Mesh);
+    expect(mesh.name).toBe("DE125_186");
+    expect(mesh.userData.iges).toMatchObject({ type: 186, faces: 7 });
+    expect(mesh.geometry.index!.count % 3).toBe(0);
+  });
+
+  it("should mesh CSG primitives and evaluate Boolean trees", () => {
+    const loader = new IGESLoader(undefined, { surfaceSegments: 12 });
+    const group = loader.parse(fixture("csg-primitives.iges"));
+    expect(group.children.map((c) => c.name)).toEqual([
+      "DE5_180",
+      "DE11_180",
+      "DE17_180",
+      "DE23_430",
+      "DE29_180",
+      "DE31_156",
+      "DE33_160",
+      "DE35_152",
+      "DE37_168",
+      "DE41_162",
+      "DE45_164",
+    ]);
+    expect(group.children.every((c) => c instanceof THREE.Mesh)).toBe(true);
+    expect(group.children[4]!.userData.iges).toEqual({
+      deSequence: 29,
+      type: 180,
+      unevaluatedOperands: [25],
+    });
+  });
+
+  it("should place subfigure instances that share one definition's geometry", () => {
+    const loader = new IGESLoader();
+    const group = loader.parse(fixture("subfigures.iges"));
+    expect(group.children.map((c) => c.name)).toEqual(["DE7_408", "DE9_408", "DE21_408"]);
+    const [plain, rotated, panel] = group.children as THREE.Group[];
+    expect(rotated!.userData.iges).toMatchObject({ type: 408, definition: 5, name: "CONN" });
+    expect(rotated!.scale.x).toBeCloseTo(2, 12);
+    expect(rotated!.position.z).toBeCloseTo(5, 12);
+
+    const pin = (object: THREE.Object3D) => object.getObjectByName("DE1_110") as THREE.Line;
+    expect(pin(rotated!).geometry).toBe(pin(plain!).geometry);
+    expect(pin(rotated!).material).toBe(pin(plain!).material);
+
+    // The nested panel holds two more connectors, still on the same geometry.
+    const pins: THREE.Line[] = [];
+    panel!.traverse((o) => {
+      if (o.name === "DE1_110") pins.push(o as THREE.Line);
+    });
+    expect(pins).toHaveLength(2);
+    expect(pins.every((line) => line.geometry === pin(plain!).geometry)).toBe(true);
+
+    group.updateMatrixWorld(true);
+    const end = new THREE.Vector3(2, 0, 0).applyMatrix4(pins[1]!.matrixWorld);
+    // Slot 2 sits at x = 4 in the panel, the panel at y = 20; the root turns Z-up to Y-up.
+    expect(end.x).toBeCloseTo(6, 9);
+    expect(end.y).toBeCloseTo(0, 9);
+    expect(end.z).toBeCloseTo(-20, 9);
+  });
+
+  it("should color entities from standard numbers and Type 314 definitions", () => {
+    const loader = new IGESLoader(undefined, { defaultColor: 0x123456 });
+    const group = loader.parse(fixture("colors.iges"));
+    const hex = (name: string) =>
+      (
+        (group.getObjectByName(name) as THREE.Line).material as THREE.LineBasicMaterial
+      ).color.getHex();
+    expect(hex("DE3_110")).toBe(0xff8000);
+    expect(hex("DE5_110")).toBe(0xff0000);
+    expect(hex("DE7_110")).toBe(0x123456);
+    expect(hex("DE9_110")).toBe(0x123456);
+    expect(hex("DE13_100")).toBe(0x336699);
+  });
+
+  it("should name objects from Type 406 properties and keep them in userData", () => {
+    const loader = new IGESLoader();
+    const group = loader.parse(fixture("properties.iges"));
+    expect(group.children.map((c) => c.name)).toEqual([
+      "BRACKET",
+      "DE9_100",
+      "DE15_116",
+      "DE17_110",
+      "DE19_110",
+    ]);
+    expect(group.children[0]!.userData.iges).toMatchObject({
+      deSequence: 7,
+      type: 110,
+      properties: [{ kind: "name" }, { kind: "lineWidening", width: 0.5 }],
+    });
+    expect(group.children[1]!.userData.iges.properties).toEqual([
+      { deSequence: 3, form: 1, kind: "definitionLevels", levels: [1, 5, 9] },
+    ]);
+    expect(group.children[3]!.userData.iges).toEqual({ deSequence: 17, type: 110 });
+  });
+
+  it("should nest objects under one group per Type 402 association", () => {
+    const loader = new IGESLoader();
+    const group = loader.parse(fixture("groups.iges"));
+    const tree = (object: THREE.Object3D): unknown =>
+      object.children.length > 0 ? { [object.name]: object.children.map(tree) } : object.name;
+    // Spoke A stays in WHEEL (the lowest DE group listing it); DE 15 ends up empty.
+    expect(group.children.map(tree)).toEqual([
+      { DE13_402: [{ WHEEL: ["DE1_110", "DE3_110"] }, "DE5_100"] },
+      "DE15_402",
+      { DE17_402: ["DE7_116"] },
+    ]);
+    expect(group.getObjectByName("WHEEL")!.userData.iges).toMatchObject({
+      deSequence: 11,
+      type: 402,
+      form: 7,
+      ordered: false,
+    });
+  });
+
+  it("should draw general notes with the stroke font and keep their text", () => {
+    const loader = new IGESLoader();
+    const group = loader.parse(fixture("notes.iges"));
+    const note = group.getObjectByName("DE1_212") as THREE.LineSegments;
+    expect(note).toBeInstanceOf(THREE.LineSegments);
+    expect(note.geometry.getAttribute("position").count).toBeGreaterThan(0);
+    expect(note.userData.iges).toEqual({
+      deSequence: 1,
+      type: 212,
+      text: "PART NO 42\nrev b",
+      strings: ["PART NO 42", "rev b"],
+    });
+  });
+
+  it("should let a note renderer replace the stroke font", () => {
+    const loader = new IGESLoader(undefined, {
+      noteRenderer: (note) => (note.deSequence === 1 ? new THREE.Sprite() : null),
+    });
+    const group = loader.parse(fixture("notes.iges"));
+    const sprite = group.getObjectByName("DE1_212")!;
+    expect(sprite).toBeInstanceOf(THREE.Sprite);
+    expect(sprite.userData.iges.text).toBe("PART NO 42\nrev b");
+    expect(group.getObjectByName("DE3_212")).toBeInstanceOf(THREE.LineSegments);
+  });
+
+  it("should draw dimensions as wireframe with their notes", () => {
+    const loader = new IGESLoader();
+    const group = loader.parse(fixture("dimensions.iges"));
+    const linear = group.getObjectByName("DE11_216")!;
+    expect(linear.userData.iges).toEqual({
+      deSequence: 11,
+      type: 216,
+      dimensionType: "linear",
+      value: 25,
+      text: "25.0",
+    });
+    expect(linear.children.map((c) => c.name)).toEqual(["DE11_216_lines", "DE1_212"]);
+    expect(linear.children[0]).toBeInstanceOf(THREE.LineSegments);
+    expect(group.getObjectByName("DE49_214")!.userData.iges).toMatchObject({ arrowhead: "circle" });
+  });
+
+  it("should hide annotations when showAnnotations is false", () => {
+    const loader = new IGESLoader(undefined, { showAnnotations: false });
+    expect(loader.parse(fixture("dimensions.iges")).children).toHaveLength(0);
+    expect(loader.parse(fixture("notes.iges")).children).toHaveLength(0);
+    expect(loader.parse(fixture("slot.iges")).children).toHaveLength(6);
+  });
+
+  it("should output the 3D model or a chosen drawing sheet", () => {
+    const model = new IGESLoader().parse(fixture("drawing.iges"));
+    expect(model.children.map((c) => c.name)).toEqual(["DE1_110", "DE3_110", "DE5_100", "DE7_116"]);
+
+    const sheet = new IGESLoader(undefined, { drawing: 17, convertZUpToYUp: false }).parse(
+      fixture("drawing.iges")
+    );
+    expect(sheet.name).toBe("DE17_404");
+    expect(sheet.children.map((c) => c.name)).toEqual(["TOP", "DE15_410", "DE19_212"]);
+
+    const top = sheet.getObjectByName("TOP")!;
+    expect(top.userData.iges).toMatchObject({ type: 410, scale: 2, clip: { xMax: 8 } });
+    expect(top.position.toArray()).toEqual([100, 50, 0]);
+    expect(top.scale.x).toBe(2);
+    expect(top.children[0]!.children.map((c) => c.name)).toEqual(["DE1_110", "DE3_110", "DE5_100"]);
+    // DE3 runs 10 units along the top view's axis; projected, it keeps only a sliver of depth.
+    const depth = new THREE.Box3().setFromObject(top.getObjectByName("DE3_110")!);
+    expect(depth.min.z).toBeCloseTo(0);
+    expect(depth.max.z).toBeCloseTo(0.02);
+    // x = 8 in view space sits at 100 + 2 · 8 on the sheet.
+    const lineMaterial = (parent: THREE.Object3D) =>
+      (parent.getObjectByName("DE1_110") as THREE.Line).material as THREE.LineBasicMaterial;
+    const [plane] = lineMaterial(top).clippingPlanes!;
+    expect(plane!.normal.x).toBeCloseTo(-1);
+    expect(plane!.constant).toBeCloseTo(116);
+
+    const front = sheet.getObjectByName("DE15_410")!;
+    expect(front.children[0]!.children.map((c) => c.name)).toEqual([
+      "DE1_110",
+      "DE3_110",
+      "DE7_116",
+    ]);
+    expect(lineMaterial(front).clippingPlanes).toBeNull();
+  });
+
+  it("should reject a drawing that is not in the file", () => {
+    const loader = new IGESLoader(undefined, { drawing: 3 });
+    expect(() => loader.parse(fixture("drawing.iges"))).toThrow("No Type 404 drawing at DE 3");
+  });
+
+  it("should hide blanked and construction entities unless asked", () => {
+    const names = (options: IGESLoaderOptions) =>
+      new IGESLoader(undefined, options).parse(fixture("status.iges")).children.map((c) => c.name);
+    expect(names({})).toEqual(["DE1_110", "DE11_102", "DE13_100", "DE17_110"]);
+    expect(names({ showBlanked: true, showConstruction: true })).toEqual([
+      "DE1_110",
+      "DE3_110",
+      "DE5_110",
+      "DE11_102",
+      "DE13_100",
+      "DE15_116",
+      "DE17_110",
+    ]);
+
+    const group = new IGESLoader(undefined, { showBlanked: true, showConstruction: true }).parse(
+      fixture("status.iges")
+    );
+    expect(group.getObjectByName("DE15_116")!.userData.iges).toEqual({
+      deSequence: 15,
+      type: 116,
+      blanked: true,
+      entityUse: "construction",
+    });
+    expect(group.getObjectByName("DE13_100")!.userData.iges.entityUse).toBe("annotation");
+  });
+
+  it("should filter levels and expose them as layers or groups", () => {
+    const names = (options: IGESLoaderOptions) =>
+      new IGESLoader(undefined, options).parse(fixture("levels.iges")).children.map((c) => c.name);
+    expect(names({ includeLevels: [10] })).toEqual(["DE3_110", "DE7_110"]);
+    // DE 7 is also on level 30, so excluding level 10 alone keeps it.
+    expect(names({ excludeLevels: [0, 10] })).toEqual(["DE5_110", "DE7_110", "DE13_116"]);
+
+    const layered = new IGESLoader(undefined, { levelMode: "layers" }).parse(
+      fixture("levels.iges")
+    );
+    expect(layered.userData.iges.levelLayers).toEqual({ 0: 1, 10: 2, 20: 3, 30: 4 });
+    const camera = new THREE.Camera();
+    camera.layers.set(2);
+    const visible = layered.children.filter((c) => c.layers.test(camera.layers));
+    expect(visible.map((c) => c.name)).toEqual(["DE3_110", "DE7_110"]);
+    expect(layered.getObjectByName("DE7_110")!.userData.iges.levels).toEqual([10, 30]);
+
+    const grouped = new IGESLoader(undefined, { levelMode: "groups" }).parse(
+      fixture("levels.iges")
+    );
+    expect(grouped.children.map((c) => [c.name, c.children.map((o) => o.name)])).toEqual([
+      ["LEVEL_0", ["DE1_110", "DE11_110"]],
+      ["LEVEL_10", ["DE3_110", "DE7_110"]],
+      ["LEVEL_20", ["DE5_110", "DE13_116"]],
+    ]);
+  });
+
+  it("should draw line fonts with dashed materials", () => {
+    const group = new IGESLoader().parse(fixture("linefonts.iges"));
+    const line = (name: string) => group.getObjectByName(name) as THREE.Line;
+    const dashes = (name: string) => {
+      const material = line(name).material as THREE.LineDashedMaterial;
+      return material.isLineDashedMaterial ? [material.dashSize, material.gapSize] : null;
+    };
+    expect(dashes("DE1_110")).toBeNull();
+    expect(dashes("DE3_110")).toEqual([3, 1.5]);
+    expect(dashes("DE9_110")).toEqual([0.25, 1]);
+    expect(dashes("DE13_110")).toEqual([5, 2]);
+    expect(dashes("DE17_110")).toBeNull();
+    expect(line("DE3_110").geometry.getAttribute("lineDistance").array).toEqual(
+      new Float32Array([0, 10])
+    );
+    expect(line("DE11_100").geometry.getAttribute("lineDistance")).toBeDefined();
+    expect(line("DE5_110").userData.iges.lineFont).toBe("phantom");
+
+    const scaled = new IGESLoader(undefined, { lineFontScale: 2 }).parse(fixture("linefonts.iges"));
+    const material = (scaled.getObjectByName("DE7_110") as THREE.Line)
+      .material as THREE.LineDashedMaterial;
+    expect([material.dashSize, material.gapSize]).toEqual([16, 4]);
+  });
+
+  it("should draw fat lines as wide as their DE line weight", () => {
+    const thin = new IGESLoader().parse(fixture("lineweights.iges"));
+    expect(thin.getObjectByName("DE3_110")).toBeInstanceOf(THREE.Line);
+    expect(thin.getObjectByName("DE3_110")!.userData.iges.lineWeight).toBe(4);
+
+    const group = new IGESLoader(undefined, { fatLines: true }).parse(fixture("lineweights.iges"));
+    const material = (name: string) =>
+      (group.getObjectByName(name) as Line2).material as LineMaterial;
+    expect(group.getObjectByName("DE3_110")).toBeInstanceOf(Line2);
+    expect([material("DE1_110").linewidth, material("DE1_110").worldUnits]).toEqual([1, false]);
+    expect([material("DE3_110").linewidth, material("DE3_110").worldUnits]).toEqual([0.04, true]);
+    expect(material("DE7_110").linewidth).toBe(0.08);
+    expect(material("DE9_110")).toMatchObject({ dashed: true, dashSize: 3, gapSize: 1.5 });
+    expect(material("DE3_110").color.getHex()).toBe(0x0066cc);
+
+    expect(group.getObjectByName("DE13_102")).toBeInstanceOf(Line2);
+    expect(material("DE13_102").linewidth).toBeCloseTo(0.06);
+    const note = group.getObjectByName("DE15_212") as LineSegments2;
+    expect(note).toBeInstanceOf(LineSegments2);
+    expect(note.userData.iges.text).toBe("AB");
+  });
+
+  it("should keep fat lines shared across subfigure instances and in place in groups", () => {
+    const loader = new IGESLoader(undefined, { fatLines: true });
+    const [plain, rotated] = loader.parse(fixture("subfigures.iges")).children;
+    const pin = (object: THREE.Object3D) => object.getObjectByName("DE1_110") as Line2;
+    expect(pin(rotated!)).toBeInstanceOf(Line2);
+    expect(pin(rotated!).geometry).toBe(pin(plain!).geometry);
+
+    const plainGapped = new IGESLoader().parse(fixture("composite.iges")).children[1]!;
+    const gapped = loader.parse(fixture("composite.iges")).children[1]!;
+    expect(gapped.children.map((c) => c.name)).toEqual(plainGapped.children.map((c) => c.name));
+    expect(gapped.children.every((c) => c instanceof Line2 && c.parent === gapped)).toBe(true);
+  });
+
+  it("should pass diagnostics to onDiagnostic instead of the console", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const diagnostics: Diagnostic[] = [];
+    new IGESLoader(undefined, { onDiagnostic: (d) => diagnostics.push(d) }).parse(
+      fixture("drawing.iges")
+    );
+    expect(diagnostics.map((d) => d.code)).toEqual([
+      "UNSUPPORTED_ENTITY",
+      "UNSUPPORTED_FORM",
+      "WRONG_REFERENCE_TYPE",
+    ]);
+    expect(diagnostics[2]).toMatchObject({ deSequence: 29, section: "P" });
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("should skip malformed entities unless parsing strictly", () => {
+    const group = new IGESLoader().parse(fixture("malformed.iges"));
+    expect(group.children.map((c) => c.name)).toEqual(["DE1_110", "DE7_116"]);
+    const strict = new IGESLoader(undefined, { mode: "strict" });
+    expect(() => strict.parse(fixture("malformed.iges"))).toThrow("Line 1 is 81 columns");
+  });
 });
@@ -1,9 +1,10 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  // The iges-validate bin (see package.json) is bundled from iges-core, which is not published.
+  entry: { index: "src/index.ts", cli: "packages/iges-core/src/cli.ts" },
   format: ["esm", "cjs"],
-  dts: true,
+  dts: { entry: "src/index.ts" },
   sourcemap: true,
   clean: true,
   treeshake: true,